@@ -0,0 +1,153 @@
+import React, { useMemo, useState } from 'react';
+import { StoredReport } from '../types';
+import { SCORE_BANDS, cohortAnalytics, groupByExam } from '../services/analytics';
+import { questionLabel } from '../services/scoring';
+
+interface AnalyticsDashboardProps {
+  entries: StoredReport[];
+}
+
+const percent = (share: number | null) => (share === null ? '—' : `${Math.round(share * 100)}%`);
+
+const BAND_COLOURS = ['bg-rose-500', 'bg-orange-400', 'bg-amber-300', 'bg-indigo-400', 'bg-emerald-500'];
+
+const Tile: React.FC<{ label: string; value: string | number }> = ({ label, value }) => (
+  <div className="p-6 bg-slate-50 rounded-[1.5rem] border border-slate-100">
+    <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.3em] mb-2">{label}</p>
+    <p className="text-3xl font-black tabular-nums tracking-tighter text-indigo-950">{value}</p>
+  </div>
+);
+
+const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ entries }) => {
+  const exams = useMemo(() => groupByExam(entries.filter(e => !e.archived).map(e => e.report)), [entries]);
+  const [exam, setExam] = useState<string>('');
+  const selected = exams.find(g => g.key === exam) || exams[0];
+  const analytics = useMemo(() => (selected ? cohortAnalytics(selected.reports) : null), [selected]);
+
+  if (!analytics) {
+    return <p className="p-8 text-center text-sm font-bold text-slate-400 bg-slate-50 rounded-[1.5rem]">Analytics appear once reports are saved to the history.</p>;
+  }
+
+  return (
+    <div className="space-y-10">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <h4 className="text-[10px] font-black text-indigo-900 uppercase tracking-[0.3em]">Class Analytics</h4>
+        <select
+          value={selected!.key}
+          onChange={e => setExam(e.target.value)}
+          className="px-4 py-3 rounded-xl border border-slate-200 bg-white text-sm font-bold text-slate-800 focus:outline-none focus:border-indigo-600"
+        >
+          {exams.map(group => (
+            <option key={group.key} value={group.key}>{group.label} ({group.reports.length})</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <Tile label="Students" value={analytics.students} />
+        <Tile label="Mean Total" value={analytics.meanTotal} />
+        <Tile label="Mean Score" value={percent(analytics.meanShare)} />
+      </div>
+
+      <section className="space-y-4">
+        <h5 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.3em]">Question-wise Performance</h5>
+        <div className="overflow-x-auto rounded-[1.5rem] border border-slate-200">
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr className="bg-slate-50 text-slate-500 uppercase text-[10px] font-black border-b border-slate-200">
+                <th className="p-4">Question</th>
+                <th className="p-4 text-center">Max</th>
+                <th className="p-4 text-center">Mean</th>
+                <th className="p-4 text-center">Median</th>
+                <th className="p-4 text-center">Attempted</th>
+                <th className="p-4 w-64">Distribution</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 text-sm">
+              {analytics.questions.map(q => {
+                const counted = q.distribution.reduce((a, b) => a + b, 0);
+                return (
+                  <tr key={q.questionNo}>
+                    <td className="p-4 font-black text-indigo-950">{questionLabel(q.questionNo)}</td>
+                    <td className="p-4 text-center text-slate-500">{q.maxMarks ?? '—'}</td>
+                    <td className="p-4 text-center font-black tabular-nums">{q.mean} <span className="text-[10px] text-slate-400">{percent(q.meanShare)}</span></td>
+                    <td className="p-4 text-center tabular-nums">{q.median}</td>
+                    <td className="p-4 text-center tabular-nums">{q.attempted}{q.notAttempted ? <span className="text-slate-400"> / {q.attempted + q.notAttempted}</span> : null}</td>
+                    <td className="p-4">
+                      <div className="flex h-3 rounded-full overflow-hidden bg-slate-100" title={SCORE_BANDS.map((b, i) => `${b}: ${q.distribution[i]}`).join('\n')}>
+                        {counted > 0 && q.distribution.map((n, i) => n > 0 && (
+                          <div key={i} className={BAND_COLOURS[i]} style={{ width: `${(n / counted) * 100}%` }} />
+                        ))}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+        <div className="flex flex-wrap gap-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+          {SCORE_BANDS.map((b, i) => (
+            <span key={b} className="flex items-center"><span className={`w-2 h-2 mr-2 rounded-full ${BAND_COLOURS[i]}`}></span>{b}</span>
+          ))}
+        </div>
+      </section>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <section className="space-y-4">
+          <h5 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.3em]">Most Marks Lost</h5>
+          <ol className="space-y-3">
+            {analytics.hardestQuestions.map(q => (
+              <li key={q.questionNo} className="flex items-center justify-between p-4 bg-rose-50/50 border border-rose-100 rounded-2xl text-sm">
+                <span className="font-black text-rose-900">{questionLabel(q.questionNo)}</span>
+                <span className="font-bold text-rose-800">−{q.meanLost} of {q.maxMarks} on average</span>
+              </li>
+            ))}
+          </ol>
+        </section>
+
+        <section className="space-y-4">
+          <h5 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.3em]">Score Discrepancies by Evaluator</h5>
+          <ul className="space-y-3">
+            {analytics.evaluators.map(ev => (
+              <li key={ev.evaluator} className="p-4 bg-slate-50 border border-slate-100 rounded-2xl text-sm">
+                <div className="flex items-center justify-between">
+                  <span className="font-black text-slate-800">{ev.evaluator}</span>
+                  <span className={`font-black tabular-nums ${ev.rate > 0 ? 'text-rose-700' : 'text-emerald-700'}`}>{ev.flagged}/{ev.reports} · {percent(ev.rate)}</span>
+                </div>
+                {Object.keys(ev.byType).length > 0 && (
+                  <p className="mt-2 text-[11px] font-bold text-slate-500">
+                    {Object.entries(ev.byType).map(([type, n]) => `${type.replace(/_/g, ' ').toLowerCase()} ×${n}`).join(' · ')}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+        </section>
+      </div>
+
+      <section className="space-y-4">
+        <h5 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.3em]">Recurring Misconceptions</h5>
+        {analytics.misconceptions.length === 0 ? (
+          <p className="text-sm font-bold text-slate-400">No theme recurs across two or more students yet.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {analytics.misconceptions.map(m => (
+              <div key={m.term} className="p-6 bg-indigo-50/40 border border-indigo-100 rounded-[1.5rem]">
+                <div className="flex items-center justify-between mb-3">
+                  <span className="font-black text-indigo-950 capitalize">{m.term}</span>
+                  <span className="text-[10px] font-black text-indigo-700 uppercase tracking-widest">{m.students} students · {m.questionNos.map(questionLabel).join(', ')}</span>
+                </div>
+                <ul className="space-y-2">
+                  {m.examples.map((ex, i) => <li key={i} className="text-xs text-slate-600 leading-relaxed">“{ex}”</li>)}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default AnalyticsDashboard;
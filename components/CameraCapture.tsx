@@ -0,0 +1,133 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CAPTURE_CONSTRAINTS, CapturedPage, CropRect, assembleScriptPdf, cameraErrorMessage, captureFrame, cropPage, movePage } from '../services/scriptCapture';
+import PageCropper from './PageCropper';
+
+interface CameraCaptureProps {
+  onComplete: (file: File) => void;
+  onCancel: () => void;
+}
+
+const BUTTON_CLASS = 'px-3 py-2 bg-slate-100 rounded-lg text-[10px] font-black uppercase tracking-widest hover:bg-indigo-900 hover:text-white transition-all disabled:opacity-30';
+
+/**
+ * Photographs a paper script page by page with the device camera. Pages can
+ * be reordered, retaken and cropped before they are put into one PDF.
+ */
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onComplete, onCancel }) => {
+  const video = useRef<HTMLVideoElement>(null);
+  const [pages, setPages] = useState<CapturedPage[]>([]);
+  const [retaking, setRetaking] = useState<number | null>(null);
+  const [cropping, setCropping] = useState<number | null>(null);
+  const [rollNumber, setRollNumber] = useState('');
+  const [ready, setReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError(cameraErrorMessage(null));
+      return;
+    }
+    let stream: MediaStream | null = null;
+    let stopped = false;
+    navigator.mediaDevices.getUserMedia(CAPTURE_CONSTRAINTS)
+      .then(s => {
+        if (stopped) return s.getTracks().forEach(t => t.stop());
+        stream = s;
+        video.current!.srcObject = s;
+      })
+      .catch(e => setError(cameraErrorMessage(e)));
+    return () => {
+      stopped = true;
+      stream?.getTracks().forEach(t => t.stop());
+    };
+  }, []);
+
+  const handleCapture = () => {
+    const page = captureFrame(video.current!);
+    if (retaking === null) setPages(prev => [...prev, page]);
+    else setPages(prev => prev.map((p, i) => (i === retaking ? page : p)));
+    setRetaking(null);
+  };
+
+  const handleCrop = async (index: number, rect: CropRect) => {
+    try {
+      const cropped = await cropPage(pages[index], rect);
+      setPages(prev => prev.map((p, i) => (i === index ? cropped : p)));
+      setCropping(null);
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  // The roll number is read back from the file name to pick the student's
+  // pseudonym, so a capture cannot be used without one.
+  const fileRollNumber = rollNumber.trim().replace(/[^A-Za-z0-9-]+/g, '');
+
+  const handleFinish = () => onComplete(assembleScriptPdf(pages, `${fileRollNumber}_script.pdf`));
+
+  return (
+    <div className="space-y-6 p-6 bg-white border border-slate-200 rounded-[1.5rem] shadow-sm">
+      <div className="flex items-center justify-between">
+        <h4 className="text-[10px] font-black text-indigo-900 uppercase tracking-[0.3em]">Photograph Script</h4>
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{pages.length} page{pages.length === 1 ? '' : 's'}</span>
+      </div>
+
+      {error && <p className="text-xs font-bold text-rose-700 leading-relaxed">{error}</p>}
+
+      {cropping !== null && (
+        <PageCropper page={pages[cropping]} onApply={rect => handleCrop(cropping, rect)} onCancel={() => setCropping(null)} />
+      )}
+      {/* Hidden rather than unmounted while cropping, so the stream stays attached. */}
+      <div className={`space-y-3 ${cropping !== null ? 'hidden' : ''}`}>
+        <video ref={video} autoPlay playsInline muted onPlaying={() => setReady(true)} className="w-full max-h-[50vh] rounded-xl bg-slate-900 object-contain" />
+        <button
+          onClick={handleCapture}
+          disabled={!ready}
+          className="w-full py-4 bg-indigo-900 text-white rounded-2xl text-[10px] font-black uppercase tracking-[0.3em] hover:bg-indigo-950 transition-all disabled:opacity-40"
+        >
+          {retaking === null ? `Capture Page ${pages.length + 1}` : `Retake Page ${retaking + 1}`}
+        </button>
+        {retaking !== null && (
+          <button onClick={() => setRetaking(null)} className="w-full text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-slate-700">Cancel retake</button>
+        )}
+      </div>
+
+      {!!pages.length && (
+        <div className="flex space-x-3 overflow-x-auto pb-2">
+          {pages.map((page, i) => (
+            <figure key={page.id} className={`flex-shrink-0 space-y-2 p-2 rounded-xl border ${retaking === i || cropping === i ? 'border-indigo-600 bg-indigo-50' : 'border-slate-200'}`}>
+              <img src={page.dataUrl} alt={`Page ${i + 1}`} className="h-32 mx-auto rounded-md" />
+              <figcaption className="text-center text-[10px] font-black text-slate-500">Page {i + 1}</figcaption>
+              <div className="grid grid-cols-2 gap-1">
+                <button onClick={() => setPages(movePage(pages, i, i - 1))} disabled={i === 0} className={BUTTON_CLASS} aria-label="Move earlier">←</button>
+                <button onClick={() => setPages(movePage(pages, i, i + 1))} disabled={i === pages.length - 1} className={BUTTON_CLASS} aria-label="Move later">→</button>
+                <button onClick={() => setRetaking(i)} className={BUTTON_CLASS}>Retake</button>
+                <button onClick={() => setCropping(i)} className={BUTTON_CLASS}>Crop</button>
+              </div>
+              <button onClick={() => { setPages(pages.filter((_, j) => j !== i)); setRetaking(null); }} className="w-full px-3 py-2 bg-rose-50 text-rose-800 rounded-lg text-[10px] font-black uppercase tracking-widest hover:bg-rose-700 hover:text-white transition-all">Remove</button>
+            </figure>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          value={rollNumber}
+          onChange={e => setRollNumber(e.target.value)}
+          placeholder="Student roll number"
+          className="flex-1 min-w-[180px] px-4 py-3 rounded-xl border border-slate-200 bg-white text-sm font-bold text-slate-800 focus:outline-none focus:border-indigo-600"
+        />
+        <button onClick={onCancel} className="px-6 py-3 bg-slate-100 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-200 transition-all">Cancel</button>
+        <button
+          onClick={handleFinish}
+          disabled={!pages.length || !fileRollNumber || cropping !== null}
+          className="px-6 py-3 bg-indigo-900 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-950 transition-all disabled:opacity-40"
+        >
+          {pages.length ? `Use ${pages.length} Page${pages.length === 1 ? '' : 's'}` : 'Use Pages'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
@@ -0,0 +1,62 @@
+
+import React, { useState } from 'react';
+
+interface EditableTextProps {
+  value: string;
+  onSave?: (value: string) => void;
+  edited?: boolean;
+  className?: string;
+  multiline?: boolean;
+}
+
+const EditableText: React.FC<EditableTextProps> = ({ value, onSave, edited, className = '', multiline = true }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  if (draft !== null && onSave) {
+    return (
+      <div className="space-y-2">
+        {multiline ? (
+          <textarea
+            autoFocus
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={Math.min(8, Math.max(3, Math.ceil(draft.length / 60)))}
+            className="w-full p-3 rounded-xl border border-indigo-300 bg-white text-sm text-slate-800 font-medium not-italic focus:outline-none focus:border-indigo-600"
+          />
+        ) : (
+          <input
+            autoFocus
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            className="w-full p-3 rounded-xl border border-indigo-300 bg-white text-sm text-slate-800 font-medium focus:outline-none focus:border-indigo-600"
+          />
+        )}
+        <div className="flex space-x-2">
+          <button onClick={() => { onSave(draft); setDraft(null); }} className="px-3 py-1.5 bg-indigo-900 text-white rounded-lg text-[10px] font-black uppercase tracking-widest">Save</button>
+          <button onClick={() => setDraft(null)} className="px-3 py-1.5 bg-slate-100 text-slate-600 rounded-lg text-[10px] font-black uppercase tracking-widest">Cancel</button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="group/editable">
+      <span className={className}>{value}</span>
+      <span className="inline-flex items-center ml-2 space-x-2 align-middle">
+        {edited && (
+          <span className="px-2 py-0.5 bg-amber-50 text-amber-700 border border-amber-200 rounded-full text-[9px] font-black uppercase tracking-widest not-italic">Human Edited</span>
+        )}
+        {onSave && (
+          <button
+            onClick={() => setDraft(value)}
+            className="opacity-0 group-hover/editable:opacity-100 px-2 py-0.5 bg-white border border-slate-200 rounded-full text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-900 transition-all not-italic"
+          >
+            Edit
+          </button>
+        )}
+      </span>
+    </div>
+  );
+};
+
+export default EditableText;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { EvidenceReference } from '../types';
+import { formatReference, isValidReference } from '../services/grounding';
+
+interface EvidenceCitationsProps {
+  evidence?: EvidenceReference[];
+  ungrounded?: boolean;
+  /** Light text for dark panels. */
+  inverted?: boolean;
+}
+
+const EvidenceCitations: React.FC<EvidenceCitationsProps> = ({ evidence, ungrounded, inverted = false }) => {
+  const refs = (evidence || []).filter(ref => isValidReference(ref));
+
+  if (!refs.length) {
+    return ungrounded ? (
+      <span className="inline-flex px-2 py-0.5 rounded-full text-[9px] font-black uppercase tracking-widest bg-amber-50 text-amber-800 border border-amber-200">No citation</span>
+    ) : null;
+  }
+
+  return (
+    <details className="group/cite">
+      <summary className={`cursor-pointer list-none text-[10px] font-black uppercase tracking-widest ${inverted ? 'text-indigo-300 hover:text-white' : 'text-indigo-600 hover:text-indigo-900'}`}>
+        {refs.length} citation{refs.length > 1 ? 's' : ''}
+        <span className="ml-1 inline-block transition-transform group-open/cite:rotate-90">›</span>
+      </summary>
+      <ul className="mt-2 space-y-1">
+        {refs.map((ref, i) => (
+          <li key={i} className={`text-[11px] font-semibold leading-snug not-italic ${inverted ? 'text-slate-400' : 'text-slate-600'}`}>
+            {formatReference(ref)}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+};
+
+export default EvidenceCitations;
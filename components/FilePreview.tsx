@@ -0,0 +1,45 @@
+import React, { useEffect, useState } from 'react';
+import { renderPdfThumbnails } from '../services/pdfPreview';
+
+interface FilePreviewProps {
+  file: File;
+  pageCount?: number;
+}
+
+/** Page thumbnails so the right script can be confirmed before it is sent. */
+const FilePreview: React.FC<FilePreviewProps> = ({ file, pageCount }) => {
+  const [thumbnails, setThumbnails] = useState<string[] | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setThumbnails(null);
+    setFailed(false);
+    renderPdfThumbnails(file)
+      .then(urls => !cancelled && setThumbnails(urls))
+      .catch(() => !cancelled && setFailed(true));
+    return () => { cancelled = true; };
+  }, [file]);
+
+  if (failed) return <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Preview unavailable</p>;
+  if (!thumbnails) return <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest animate-pulse">Rendering preview...</p>;
+
+  const hidden = (pageCount ?? thumbnails.length) - thumbnails.length;
+  return (
+    <div className="flex space-x-2 overflow-x-auto pb-2">
+      {thumbnails.map((src, i) => (
+        <figure key={i} className="flex-shrink-0 text-center">
+          <img src={src} alt={`Page ${i + 1} of ${file.name}`} className="h-28 rounded-md border border-slate-200 shadow-sm bg-white" />
+          <figcaption className="mt-1 text-[9px] font-black text-slate-400">{i + 1}</figcaption>
+        </figure>
+      ))}
+      {hidden > 0 && (
+        <div className="flex-shrink-0 h-28 w-20 flex items-center justify-center rounded-md border border-dashed border-slate-300 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+          +{hidden}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FilePreview;
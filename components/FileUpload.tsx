@@ -1,41 +1,89 @@
-
-import React, { ChangeEvent } from 'react';
+import React, { DragEvent, useState } from 'react';
+import { FileCheck, INTAKE_RULES, IntakeRule, KIND_LABELS, checkFile, formatBytes } from '../services/fileIntake';
+import FilePreview from './FilePreview';
 
 interface FileUploadProps {
   id: string;
   label: string;
   description: string;
   accept?: string;
+  rule?: IntakeRule;
   onChange: (file: File | null) => void;
   fileName: string | null;
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ id, label, description, accept = "application/pdf", onChange, fileName }) => {
-  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0] || null;
-    onChange(file);
+/**
+ * Runs pre-flight checks on a chosen or dropped file and only hands it on
+ * once it passes; a failing file clears the selection and reports why.
+ */
+export const useFileIntake = (rule: IntakeRule, onChange: (file: File | null) => void) => {
+  const [check, setCheck] = useState<FileCheck | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [dragging, setDragging] = useState(false);
+
+  const accept = async (files: ArrayLike<File> | null | undefined) => {
+    const file = files?.[0];
+    if (!file) return;
+    setChecking(true);
+    try {
+      const result = await checkFile(file, rule);
+      setCheck(result);
+      onChange(result.error ? null : result.file);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const dropHandlers = {
+    onDragOver: (e: DragEvent) => {
+      e.preventDefault();
+      setDragging(true);
+    },
+    onDragLeave: () => setDragging(false),
+    onDrop: (e: DragEvent) => {
+      e.preventDefault();
+      setDragging(false);
+      accept(e.dataTransfer.files);
+    }
   };
 
+  return { check, checking, dragging, accept, dropHandlers };
+};
+
+const FileUpload: React.FC<FileUploadProps> = ({ id, label, description, accept = "application/pdf", rule = INTAKE_RULES.pdf, onChange, fileName }) => {
+  const intake = useFileIntake(rule, onChange);
+  const { check } = intake;
+
   return (
     <div className="flex flex-col space-y-2">
       <label htmlFor={id} className="text-sm font-semibold text-slate-700">
         {label}
       </label>
-      <div className={`relative border-2 border-dashed rounded-xl p-6 transition-colors ${fileName ? 'border-blue-800 bg-blue-50' : 'border-slate-300 hover:border-blue-800 bg-white'}`}>
+      <div
+        {...intake.dropHandlers}
+        className={`relative border-2 border-dashed rounded-xl p-6 transition-colors ${intake.dragging ? 'border-blue-800 bg-blue-100' : fileName ? 'border-blue-800 bg-blue-50' : check?.error ? 'border-rose-400 bg-rose-50' : 'border-slate-300 hover:border-blue-800 bg-white'}`}
+      >
         <input
           type="file"
           id={id}
           accept={accept}
-          onChange={handleFileChange}
+          onChange={e => intake.accept(e.target.files)}
           className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
         />
         <div className="flex flex-col items-center justify-center space-y-2 text-center">
-          {fileName ? (
+          {intake.checking ? (
+            <p className="text-sm text-slate-500">Checking file...</p>
+          ) : fileName ? (
             <>
               <svg className="w-8 h-8 text-blue-900" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
               </svg>
               <p className="text-sm font-medium text-blue-900 truncate max-w-xs">{fileName}</p>
+              {check && !check.error && (
+                <p className="text-xs text-slate-500">
+                  {KIND_LABELS[check.kind]} · {formatBytes(check.file.size)}{check.pageCount ? ` · ${check.pageCount} pages` : ''}
+                </p>
+              )}
             </>
           ) : (
             <>
@@ -47,6 +95,9 @@ const FileUpload: React.FC<FileUploadProps> = ({ id, label, description, accept
           )}
         </div>
       </div>
+      {check?.error && <p className="text-xs font-medium text-rose-700">{check.error}</p>}
+      {check?.warning && !check.error && <p className="text-xs font-medium text-amber-700">{check.warning}</p>}
+      {fileName && check?.kind === 'pdf' && !check.error && <FilePreview file={check.file} pageCount={check.pageCount} />}
     </div>
   );
 };
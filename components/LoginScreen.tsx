@@ -0,0 +1,79 @@
+import React, { FormEvent, useEffect, useState } from 'react';
+import { AuthSession, UserRole } from '../types';
+import { ROLE_LABELS, USER_ROLES } from '../services/roles';
+import { fetchAuthProvider, signIn } from '../services/session';
+
+interface LoginScreenProps {
+  onSignedIn: (session: AuthSession) => void;
+}
+
+const INPUT_CLASS = 'w-full px-4 py-3 rounded-xl border border-slate-200 bg-white text-sm font-bold text-slate-800 focus:outline-none focus:border-indigo-600';
+
+/**
+ * Sign-in for staff accounts. With the local provider, used under
+ * `netlify dev`, there is no password and the tester picks a role instead.
+ */
+const LoginScreen: React.FC<LoginScreenProps> = ({ onSignedIn }) => {
+  const [provider, setProvider] = useState<string | null>(null);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [role, setRole] = useState<UserRole>('evaluator');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const local = provider === 'local';
+
+  useEffect(() => {
+    fetchAuthProvider().then(setProvider).catch(e => setError(e.message));
+  }, []);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      onSignedIn(await signIn(username, password, local ? role : undefined));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex items-center justify-center px-6">
+      <form onSubmit={handleSubmit} className="w-full max-w-md bg-white rounded-[2.5rem] shadow-2xl border border-slate-100 p-12 space-y-6">
+        <div className="flex items-center space-x-5">
+          <div className="w-14 h-14 bg-indigo-900 rounded-[1.25rem] flex items-center justify-center text-white text-2xl shadow-xl shadow-indigo-900/20">🛡️</div>
+          <div>
+            <h1 className="text-2xl font-black tracking-tighter leading-none">AnatomyGuard</h1>
+            <p className="text-[10px] text-slate-400 uppercase font-black tracking-[0.4em] mt-2">Staff Sign-In</p>
+          </div>
+        </div>
+
+        <input className={INPUT_CLASS} placeholder="Username" autoComplete="username" value={username} onChange={e => setUsername(e.target.value)} />
+        {local ? (
+          <label className="block space-y-2">
+            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Role (local testing)</span>
+            <select className={INPUT_CLASS} value={role} onChange={e => setRole(e.target.value as UserRole)}>
+              {USER_ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+            </select>
+          </label>
+        ) : (
+          <input className={INPUT_CLASS} type="password" placeholder="Password" autoComplete="current-password" value={password} onChange={e => setPassword(e.target.value)} />
+        )}
+
+        {error && <p className="text-sm font-bold text-rose-700">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={busy || !provider || !username.trim() || (!local && !password)}
+          className="w-full py-4 bg-indigo-900 text-white rounded-2xl text-[10px] font-black uppercase tracking-[0.3em] hover:bg-indigo-950 disabled:opacity-50 transition-all shadow-sm"
+        >
+          {busy ? 'Signing In...' : 'Sign In'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default LoginScreen;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { MarkConfidence, ModerationSummary } from '../types';
+import { CONFIDENCE_LABELS, formatDifference } from '../services/moderation';
+
+interface ModerationTableProps {
+  moderation: ModerationSummary;
+}
+
+const CONFIDENCE_STYLES: Record<MarkConfidence, string> = {
+  low: 'bg-slate-100 text-slate-600 border-slate-200',
+  medium: 'bg-indigo-50 text-indigo-800 border-indigo-200',
+  high: 'bg-emerald-50 text-emerald-800 border-emerald-200'
+};
+
+const ModerationTable: React.FC<ModerationTableProps> = ({ moderation }) => (
+  <section className="space-y-6">
+    <div className="flex items-center justify-between px-2">
+      <h3 className="text-2xl font-black text-slate-900 tracking-tighter">Second-Marker Moderation</h3>
+      <span className={`px-3 py-1 text-[10px] font-black rounded-full uppercase tracking-widest border ${moderation.flagged ? 'bg-rose-50 text-rose-800 border-rose-100' : 'bg-emerald-50 text-emerald-800 border-emerald-100'}`}>
+        {moderation.flagged} flagged · tolerance ±{moderation.tolerance}
+      </span>
+    </div>
+    <p className="px-2 text-xs font-bold text-slate-500">
+      Suggested marks are advisory. The human evaluator's marks above stand unless a moderator changes them.
+    </p>
+    <div className="overflow-x-auto rounded-[2rem] border border-slate-200 bg-white shadow-xl">
+      <table className="w-full text-left border-collapse">
+        <thead>
+          <tr className="bg-slate-50 text-slate-500 uppercase text-[10px] font-black border-b border-slate-200">
+            <th className="p-5 w-20 text-center">Ref</th>
+            <th className="p-5 w-28 text-center">Awarded</th>
+            <th className="p-5 w-28 text-center">Suggested</th>
+            <th className="p-5 w-28 text-center">Difference</th>
+            <th className="p-5 w-28 text-center">Confidence</th>
+            <th className="p-5">Rationale</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100 text-sm">
+          {moderation.items.map(item => (
+            <tr key={item.questionNo} className={item.flagged ? 'bg-rose-50/40' : ''}>
+              <td className="p-5 font-black text-slate-400 text-center">{item.questionNo}</td>
+              <td className="p-5 text-center font-black tabular-nums text-slate-900">{item.marksAwarded}</td>
+              <td className="p-5 text-center font-black tabular-nums text-indigo-900">{item.suggestedMark}</td>
+              <td className={`p-5 text-center font-black tabular-nums ${item.flagged ? 'text-rose-700' : 'text-slate-500'}`}>
+                {formatDifference(item.difference)}
+                {item.flagged && <span className="block text-[9px] uppercase tracking-widest">Review</span>}
+              </td>
+              <td className="p-5 text-center">
+                <span className={`inline-flex px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest border ${CONFIDENCE_STYLES[item.confidence]}`}>
+                  {CONFIDENCE_LABELS[item.confidence]}
+                </span>
+              </td>
+              <td className="p-5 text-slate-600 font-semibold leading-relaxed">{item.rationale}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </section>
+);
+
+export default ModerationTable;
@@ -0,0 +1,67 @@
+import React, { PointerEvent, useRef, useState } from 'react';
+import { CapturedPage, CropRect } from '../services/scriptCapture';
+
+interface PageCropperProps {
+  page: CapturedPage;
+  onApply: (rect: CropRect) => void;
+  onCancel: () => void;
+}
+
+const clamp = (n: number) => Math.min(1, Math.max(0, n));
+
+/** Drag across the photo to mark the part of the page to keep. */
+const PageCropper: React.FC<PageCropperProps> = ({ page, onApply, onCancel }) => {
+  const frame = useRef<HTMLDivElement>(null);
+  const [start, setStart] = useState<{ x: number; y: number } | null>(null);
+  const [rect, setRect] = useState<CropRect | null>(null);
+
+  const point = (e: PointerEvent) => {
+    const box = frame.current!.getBoundingClientRect();
+    return { x: clamp((e.clientX - box.left) / box.width), y: clamp((e.clientY - box.top) / box.height) };
+  };
+
+  const handleDown = (e: PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setStart(point(e));
+    setRect(null);
+  };
+
+  const handleMove = (e: PointerEvent) => {
+    if (!start) return;
+    const p = point(e);
+    setRect({ x: Math.min(start.x, p.x), y: Math.min(start.y, p.y), width: Math.abs(p.x - start.x), height: Math.abs(p.y - start.y) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Drag over the photo to mark the page edges</p>
+      <div
+        ref={frame}
+        onPointerDown={handleDown}
+        onPointerMove={handleMove}
+        onPointerUp={() => setStart(null)}
+        className="relative mx-auto w-fit overflow-hidden rounded-xl touch-none select-none cursor-crosshair"
+      >
+        <img src={page.dataUrl} alt="Captured page" draggable={false} className="max-h-[60vh] rounded-xl border border-slate-200" />
+        {rect && (
+          <div
+            className="absolute border-2 border-indigo-600 bg-indigo-600/10 shadow-[0_0_0_9999px_rgba(15,23,42,0.45)]"
+            style={{ left: `${rect.x * 100}%`, top: `${rect.y * 100}%`, width: `${rect.width * 100}%`, height: `${rect.height * 100}%` }}
+          />
+        )}
+      </div>
+      <div className="flex justify-end space-x-3">
+        <button onClick={onCancel} className="px-6 py-3 bg-slate-100 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-200 transition-all">Cancel</button>
+        <button
+          onClick={() => rect && onApply(rect)}
+          disabled={!rect}
+          className="px-6 py-3 bg-indigo-900 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-950 transition-all disabled:opacity-40"
+        >
+          Apply Crop
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PageCropper;
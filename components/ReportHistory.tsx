@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { HistoryFilters, ReviewState, StoredReport } from '../types';
+import { filterHistory } from '../services/reportHistory';
+import { revealText } from '../services/pseudonyms';
+
+interface ReportHistoryProps {
+  entries: StoredReport[];
+  onOpen: (entry: StoredReport) => void;
+  onArchive: (entry: StoredReport, archived: boolean) => void;
+  onDelete: (entry: StoredReport) => void;
+  syncEnabled: boolean;
+  onToggleSync: (enabled: boolean) => void;
+}
+
+const STATE_STYLES: Record<ReviewState, string> = {
+  draft: 'bg-amber-50 text-amber-800 border-amber-200',
+  reviewed: 'bg-indigo-50 text-indigo-800 border-indigo-200',
+  approved: 'bg-emerald-50 text-emerald-800 border-emerald-200'
+};
+
+const FIELD_CLASS = 'px-4 py-3 rounded-xl border border-slate-200 bg-white text-sm font-bold text-slate-800 focus:outline-none focus:border-indigo-600';
+
+const ReportHistory: React.FC<ReportHistoryProps> = ({ entries, onOpen, onArchive, onDelete, syncEnabled, onToggleSync }) => {
+  const [filters, setFilters] = useState<HistoryFilters>({});
+  const visible = filterHistory(entries, filters);
+  const update = (patch: Partial<HistoryFilters>) => setFilters(prev => ({ ...prev, ...patch }));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h4 className="text-[10px] font-black text-indigo-900 uppercase tracking-[0.3em]">Report History</h4>
+        <label className="flex items-center space-x-2 text-[10px] font-black text-slate-400 uppercase tracking-widest cursor-pointer">
+          <input type="checkbox" checked={syncEnabled} onChange={e => onToggleSync(e.target.checked)} className="accent-indigo-900" />
+          <span>Sync to server</span>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+        <input
+          value={filters.query || ''}
+          onChange={e => update({ query: e.target.value })}
+          placeholder="Exam or student"
+          className={`${FIELD_CLASS} md:col-span-2`}
+        />
+        <select value={filters.reviewState || ''} onChange={e => update({ reviewState: (e.target.value || undefined) as ReviewState | undefined })} className={FIELD_CLASS}>
+          <option value="">Any state</option>
+          <option value="draft">Draft</option>
+          <option value="reviewed">Reviewed</option>
+          <option value="approved">Approved</option>
+        </select>
+        <input type="date" value={filters.from || ''} onChange={e => update({ from: e.target.value || undefined })} className={FIELD_CLASS} aria-label="From date" />
+        <input type="date" value={filters.to || ''} onChange={e => update({ to: e.target.value || undefined })} className={FIELD_CLASS} aria-label="To date" />
+      </div>
+      <label className="flex items-center space-x-2 text-xs font-bold text-slate-500 cursor-pointer">
+        <input type="checkbox" checked={!!filters.includeArchived} onChange={e => update({ includeArchived: e.target.checked })} className="accent-indigo-900" />
+        <span>Show archived</span>
+      </label>
+
+      {visible.length === 0 ? (
+        <p className="p-8 text-center text-sm font-bold text-slate-400 bg-slate-50 rounded-[1.5rem]">
+          {entries.length ? 'No saved reports match these filters.' : 'Completed reports are saved here automatically.'}
+        </p>
+      ) : (
+        <div className="overflow-x-auto rounded-[1.5rem] border border-slate-200">
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr className="bg-slate-50 text-slate-500 uppercase text-[10px] font-black border-b border-slate-200">
+                <th className="p-5">Date</th>
+                <th className="p-5">Exam</th>
+                <th className="p-5">Student</th>
+                <th className="p-5 text-center">State</th>
+                <th className="p-5 text-center">Total</th>
+                <th className="p-5"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 text-sm">
+              {visible.map(entry => (
+                <tr key={entry.id} className={`hover:bg-slate-50/50 transition-all ${entry.archived ? 'opacity-50' : ''}`}>
+                  <td className="p-5 text-slate-500 whitespace-nowrap">{new Date(entry.evaluatedAt).toLocaleDateString()}</td>
+                  <td className="p-5 font-bold text-slate-800 truncate max-w-[220px]">{revealText(entry.examReference)}</td>
+                  <td className="p-5 font-black text-indigo-950">{entry.studentId ? revealText(entry.studentId) : '—'}</td>
+                  <td className="p-5 text-center">
+                    <span className={`inline-flex px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest border ${STATE_STYLES[entry.reviewState]}`}>{entry.reviewState}</span>
+                  </td>
+                  <td className="p-5 text-center font-black tabular-nums">{entry.report.scoreVerification.reportedTotal}</td>
+                  <td className="p-5 text-right whitespace-nowrap space-x-2">
+                    <button onClick={() => onOpen(entry)} className="px-4 py-2 bg-slate-100 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-900 hover:text-white transition-all">Open</button>
+                    <button onClick={() => onArchive(entry, !entry.archived)} className="px-4 py-2 bg-slate-100 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-700 hover:text-white transition-all">
+                      {entry.archived ? 'Restore' : 'Archive'}
+                    </button>
+                    <button
+                      onClick={() => confirm(`Delete the saved report for ${revealText(entry.studentId || entry.examReference)}? This cannot be undone.`) && onDelete(entry)}
+                      className="px-4 py-2 bg-rose-50 text-rose-800 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-rose-700 hover:text-white transition-all"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReportHistory;
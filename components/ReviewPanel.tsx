@@ -0,0 +1,95 @@
+
+import React, { useEffect, useState } from 'react';
+import { EvaluationReport, ReviewState } from '../types';
+import { approveReport, getReview, markReviewed, pendingDecisions, reopenReport } from '../services/review';
+import { can } from '../services/roles';
+import { loadSession } from '../services/session';
+
+interface ReviewPanelProps {
+  report: EvaluationReport;
+  onChange: (report: EvaluationReport) => void;
+}
+
+const STATE_STYLES: Record<ReviewState, string> = {
+  draft: 'bg-amber-50 text-amber-800 border-amber-200',
+  reviewed: 'bg-indigo-50 text-indigo-800 border-indigo-200',
+  approved: 'bg-emerald-50 text-emerald-800 border-emerald-200'
+};
+
+const formatTime = (iso?: string) => (iso ? new Date(iso).toLocaleString() : '');
+
+const ReviewPanel: React.FC<ReviewPanelProps> = ({ report, onChange }) => {
+  const review = getReview(report);
+  const user = loadSession()?.user;
+  const [name, setName] = useState(review.reviewedBy || user?.name || '');
+  const [error, setError] = useState<string | null>(null);
+
+  // The panel stays mounted while the faculty moves between reports.
+  useEffect(() => {
+    setName(review.reviewedBy || user?.name || '');
+    setError(null);
+  }, [report.id]);
+  const pending = pendingDecisions(report);
+  const humanEdits = Object.values(review.fieldOrigins).filter(o => o === 'human').length;
+
+  const run = (action: () => EvaluationReport) => {
+    try {
+      onChange(action());
+      setError(null);
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  return (
+    <section className="bg-white rounded-[2.5rem] border border-slate-200 shadow-xl p-10 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-6">
+        <div className="flex items-center space-x-4">
+          <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.5em]">Faculty Review</h3>
+          <span className={`px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest border ${STATE_STYLES[review.state]}`}>{review.state}</span>
+        </div>
+        <div className="flex flex-wrap gap-4 text-[10px] font-black uppercase tracking-widest text-slate-400">
+          <span>{pending} suggestion(s) pending</span>
+          <span>{humanEdits} field(s) human-edited</span>
+          {!!report.grounding?.flagged && <span className="text-amber-700">{report.grounding.flagged} uncited AI item(s)</span>}
+          {!!report.grounding?.dropped && <span>{report.grounding.dropped} uncited AI item(s) dropped</span>}
+        </div>
+      </div>
+
+      {review.state === 'approved' ? (
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <p className="text-sm font-bold text-emerald-800">
+            Signed off by {review.approvedBy} on {formatTime(review.approvedAt)}
+            {review.reviewedBy && review.reviewedBy !== review.approvedBy && ` · reviewed by ${review.reviewedBy}`}
+          </p>
+          <button onClick={() => run(() => reopenReport(report))} className="px-6 py-3 bg-slate-100 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-200 transition-all">Reopen for Edits</button>
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-4">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Faculty name"
+            className="flex-1 min-w-[220px] px-4 py-3 rounded-xl border border-slate-200 text-sm font-bold focus:outline-none focus:border-indigo-600"
+          />
+          {review.state === 'draft' ? (
+            <button onClick={() => run(() => markReviewed(report, name))} className="px-6 py-3 bg-indigo-900 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-950 transition-all">Mark Reviewed</button>
+          ) : (
+            <>
+              <span className="text-[11px] font-bold text-slate-500">Reviewed by {review.reviewedBy} · {formatTime(review.reviewedAt)}</span>
+              {can(user, 'moderate') ? (
+                <button onClick={() => run(() => approveReport(report, name))} className="px-6 py-3 bg-emerald-700 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-emerald-800 transition-all">Approve &amp; Sign Off</button>
+              ) : (
+                <span className="text-[11px] font-bold text-slate-500">Sign-off needs a moderator or admin.</span>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-sm font-bold text-rose-700">{error}</p>}
+    </section>
+  );
+};
+
+export default ReviewPanel;
@@ -0,0 +1,30 @@
+
+import React from 'react';
+import { SuggestionDecision } from '../types';
+
+interface SuggestionDecisionToggleProps {
+  decision: SuggestionDecision;
+  onChange: (decision: SuggestionDecision) => void;
+  disabled?: boolean;
+}
+
+const SuggestionDecisionToggle: React.FC<SuggestionDecisionToggleProps> = ({ decision, onChange, disabled }) => (
+  <div className="inline-flex rounded-lg border border-slate-200 overflow-hidden not-italic">
+    {(['accepted', 'rejected'] as const).map(option => (
+      <button
+        key={option}
+        disabled={disabled}
+        onClick={() => onChange(decision === option ? 'pending' : option)}
+        className={`px-3 py-1 text-[9px] font-black uppercase tracking-widest transition-all disabled:opacity-50 ${
+          decision === option
+            ? option === 'accepted' ? 'bg-emerald-600 text-white' : 'bg-rose-600 text-white'
+            : 'bg-white text-slate-500 hover:text-slate-900'
+        }`}
+      >
+        {option === 'accepted' ? 'Accept' : 'Reject'}
+      </button>
+    ))}
+  </div>
+);
+
+export default SuggestionDecisionToggle;
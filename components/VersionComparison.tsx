@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import { EvaluationReport } from '../types';
+import { compareVersions, fetchEvaluationVersions } from '../services/evaluationVersions';
+
+interface VersionComparisonProps {
+  report: EvaluationReport;
+}
+
+const versionLabel = (report: EvaluationReport) =>
+  `Version ${report.version ?? '?'}${report.evaluatedAt ? ` · ${new Date(report.evaluatedAt).toLocaleString()}` : ''}`;
+
+const cellClass = (differs: boolean) => `p-5 leading-relaxed ${differs ? 'bg-amber-50/60 text-slate-900' : 'text-slate-500'}`;
+
+// Compares the model's output across evaluations of the same inputs, as
+// generated; edits made in review are not part of the comparison.
+const VersionComparison: React.FC<VersionComparisonProps> = ({ report }) => {
+  const [versions, setVersions] = useState<EvaluationReport[]>([]);
+  const [otherId, setOtherId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setVersions([]);
+    setOtherId(null);
+    if (!report.evaluationKey) return;
+    fetchEvaluationVersions(report.evaluationKey)
+      .then(setVersions)
+      .catch(e => console.warn('Could not load earlier versions:', e));
+  }, [report.evaluationKey, report.id]);
+
+  // Found by version number: a report copied from the cache has its own id.
+  const current = versions.find(v => v.version === report.version);
+  const others = versions.filter(v => v !== current);
+  if (!current || !others.length) return null;
+
+  // Defaults to the version this one replaced, or the newest other one.
+  const other = others.find(v => v.id === otherId) || [...others].reverse().find(v => (v.version ?? 0) < (current.version ?? 0)) || others[others.length - 1];
+  const comparison = compareVersions(other, current);
+  const changed = comparison.questions.filter(q => q.marksDiffer || q.additionsDiffer).length;
+
+  return (
+    <section className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 px-2">
+        <h3 className="text-2xl font-black text-slate-900 tracking-tighter">Evaluation Versions</h3>
+        <div className="flex items-center gap-3">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Compare with</span>
+          <select
+            value={other.id}
+            onChange={e => setOtherId(e.target.value)}
+            className="px-4 py-2 rounded-xl border border-slate-200 bg-white text-xs font-bold text-slate-800 focus:outline-none focus:border-indigo-600"
+          >
+            {others.map(v => <option key={v.id} value={v.id}>{versionLabel(v)}</option>)}
+          </select>
+        </div>
+      </div>
+      <p className="px-2 text-xs font-bold text-slate-500">
+        {changed ? `${changed} of ${comparison.questions.length} question(s) differ between the versions.` : 'Every question matches between the versions.'} Each version is shown as the model generated it, without later edits.
+      </p>
+      <div className="overflow-x-auto rounded-[2rem] border border-slate-200 bg-white shadow-xl">
+        <table className="w-full text-left border-collapse">
+          <thead>
+            <tr className="bg-slate-50 text-slate-500 uppercase text-[10px] font-black border-b border-slate-200">
+              <th className="p-5 w-20 text-center">Ref</th>
+              <th className="p-5 w-28 text-center">Mark v{other.version}</th>
+              <th className="p-5 w-28 text-center">Mark v{current.version}</th>
+              <th className="p-5">AI Addition v{other.version}</th>
+              <th className="p-5">AI Addition v{current.version}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 text-sm font-semibold">
+            {comparison.questions.map(q => (
+              <tr key={q.questionNo}>
+                <td className="p-5 font-black text-slate-400 text-center">{q.questionNo}</td>
+                <td className={`${cellClass(q.marksDiffer)} text-center font-black tabular-nums`}>{q.marks[0] || '—'}</td>
+                <td className={`${cellClass(q.marksDiffer)} text-center font-black tabular-nums`}>{q.marks[1] || '—'}</td>
+                <td className={cellClass(q.additionsDiffer)}>{q.additions[0] || '—'}</td>
+                <td className={cellClass(q.additionsDiffer)}>{q.additions[1] || '—'}</td>
+              </tr>
+            ))}
+            <tr className="border-t-2 border-slate-200">
+              <td className="p-5 font-black text-slate-400 text-center text-[10px] uppercase tracking-widest">Total</td>
+              <td className={`${cellClass(comparison.totals[0] !== comparison.totals[1])} text-center font-black tabular-nums`}>{comparison.totals[0]}</td>
+              <td className={`${cellClass(comparison.totals[0] !== comparison.totals[1])} text-center font-black tabular-nums`}>{comparison.totals[1]}</td>
+              <td className={cellClass(comparison.synthesisDiffers)}>{comparison.synthesis[0]}</td>
+              <td className={cellClass(comparison.synthesisDiffers)}>{comparison.synthesis[1]}</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+};
+
+export default VersionComparison;
@@ -1,30 +1,335 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { createRoot } from 'react-dom/client';
-import { EvaluationReport, ProcessingStatus } from './types';
+import { AuthSession, AuthUser, BatchItem, DocumentInput, EvaluationJob, EvaluationReport, EvaluationRequest, ExamMaterials, ExamTemplate, JobStage, OptionalSection, ProcessingStatus, PromptProfile, QuestionFeedback, ReportValidationError, ReportViewMode, SecondMarkerOptions, StoredReport, StructuredFeedback, StructuredQuestionMark, StudentIdentity, TemplateQuestion } from './types';
+import { BATCH_CONCURRENCY, BATCH_MAX_ATTEMPTS, UnmatchedFile, expandUploads, extractRollNumber, loadFeedbackPattern, pairByRollNumber, parseFeedbackPattern, preflightBatch, retryWithBackoff, saveFeedbackPattern } from './services/batch';
+import { computeTemplateTotal, templateFromReport } from './services/examTemplate';
+import { deleteTemplate, loadTemplates, saveTemplate } from './services/templateStore';
+import { VIEW_MODE_LABELS, projectReport } from './services/reportView';
+import { deleteReport, isHistorySyncEnabled, listReports, onSyncFailure, saveReport, savedVersionOf, setArchived, setHistorySyncEnabled, stampReport } from './services/reportHistory';
+import { formatValidationErrors, validateReport } from './services/reportSchema';
+import { DEFAULT_MODERATION_TOLERANCE } from './services/moderation';
+import { INTAKE_RULES, IntakeRule, KIND_LABELS, formatBytes, sniffFileKind } from './services/fileIntake';
+import { FEEDBACK_PAYLOAD_BUDGET, preprocessScript } from './services/pagePreprocess';
+import { extractPdfText } from './services/pdfPreview';
+import { Redaction, pageRedactor, redactDocx, redactReport, redactText } from './services/redaction';
+import { lookupPseudonym, pseudonymFor, revealReport, revealText } from './services/pseudonyms';
+import { feedbackFromTemplate, structuredTotal, validateStructuredFeedback } from './services/structuredFeedback';
+import { COLUMN_LABELS, SpreadsheetColumns, SpreadsheetFormat, exportMarksSpreadsheet, importMarksSpreadsheet, isSpreadsheet, loadColumns, saveColumns, validateColumns } from './services/spreadsheet';
+import { SYNTHESIS_FIELD, additionDecision, decideAddition, editField, fieldOrigin, getReview, questionField } from './services/review';
+import { fetchAuditTrail } from './services/auditTrail';
+import { ExportBranding, downloadBlob, exportBatchZip, exportReportDocx, exportReportPdf, loadBranding, reportFileName, saveBranding, studentCopyReleased } from './services/reportExport';
+import EditableText from './components/EditableText';
+import ReviewPanel from './components/ReviewPanel';
+import SuggestionDecisionToggle from './components/SuggestionDecisionToggle';
+import ReportHistory from './components/ReportHistory';
+import EvidenceCitations from './components/EvidenceCitations';
+import AnalyticsDashboard from './components/AnalyticsDashboard';
+import FilePreview from './components/FilePreview';
+import CameraCapture from './components/CameraCapture';
+import { useFileIntake } from './components/FileUpload';
+import ModerationTable from './components/ModerationTable';
+import VersionComparison from './components/VersionComparison';
+import LoginScreen from './components/LoginScreen';
+import { SESSION_EXPIRED_EVENT, authHeaders, clearSession, expireSession, loadSession } from './services/session';
+import { ROLE_LABELS, can } from './services/roles';
+import { DEFAULT_PROFILE_ID, EXAM_FORMAT_LABELS, latestProfiles, profileLabel, resolveProfile } from './services/promptProfiles';
 
 // --- EVALUATION SERVICE PROXY ---
 
-async function runMedicalEvaluation(
-  artifact: { name: string; data: string; mimeType: string },
-  humanFeedback: { name: string; data: string; mimeType: string }
-): Promise<EvaluationReport> {
-  const response = await fetch('/.netlify/functions/evaluate', {
+// Sends a POST when a body is given, otherwise a GET (e.g. "jobs?id=...").
+async function callFunction<T>(path: string, body?: unknown): Promise<T> {
+  const response = await fetch(`/.netlify/functions/${path}`, body === undefined ? { headers: authHeaders() } : {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
+      ...authHeaders(),
     },
-    body: JSON.stringify({ artifact, humanFeedback }),
+    body: JSON.stringify(body),
   });
 
+  if (response.status === 401) expireSession();
   if (!response.ok) {
     const errorData = await response.json().catch(() => ({}));
-    throw new Error(errorData.error || `System Error: ${response.status} ${response.statusText}`);
+    throw serviceError(errorData.error || `System Error: ${response.status} ${response.statusText}`, response.status, errorData.validationErrors);
   }
 
   return await response.json();
 }
 
+type ServiceError = Error & { status?: number; validationErrors?: ReportValidationError[] };
+
+const serviceError = (message: string, status?: number, validationErrors?: ReportValidationError[]): ServiceError => {
+  const error: ServiceError = new Error(validationErrors?.length ? `${message}\n${formatValidationErrors(validationErrors)}` : message);
+  error.status = status;
+  error.validationErrors = validationErrors;
+  return error;
+};
+
+const JOB_STREAM_MAX_FAILURES = 5;
+const JOB_RECONNECT_DELAY_MS = 3000;
+const ACTIVE_JOB_KEY = 'anatomyguard.activeJob';
+const BATCH_JOBS_KEY = 'anatomyguard.batchJobs';
+
+const JOB_STAGE_LABELS: Record<JobStage, string> = {
+  preparing: 'Preparing Script Pages...',
+  uploading: 'Uploading Documents...',
+  extracting: 'Extracting Marks & Feedback...',
+  scoring: 'Recomputing Scores...',
+  enhancing: 'Checking AI Additions...',
+  verifying: 'Verifying Report...'
+};
+
+interface EvaluationProgress {
+  onStage?: (stage: JobStage) => void;
+  /** Called once per question row as the model writes it, before the report is checked. */
+  onQuestion?: (question: Partial<QuestionFeedback>) => void;
+  /** Called once the job is accepted, e.g. to remember it across reloads. */
+  onSubmitted?: (jobId: string) => void;
+  /** Aborting stops the wait and cancels the job, and with it the model request. */
+  signal?: AbortSignal;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const cancelledError = () => new DOMException('The evaluation was cancelled.', 'AbortError');
+
+async function cancelJob(jobId: string): Promise<void> {
+  const response = await fetch(`/.netlify/functions/jobs?id=${encodeURIComponent(jobId)}`, { method: 'DELETE', headers: authHeaders() });
+  // 409 means it finished first, which leaves nothing to cancel.
+  if (!response.ok && response.status !== 409) {
+    const errorData = await response.json().catch(() => ({}));
+    throw serviceError(errorData.error || `System Error: ${response.status} ${response.statusText}`, response.status);
+  }
+}
+
+type JobEvent = { event: string; data: any };
+
+// Read from fetch rather than EventSource, which cannot send the Authorization header.
+async function* readJobEvents(response: Response): AsyncGenerator<JobEvent> {
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffer += value;
+    for (let end = buffer.indexOf('\n\n'); end >= 0; end = buffer.indexOf('\n\n')) {
+      const block = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      const data = block.split('\n').filter(line => line.startsWith('data: ')).map(line => line.slice(6)).join('\n');
+      yield { event: block.match(/^event: (.*)$/m)?.[1] || 'message', data: data ? JSON.parse(data) : null };
+    }
+  }
+}
+
+/**
+ * Follows a job's event stream until it finishes. The stream is reopened
+ * from the last question received whenever it ends early, so brief network
+ * failures are ridden out.
+ */
+async function waitForJob(jobId: string, { onStage, onQuestion, signal }: EvaluationProgress = {}): Promise<EvaluationReport> {
+  const stop = () => cancelJob(jobId).catch(e => console.warn('Could not cancel the evaluation job:', e));
+  if (signal?.aborted) stop();
+  signal?.addEventListener('abort', stop, { once: true });
+
+  let received = 0;
+  let failures = 0;
+  try {
+    for (;;) {
+      signal?.throwIfAborted();
+      let finished: JobEvent | null = null;
+      try {
+        const response = await fetch(`/.netlify/functions/job-events?id=${encodeURIComponent(jobId)}&from=${received}`, { headers: authHeaders(), signal });
+        if (response.status === 401) expireSession();
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw serviceError(errorData.error || `System Error: ${response.status} ${response.statusText}`, response.status);
+        }
+        for await (const message of readJobEvents(response)) {
+          failures = 0;
+          if (message.event === 'stage') onStage?.(message.data.stage);
+          if (message.event === 'question') {
+            received = message.data.index + 1;
+            onQuestion?.(message.data.question);
+          }
+          if (['completed', 'failed', 'cancelled'].includes(message.event)) {
+            finished = message;
+            break;
+          }
+        }
+      } catch (e: any) {
+        if (signal?.aborted || (e.status && e.status < 500) || ++failures >= JOB_STREAM_MAX_FAILURES) throw e;
+        await sleep(JOB_RECONNECT_DELAY_MS);
+        continue;
+      }
+      if (!finished) continue;
+
+      const job: EvaluationJob = finished.data;
+      if (job.status === 'cancelled') throw cancelledError();
+      if (job.status === 'failed') throw serviceError(job.error || 'The evaluation job failed.', job.errorStatus ?? 500, job.validationErrors);
+      // The function validates too; checking again keeps a stale or proxied response from reaching the UI.
+      const result = validateReport(job.report);
+      if (result.ok === false) throw serviceError('The evaluation service returned an incomplete report.', 502, result.errors);
+      return result.report;
+    }
+  } finally {
+    signal?.removeEventListener('abort', stop);
+  }
+}
+
+async function runMedicalEvaluation(request: EvaluationRequest, progress: EvaluationProgress = {}): Promise<EvaluationReport> {
+  progress.onStage?.('uploading');
+  progress.signal?.throwIfAborted();
+  const job = await callFunction<EvaluationJob>('jobs', request);
+  progress.onSubmitted?.(job.id);
+  return waitForJob(job.id, progress);
+}
+
+const fileToBase64 = (f: File): Promise<string> => new Promise((res, rej) => {
+  const r = new FileReader(); r.readAsDataURL(f);
+  r.onload = () => res((r.result as string).split(',')[1]); r.onerror = rej;
+});
+
+const toDocument = async (f: File): Promise<DocumentInput> => ({ name: f.name, data: await fileToBase64(f), mimeType: f.type });
+
+// Scripts go as levelled page images with the student's details masked. A
+// script that cannot be rendered cannot be masked either, so it is not sent.
+const toScriptDocument = async (f: File, redaction: Redaction): Promise<{ document: DocumentInput; droppedBlankPages: number[] }> => {
+  const prepared = await preprocessScript(f, { redact: pageRedactor(redaction, 'script') });
+  if (!prepared) throw new Error(`${f.name} could not be opened, so the student's details could not be masked before upload.`);
+  return {
+    document: { ...prepared.document, name: `${redaction.pseudonym}_script.pdf` },
+    droppedBlankPages: prepared.droppedBlankPages
+  };
+};
+
+// PDF feedback is masked and sent as page images like a script; Word feedback
+// has the details replaced in its text.
+const toFeedbackDocument = async (f: File, redaction: Redaction): Promise<DocumentInput> => {
+  if (await sniffFileKind(f) === 'docx') {
+    return toDocument(await redactDocx(f, redaction, `${redaction.pseudonym}_feedback.docx`));
+  }
+  const prepared = await preprocessScript(f, { redact: pageRedactor(redaction, 'feedback'), payloadBudget: FEEDBACK_PAYLOAD_BUDGET });
+  if (!prepared) throw new Error(`${f.name} could not be opened, so the student's details could not be masked before upload. Save it as PDF or .docx.`);
+  return { ...prepared.document, name: `${redaction.pseudonym}_feedback.pdf` };
+};
+
+const redactStructuredFeedback = (feedback: StructuredFeedback, redaction: Redaction): StructuredFeedback => ({
+  ...feedback,
+  questions: feedback.questions.map(q => ({ ...q, comment: redactText(q.comment, redaction) })),
+  overallFeedback: redactText(feedback.overallFeedback, redaction)
+});
+
+async function uploadExamMaterials(questionPaper: File, markingScheme: File): Promise<ExamMaterials> {
+  // The scheme's text lets the server check the points the model quotes from it; a scan has none.
+  const schemeText = await extractPdfText(markingScheme).catch(() => '');
+  return callFunction<ExamMaterials>('exam-materials', {
+    questionPaper: await toDocument(questionPaper),
+    markingScheme: { ...(await toDocument(markingScheme)), ...(schemeText.trim() ? { text: schemeText } : {}) }
+  });
+}
+
+interface EvaluationSettings {
+  template: ExamTemplate | null;
+  secondMarker: SecondMarkerOptions | null;
+  promptProfile: PromptProfile;
+}
+
+interface ScriptSubmission {
+  script: File;
+  feedback: File | StructuredFeedback;
+  student: StudentIdentity;
+  /** Runs the model again instead of returning the cached report for these files. */
+  reevaluate?: boolean;
+}
+
+// Only the student's pseudonym leaves the browser; see services/redaction.
+async function evaluateScript(
+  materials: ExamMaterials,
+  { script, feedback, student, reevaluate }: ScriptSubmission,
+  { template, secondMarker, promptProfile }: EvaluationSettings,
+  progress?: EvaluationProgress
+): Promise<EvaluationReport> {
+  progress?.onStage?.('preparing');
+  const redaction: Redaction = { student, pseudonym: pseudonymFor(student) };
+  const { document: studentScript, droppedBlankPages } = await toScriptDocument(script, redaction);
+  const report = await runMedicalEvaluation({
+    questionPaper: materials.questionPaper,
+    markingScheme: materials.markingScheme,
+    studentScript,
+    ...(feedback instanceof File
+      ? { humanFeedback: await toFeedbackDocument(feedback, redaction) }
+      : { structuredFeedback: redactStructuredFeedback(feedback, redaction) }),
+    template: template || undefined,
+    secondMarker: secondMarker || undefined,
+    promptProfile: { id: promptProfile.id, version: promptProfile.version },
+    studentPseudonym: redaction.pseudonym,
+    ...(droppedBlankPages.length ? { droppedBlankPages } : {}),
+    ...(reevaluate ? { reevaluate } : {})
+  }, progress);
+  return redactReport(report, redaction);
+}
+
+const PROMPT_PROFILE_KEY = 'anatomyguard.promptProfile';
+
+const fileKey = (f: File) => `${f.name}:${f.size}:${f.lastModified}`;
+const MATERIALS_REFRESH_MARGIN_MS = 10 * 60 * 1000;
+
+type ExamMaterialsState = ReturnType<typeof useExamMaterials>;
+
+// The paper and scheme are uploaded once and reused for every student until
+// either file changes or the uploaded copies are close to expiry.
+function useExamMaterials() {
+  const [questionPaper, setQuestionPaper] = useState<File | null>(null);
+  const [markingScheme, setMarkingScheme] = useState<File | null>(null);
+  const [template, setTemplate] = useState<ExamTemplate | null>(null);
+  const [secondMarker, setSecondMarker] = useState<SecondMarkerOptions | null>(null);
+  const [promptProfile, setPromptProfileState] = useState<PromptProfile>(
+    () => resolveProfile({ id: localStorage.getItem(PROMPT_PROFILE_KEY) || DEFAULT_PROFILE_ID }) || resolveProfile()!
+  );
+  const uploaded = useRef<{ key: string; promise: Promise<ExamMaterials>; expiresAt?: string } | null>(null);
+
+  const resolve = (): Promise<ExamMaterials> => {
+    if (!questionPaper || !markingScheme) {
+      return Promise.reject(new Error('Upload the question paper and marking scheme for this exam first.'));
+    }
+    const key = `${fileKey(questionPaper)}|${fileKey(markingScheme)}`;
+    const cached = uploaded.current;
+    const expiring = cached?.expiresAt && Date.parse(cached.expiresAt) - Date.now() < MATERIALS_REFRESH_MARGIN_MS;
+    if (cached?.key === key && !expiring) return cached.promise;
+
+    const entry: { key: string; promise: Promise<ExamMaterials>; expiresAt?: string } = {
+      key,
+      promise: uploadExamMaterials(questionPaper, markingScheme)
+        .then(materials => {
+          entry.expiresAt = materials.expiresAt;
+          return materials;
+        })
+        .catch(e => {
+          if (uploaded.current === entry) uploaded.current = null;
+          throw e;
+        })
+    };
+    uploaded.current = entry;
+    return entry.promise;
+  };
+
+  const setPromptProfile = (profile: PromptProfile) => {
+    localStorage.setItem(PROMPT_PROFILE_KEY, profile.id);
+    setPromptProfileState(profile);
+  };
+
+  return {
+    questionPaper, setQuestionPaper,
+    markingScheme, setMarkingScheme,
+    template, setTemplate,
+    secondMarker, setSecondMarker,
+    promptProfile, setPromptProfile,
+    ready: !!questionPaper && !!markingScheme,
+    resolve
+  };
+}
+
 // --- UI COMPONENTS ---
 
 const FileInput: React.FC<{
@@ -33,23 +338,41 @@ const FileInput: React.FC<{
   onChange: (file: File | null) => void;
   selectedFile: File | null;
   accept?: string;
-}> = ({ label, description, onChange, selectedFile, accept }) => (
+  rule?: IntakeRule;
+  /** Offers photographing a paper original with the device camera. */
+  capture?: boolean;
+}> = ({ label, description, onChange, selectedFile, accept, rule = INTAKE_RULES.pdf, capture = false }) => {
+  const intake = useFileIntake(rule, onChange);
+  const { check } = intake;
+  const [capturing, setCapturing] = useState(false);
+
+  return (
   <div className="flex flex-col space-y-2">
     <label className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">{label}</label>
-    <div className={`relative border-2 border-dashed rounded-[1.5rem] p-8 transition-all duration-300 ${selectedFile ? 'border-indigo-600 bg-indigo-50/50 shadow-inner' : 'border-slate-200 hover:border-indigo-400 bg-white shadow-sm'}`}>
+    <div
+      {...intake.dropHandlers}
+      className={`relative border-2 border-dashed rounded-[1.5rem] p-8 transition-all duration-300 ${intake.dragging ? 'border-indigo-600 bg-indigo-100/60' : selectedFile ? 'border-indigo-600 bg-indigo-50/50 shadow-inner' : check?.error ? 'border-rose-300 bg-rose-50/50' : 'border-slate-200 hover:border-indigo-400 bg-white shadow-sm'}`}
+    >
       <input 
         type="file" 
         accept={accept}
-        onChange={(e) => onChange(e.target.files?.[0] || null)} 
+        onChange={(e) => intake.accept(e.target.files)} 
         className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10" 
       />
       <div className="flex flex-col items-center justify-center space-y-3 text-center">
-        {selectedFile ? (
+        {intake.checking ? (
+          <p className="text-[10px] font-black text-indigo-900 uppercase tracking-widest animate-pulse">Checking file...</p>
+        ) : selectedFile ? (
           <>
             <div className="w-12 h-12 bg-indigo-950 rounded-xl flex items-center justify-center text-white mb-1 shadow-lg">
               <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M5 13l4 4L19 7" /></svg>
             </div>
             <p className="text-sm font-bold text-indigo-950 truncate max-w-[200px]">{selectedFile.name}</p>
+            {check && !check.error && (
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                {KIND_LABELS[check.kind]} · {formatBytes(selectedFile.size)}{check.pageCount ? ` · ${check.pageCount} pages` : ''}
+              </p>
+            )}
           </>
         ) : (
           <>
@@ -61,21 +384,158 @@ const FileInput: React.FC<{
         )}
       </div>
     </div>
+    {check?.error && <p className="text-xs font-bold text-rose-700 leading-relaxed">{check.error}</p>}
+    {check?.warning && !check.error && <p className="text-xs font-bold text-amber-700 leading-relaxed">{check.warning}</p>}
+    {selectedFile && check?.kind === 'pdf' && !check.error && <FilePreview file={selectedFile} pageCount={check.pageCount} />}
+    {capture && (capturing ? (
+      <CameraCapture
+        onComplete={file => {
+          setCapturing(false);
+          intake.accept([file]);
+        }}
+        onCancel={() => setCapturing(false)}
+      />
+    ) : (
+      <button onClick={() => setCapturing(true)} className="self-start px-5 py-3 bg-white border border-slate-200 rounded-xl text-[10px] font-black uppercase tracking-widest hover:border-indigo-600 transition-all">
+        Photograph Pages Instead
+      </button>
+    ))}
   </div>
-);
+  );
+};
+
+// Exports name the student for viewers allowed to see identities; the saved report keeps the pseudonym.
+const ExportControls: React.FC<{ report: EvaluationReport; mode: ReportViewMode }> = ({ report: source, mode }) => {
+  const report = revealReport(source);
+  const [branding, setBranding] = useState<ExportBranding>(loadBranding);
+  const [editingLetterhead, setEditingLetterhead] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const held = mode === 'student' && !studentCopyReleased(source);
+
+  const run = async (kind: string, build: () => Blob | Promise<Blob>, fileName: string) => {
+    setBusy(kind);
+    setError(null);
+    try {
+      downloadBlob(await build(), fileName);
+    } catch (e: any) {
+      setError(e.message || 'Export failed.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const updateBranding = (patch: Partial<ExportBranding>) => {
+    const next = { ...branding, ...patch };
+    setBranding(next);
+    saveBranding(next);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <button
+          onClick={() => run('pdf', () => exportReportPdf(report, mode, branding), reportFileName(report, mode, 'pdf'))}
+          disabled={!!busy || held}
+          className="px-6 py-6 bg-indigo-700 hover:bg-indigo-600 rounded-[2rem] text-[10px] font-black uppercase tracking-[0.4em] transition-all shadow-xl active:scale-[0.98] disabled:opacity-50"
+        >
+          {busy === 'pdf' ? 'Rendering...' : `${mode} PDF`}
+        </button>
+        <button
+          onClick={() => run('docx', () => exportReportDocx(report, mode, branding), reportFileName(report, mode, 'docx'))}
+          disabled={!!busy || held}
+          className="px-6 py-6 bg-indigo-700 hover:bg-indigo-600 rounded-[2rem] text-[10px] font-black uppercase tracking-[0.4em] transition-all shadow-xl active:scale-[0.98] disabled:opacity-50"
+        >
+          {busy === 'docx' ? 'Rendering...' : `${mode} DOCX`}
+        </button>
+        {(['csv', 'xlsx'] as SpreadsheetFormat[]).map(format => (
+          <button
+            key={format}
+            onClick={() => run(format, () => exportMarksSpreadsheet([report], format, loadColumns(), mode), reportFileName(report, `${mode}_marks`, format))}
+            disabled={!!busy || held}
+            className="px-6 py-4 bg-white/10 hover:bg-white/20 rounded-[2rem] text-[10px] font-black uppercase tracking-[0.4em] transition-all active:scale-[0.98] disabled:opacity-50"
+          >
+            {busy === format ? 'Rendering...' : `Marks ${format.toUpperCase()}`}
+          </button>
+        ))}
+      </div>
+      {held && <p className="text-xs font-bold text-indigo-300">Student copies and marks unlock once the report is approved and signed off.</p>}
+      {source.id && (
+        <button
+          onClick={() => run('audit', async () => {
+            // Exported as held on the server, pseudonyms and all, so the hashes can be checked again.
+            const trail = await fetchAuditTrail(source.id!);
+            if (!trail.intact) setError(`The audit trail failed its integrity check:\n${trail.problems.join('\n')}`);
+            return new Blob([JSON.stringify(trail, null, 2)], { type: 'application/json' });
+          }, reportFileName(source, 'audit_trail', 'json'))}
+          disabled={!!busy}
+          className="w-full px-6 py-4 bg-white/10 hover:bg-white/20 rounded-[2rem] text-[10px] font-black uppercase tracking-[0.4em] transition-all active:scale-[0.98] disabled:opacity-50"
+        >
+          {busy === 'audit' ? 'Exporting...' : 'Audit Trail'}
+        </button>
+      )}
+      <button onClick={() => setEditingLetterhead(v => !v)} className="w-full text-[10px] font-black uppercase tracking-[0.4em] text-indigo-300 hover:text-white transition-all">
+        Letterhead: {branding.institutionName}
+      </button>
+      {editingLetterhead && (
+        <div className="space-y-3">
+          {(['institutionName', 'department', 'addressLine'] as const).map(key => (
+            <input
+              key={key}
+              value={branding[key]}
+              onChange={e => updateBranding({ [key]: e.target.value })}
+              placeholder={{ institutionName: 'Institution', department: 'Department', addressLine: 'Address' }[key]}
+              className="w-full px-4 py-3 rounded-xl bg-white/10 border border-white/10 text-sm font-bold text-white placeholder-slate-500 focus:outline-none focus:border-indigo-400"
+            />
+          ))}
+        </div>
+      )}
+      {error && <p className="text-xs font-bold text-rose-300 whitespace-pre-line">{error}</p>}
+    </div>
+  );
+};
+
+const ReportUI: React.FC<{
+  report: EvaluationReport;
+  viewMode: ReportViewMode;
+  onViewModeChange?: (mode: ReportViewMode) => void;
+  onChange?: (report: EvaluationReport) => void;
+  onSaveTemplate?: () => void;
+}> = ({ report: source, viewMode, onViewModeChange, onChange, onSaveTemplate }) => {
+  const faculty = viewMode === 'faculty';
+  const report = projectReport(source, viewMode);
+  const locked = getReview(source).state === 'approved';
+  const save = faculty && onChange && !locked ? (field: string) => (value: string) => onChange(editField(source, field, value, loadSession()?.user.name)) : undefined;
 
-const ReportUI: React.FC<{ report: EvaluationReport }> = ({ report }) => (
+  return (
   <div className="w-full space-y-12 pb-24 animate-in fade-in slide-in-from-bottom-8 duration-700">
     <div className="bg-indigo-950 text-white rounded-[3rem] p-12 shadow-2xl relative overflow-hidden">
       <div className="absolute top-0 right-0 w-[50rem] h-[50rem] bg-indigo-500/10 rounded-full -mr-[25rem] -mt-[25rem] blur-[120px]"></div>
       <div className="relative z-10 flex flex-col lg:flex-row justify-between lg:items-end gap-12">
         <div className="space-y-4">
           <div className="inline-flex items-center px-4 py-1.5 bg-indigo-800/50 backdrop-blur-md rounded-full text-[10px] font-black uppercase tracking-[0.3em] text-indigo-200 border border-indigo-700/50">Verification Protocol Success</div>
-          <h2 className="text-5xl font-black tracking-tighter leading-none">{report.examReference}</h2>
+          <h2 className="text-5xl font-black tracking-tighter leading-none">{revealText(report.examReference)}</h2>
           <div className="flex flex-wrap items-center gap-6 text-[10px] font-black uppercase tracking-[0.4em] opacity-60">
+            {source.studentId && <span>Student {revealText(source.studentId)}</span>}
             <span>{report.evaluationType}</span>
-            <span className="font-mono text-indigo-300">{report.aiModelRole}</span>
+            {faculty && <span className="font-mono text-indigo-300">{report.aiModelRole}</span>}
+            {faculty && source.promptProfile && <span>{profileLabel(source.promptProfile)}</span>}
+            {faculty && source.generatedBy && <span>Run by {source.generatedBy.name} · {ROLE_LABELS[source.generatedBy.role]}</span>}
+            {faculty && source.version && source.version > 1 && <span>Version {source.version}</span>}
           </div>
+          {onViewModeChange && (
+            <div className="inline-flex p-1 bg-indigo-900/60 rounded-full border border-indigo-700/50">
+              {(Object.keys(VIEW_MODE_LABELS) as ReportViewMode[]).map(m => (
+                <button
+                  key={m}
+                  onClick={() => onViewModeChange(m)}
+                  className={`px-5 py-2 rounded-full text-[10px] font-black uppercase tracking-[0.3em] transition-all ${viewMode === m ? 'bg-white text-indigo-950' : 'text-indigo-300 hover:text-white'}`}
+                >
+                  {VIEW_MODE_LABELS[m]}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
         <div className="text-right border-l border-white/10 pl-12">
           <p className="text-[10px] font-black uppercase text-indigo-400 tracking-[0.4em] mb-2">Validated Final Grade</p>
@@ -87,6 +547,14 @@ const ReportUI: React.FC<{ report: EvaluationReport }> = ({ report }) => (
       </div>
     </div>
 
+    {faculty && onChange && <ReviewPanel report={source} onChange={onChange} />}
+
+    {faculty && !!source.droppedBlankPages?.length && (
+      <div className="p-6 bg-amber-50 border border-amber-100 rounded-[1.5rem] text-xs font-bold text-amber-800 leading-relaxed">
+        {source.droppedBlankPages.length === 1 ? 'Page' : 'Pages'} {source.droppedBlankPages.join(', ')} of the script looked blank and {source.droppedBlankPages.length === 1 ? 'was' : 'were'} not sent for evaluation. Check the original script if an answer might be missing.
+      </div>
+    )}
+
     <section className="bg-white rounded-[2.5rem] border border-slate-200 shadow-xl overflow-hidden group">
       <div className="bg-indigo-900 px-10 py-6 flex items-center justify-between border-b border-indigo-800">
         <h3 className="text-[10px] font-black text-white uppercase tracking-[0.4em] flex items-center">
@@ -95,7 +563,11 @@ const ReportUI: React.FC<{ report: EvaluationReport }> = ({ report }) => (
         </h3>
       </div>
       <div className="p-12 leading-[2.1] text-slate-700 text-xl font-medium italic border-l-[10px] border-indigo-900 bg-slate-50/30 m-8 rounded-3xl shadow-inner group-hover:bg-white transition-all">
-        "{report.elaboratedGeneralisedFeedback}"
+        <EditableText
+          value={report.elaboratedGeneralisedFeedback}
+          onSave={save?.(SYNTHESIS_FIELD)}
+          edited={faculty && fieldOrigin(source, SYNTHESIS_FIELD) === 'human'}
+        />
       </div>
     </section>
 
@@ -111,8 +583,8 @@ const ReportUI: React.FC<{ report: EvaluationReport }> = ({ report }) => (
               <th className="p-10 w-24 text-center">Ref</th>
               <th className="p-10 w-32 text-center">Audit Score</th>
               <th className="p-10 w-80">Human Evaluator Insight</th>
-              <th className="p-10 w-80">Student Script Extract (OCR)</th>
-              <th className="p-10 bg-indigo-50/50 text-indigo-950 border-l-4 border-indigo-900">AI Enhancement Suggestion</th>
+              {faculty && <th className="p-10 w-80">Student Script Extract (OCR)</th>}
+              <th className="p-10 bg-indigo-50/50 text-indigo-950 border-l-4 border-indigo-900">{faculty ? 'AI Enhancement Suggestion' : 'Further Guidance'}</th>
             </tr>
           </thead>
           <tbody className="divide-y divide-slate-100">
@@ -126,12 +598,38 @@ const ReportUI: React.FC<{ report: EvaluationReport }> = ({ report }) => (
                   </div>
                 </td>
                 <td className="p-10 text-sm text-slate-600 font-bold leading-relaxed">{q.humanFeedback}</td>
-                <td className="p-10 text-sm text-slate-500 italic leading-relaxed">{q.studentAnswerSummary}</td>
+                {faculty && (
+                  <td className="p-10 text-sm text-slate-500 italic leading-relaxed">
+                    <EditableText
+                      value={q.studentAnswerSummary}
+                      onSave={save?.(questionField(idx, 'studentAnswerSummary'))}
+                      edited={fieldOrigin(source, questionField(idx, 'studentAnswerSummary')) === 'human'}
+                    />
+                  </td>
+                )}
                 <td className="p-10 bg-indigo-50/20 font-black text-indigo-900 border-l-4 border-indigo-900/30 group-hover:border-indigo-900 leading-relaxed text-sm">
-                  <div className="flex items-start">
+                  <div className={`flex items-start ${faculty && additionDecision(q) === 'rejected' ? 'opacity-40 line-through' : ''}`}>
                     <svg className="w-5 h-5 mr-3 mt-1 text-indigo-900 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M11.3 1.046A1 1 0 0112 2v5h4a1 1 0 01.82 1.573l-7 10A1 1 0 018 18v-5H4a1 1 0 01-.82-1.573l7-10a1 1 0 011.12-.38z" clipRule="evenodd" /></svg>
-                    {q.aiFeedbackAddition}
+                    <EditableText
+                      value={q.aiFeedbackAddition}
+                      onSave={save?.(questionField(idx, 'aiFeedbackAddition'))}
+                      edited={faculty && fieldOrigin(source, questionField(idx, 'aiFeedbackAddition')) === 'human'}
+                    />
                   </div>
+                  {faculty && q.aiFeedbackAddition && (
+                    <div className="mt-3 pl-8">
+                      <EvidenceCitations evidence={q.aiEvidence} ungrounded={q.aiUngrounded} />
+                    </div>
+                  )}
+                  {faculty && onChange && q.aiFeedbackAddition && (
+                    <div className="mt-4 pl-8">
+                      <SuggestionDecisionToggle
+                        decision={additionDecision(q)}
+                        disabled={locked}
+                        onChange={decision => onChange(decideAddition(source, idx, decision))}
+                      />
+                    </div>
+                  )}
                 </td>
               </tr>
             ))}
@@ -140,56 +638,830 @@ const ReportUI: React.FC<{ report: EvaluationReport }> = ({ report }) => (
       </div>
     </section>
 
-    <div className="grid grid-cols-1 lg:grid-cols-2 gap-10">
-      <section className="bg-white rounded-[3rem] border border-slate-200 shadow-xl p-14">
-        <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.5em] mb-12">Score Integrity Audit</h3>
-        <div className="space-y-10">
-          <div className="flex items-center justify-between pb-8 border-b border-slate-100">
-            <span className="text-slate-500 font-bold uppercase tracking-widest text-xs">Calculated AI Sum</span>
-            <span className="font-black text-5xl tabular-nums tracking-tighter">{report.scoreVerification.calculatedTotal}</span>
+    {faculty && report.moderation && <ModerationTable moderation={report.moderation} />}
+
+    {faculty && source.evaluationKey && <VersionComparison report={source} />}
+
+    {faculty ? (
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-10">
+        <section className="bg-white rounded-[3rem] border border-slate-200 shadow-xl p-14">
+          <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.5em] mb-12">Score Integrity Audit</h3>
+          <div className="space-y-10">
+            <div className="flex items-center justify-between pb-8 border-b border-slate-100">
+              <span className="text-slate-500 font-bold uppercase tracking-widest text-xs">Recomputed Question Sum</span>
+              <span className="font-black text-5xl tabular-nums tracking-tighter">
+                {report.scoreVerification.calculatedTotal}
+                {report.scoreVerification.maxTotal ? <span className="text-xl text-slate-300 ml-3">/ {report.scoreVerification.maxTotal}</span> : null}
+              </span>
+            </div>
+            <div className="flex items-center justify-between pb-8 border-b border-slate-100">
+              <span className="text-slate-500 font-bold uppercase tracking-widest text-xs">Reported Teacher Total</span>
+              <span className="font-black text-5xl tabular-nums tracking-tighter">{report.scoreVerification.reportedTotal}</span>
+            </div>
+            <div className={`mt-10 py-8 rounded-[2rem] font-black uppercase tracking-[0.4em] text-xs flex items-center justify-center border-4 ${report.scoreVerification.status === 'Correct' ? 'bg-emerald-50 text-emerald-800 border-emerald-100' : 'bg-rose-50 text-rose-800 border-rose-100'}`}>
+               Audit Status: {report.scoreVerification.status}
+            </div>
+            {!!report.scoreVerification.discrepancies?.length && (
+              <ul className="space-y-3">
+                {report.scoreVerification.discrepancies.map((d, i) => (
+                  <li key={i} className={`p-5 rounded-2xl text-xs font-bold leading-relaxed border ${d.severity === 'error' ? 'bg-rose-50 text-rose-800 border-rose-100' : 'bg-amber-50 text-amber-800 border-amber-100'}`}>
+                    <span className="block text-[10px] font-black uppercase tracking-[0.3em] mb-1 opacity-60">{d.type.replace(/_/g, ' ')}</span>
+                    {d.message}
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
-          <div className="flex items-center justify-between pb-8 border-b border-slate-100">
-            <span className="text-slate-500 font-bold uppercase tracking-widest text-xs">Reported Teacher Total</span>
-            <span className="font-black text-5xl tabular-nums tracking-tighter">{report.scoreVerification.reportedTotal}</span>
+        </section>
+
+        <section className="bg-slate-900 rounded-[3rem] p-14 text-white shadow-2xl relative overflow-hidden flex flex-col justify-between">
+          <div className="absolute top-0 left-0 w-80 h-80 bg-indigo-500/10 rounded-full -ml-40 -mt-40 blur-[120px]"></div>
+          <div className="relative z-10">
+            <h4 className="text-[10px] font-black text-indigo-400 uppercase tracking-[0.6em] mb-12">Anatomical Observations</h4>
+            <div className="space-y-8">
+              {report.finalizedFeedback.map((obs, i) => (
+                <div key={i} className="flex space-x-6">
+                  <span className="text-indigo-500 font-black text-2xl opacity-40">0{i+1}</span>
+                  <div>
+                    <h5 className="font-black text-[10px] text-indigo-300 uppercase tracking-widest mb-1">{obs.section}</h5>
+                    <p className="text-sm text-slate-400 leading-relaxed font-semibold">{obs.observation}</p>
+                    <div className="mt-2">
+                      <EvidenceCitations evidence={obs.evidence} ungrounded={obs.ungrounded} inverted />
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
           </div>
-          <div className={`mt-10 py-8 rounded-[2rem] font-black uppercase tracking-[0.4em] text-xs flex items-center justify-center border-4 ${report.scoreVerification.status === 'Correct' ? 'bg-emerald-50 text-emerald-800 border-emerald-100' : 'bg-rose-50 text-rose-800 border-rose-100'}`}>
-             Audit Status: {report.scoreVerification.status}
+          <div className="mt-14 space-y-4">
+            {onSaveTemplate && !report.templateId && (
+              <button onClick={onSaveTemplate} className="w-full px-10 py-6 bg-white/10 hover:bg-white/20 rounded-[2rem] text-[10px] font-black uppercase tracking-[0.5em] transition-all border border-white/10 active:scale-[0.98]">Save as Exam Template</button>
+            )}
+            <ExportControls report={source} mode={viewMode} />
           </div>
+        </section>
+      </div>
+    ) : (
+      <section className="bg-slate-900 rounded-[3rem] p-14 text-white shadow-2xl grid grid-cols-1 lg:grid-cols-2 gap-14 items-center">
+        <div>
+          <h4 className="text-[10px] font-black text-indigo-400 uppercase tracking-[0.6em] mb-6">Total Awarded</h4>
+          <span className="font-black text-7xl tabular-nums tracking-tighter">
+            {report.scoreVerification.reportedTotal}
+            {report.scoreVerification.maxTotal ? <span className="text-2xl text-slate-500 ml-4">/ {report.scoreVerification.maxTotal}</span> : null}
+          </span>
         </div>
+        <ExportControls report={source} mode={viewMode} />
       </section>
+    )}
+  </div>
+  );
+};
 
-      <section className="bg-slate-900 rounded-[3rem] p-14 text-white shadow-2xl relative overflow-hidden flex flex-col justify-between">
-        <div className="absolute top-0 left-0 w-80 h-80 bg-indigo-500/10 rounded-full -ml-40 -mt-40 blur-[120px]"></div>
-        <div className="relative z-10">
-          <h4 className="text-[10px] font-black text-indigo-400 uppercase tracking-[0.6em] mb-12">Anatomical Observations</h4>
-          <div className="space-y-8">
-            {report.finalizedFeedback.map((obs, i) => (
-              <div key={i} className="flex space-x-6">
-                <span className="text-indigo-500 font-black text-2xl opacity-40">0{i+1}</span>
-                <div>
-                  <h5 className="font-black text-[10px] text-indigo-300 uppercase tracking-widest mb-1">{obs.section}</h5>
-                  <p className="text-sm text-slate-400 leading-relaxed font-semibold">{obs.observation}</p>
-                </div>
-              </div>
+const INPUT_CLASS = 'w-full px-4 py-3 rounded-xl border border-slate-200 bg-white text-sm font-bold text-slate-800 focus:outline-none focus:border-indigo-600';
+
+const TemplateQuestionRow: React.FC<{
+  question: TemplateQuestion;
+  onChange: (patch: Partial<TemplateQuestion>) => void;
+  onRemove: () => void;
+  onAddSubPart?: () => void;
+  nested?: boolean;
+}> = ({ question, onChange, onRemove, onAddSubPart, nested }) => (
+  <div className={`grid grid-cols-12 gap-3 items-start ${nested ? 'pl-10' : ''}`}>
+    <input className={`${INPUT_CLASS} col-span-2`} placeholder={nested ? '1(a)' : 'Q1'} value={question.questionNo} onChange={e => onChange({ questionNo: e.target.value })} />
+    <input
+      className={`${INPUT_CLASS} col-span-2`}
+      type="number"
+      min={0}
+      step={0.5}
+      disabled={!!question.subParts?.length}
+      value={question.subParts?.length ? question.subParts.reduce((sum, p) => sum + p.maxMarks, 0) : question.maxMarks}
+      onChange={e => onChange({ maxMarks: Number(e.target.value) })}
+    />
+    <input className={`${INPUT_CLASS} col-span-6`} placeholder="Key answer points (optional)" value={question.keyAnswerPoints || ''} onChange={e => onChange({ keyAnswerPoints: e.target.value })} />
+    <div className="col-span-2 flex justify-end space-x-2 pt-1">
+      {onAddSubPart && (
+        <button onClick={onAddSubPart} className="px-3 py-2 bg-slate-100 rounded-lg text-[10px] font-black uppercase tracking-widest hover:bg-indigo-900 hover:text-white transition-all">+ Part</button>
+      )}
+      <button onClick={onRemove} className="px-3 py-2 bg-rose-50 text-rose-800 rounded-lg text-[10px] font-black uppercase tracking-widest hover:bg-rose-700 hover:text-white transition-all">✕</button>
+    </div>
+  </div>
+);
+
+const TemplateEditor: React.FC<{
+  initial: ExamTemplate;
+  onSave: (template: ExamTemplate) => void;
+  onCancel: () => void;
+}> = ({ initial, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<ExamTemplate>(initial);
+  const [error, setError] = useState<string | null>(null);
+  const sections = draft.optionalSections || [];
+  // The question IDs as typed, one per section, so a trailing comma survives until the next ID is entered.
+  const [choiceText, setChoiceText] = useState<string[]>(() => sections.map(sec => sec.questionNos.join(', ')));
+
+  const setQuestions = (questions: TemplateQuestion[]) => setDraft(d => ({ ...d, questions }));
+  const setSections = (optionalSections: OptionalSection[]) => setDraft(d => ({ ...d, optionalSections }));
+
+  const updateQuestion = (i: number, patch: Partial<TemplateQuestion>, j?: number) =>
+    setQuestions(draft.questions.map((q, qi) => {
+      if (qi !== i) return q;
+      if (j === undefined) return { ...q, ...patch };
+      return { ...q, subParts: q.subParts!.map((p, pj) => (pj === j ? { ...p, ...patch } : p)) };
+    }));
+
+  const removeQuestion = (i: number, j?: number) =>
+    setQuestions(j === undefined
+      ? draft.questions.filter((_, qi) => qi !== i)
+      : draft.questions.map((q, qi) => (qi === i ? { ...q, subParts: q.subParts!.filter((_, pj) => pj !== j) } : q)));
+
+  const setChoiceQuestions = (i: number, text: string) => {
+    setChoiceText(texts => texts.map((t, k) => (k === i ? text : t)));
+    setSections(sections.map((x, k) => (k === i ? { ...x, questionNos: text.split(',').map(v => v.trim()).filter(Boolean) } : x)));
+  };
+
+  const removeSection = (i: number) => {
+    setChoiceText(texts => texts.filter((_, k) => k !== i));
+    setSections(sections.filter((_, k) => k !== i));
+  };
+
+  const addSection = () => {
+    setChoiceText(texts => [...texts, '']);
+    setSections([...sections, { label: '', questionNos: [], attemptAny: 1 }]);
+  };
+
+  const addSubPart = (i: number) =>
+    updateQuestion(i, { subParts: [...(draft.questions[i].subParts || []), { questionNo: '', maxMarks: 0 }] });
+
+  const handleSave = () => {
+    const ids = draft.questions.flatMap(q => [q.questionNo, ...(q.subParts || []).map(p => p.questionNo)]);
+    if (!draft.examReference.trim()) return setError('Give the template an exam reference.');
+    if (!draft.questions.length) return setError('Add at least one question.');
+    if (ids.some(id => !id.trim())) return setError('Every question and sub-part needs an ID.');
+    if (new Set(ids.map(id => id.trim().toLowerCase())).size !== ids.length) return setError('Question IDs must be unique.');
+
+    const questions = draft.questions.map(q =>
+      q.subParts?.length ? { ...q, maxMarks: q.subParts.reduce((sum, p) => sum + p.maxMarks, 0) } : { ...q, subParts: undefined }
+    );
+    const optionalSections = sections.filter(sec => sec.questionNos.length && sec.attemptAny > 0);
+    onSave({ ...draft, questions, optionalSections, totalMarks: computeTemplateTotal({ questions, optionalSections }) });
+  };
+
+  return (
+    <div className="space-y-8 p-10 bg-slate-50/60 rounded-[2rem] border border-slate-200">
+      <div className="flex items-center justify-between">
+        <h4 className="text-[10px] font-black text-indigo-900 uppercase tracking-[0.3em]">Exam Template</h4>
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Total {computeTemplateTotal(draft)} marks</span>
+      </div>
+      <input className={INPUT_CLASS} placeholder="Exam reference, e.g. Anatomy Sessional II – Upper Limb" value={draft.examReference} onChange={e => setDraft(d => ({ ...d, examReference: e.target.value }))} />
+
+      <div className="space-y-3">
+        <div className="grid grid-cols-12 gap-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+          <span className="col-span-2">Question</span><span className="col-span-2">Max Marks</span><span className="col-span-6">Key Points</span>
+        </div>
+        {draft.questions.map((q, i) => (
+          <div key={i} className="space-y-3">
+            <TemplateQuestionRow question={q} onChange={patch => updateQuestion(i, patch)} onRemove={() => removeQuestion(i)} onAddSubPart={() => addSubPart(i)} />
+            {(q.subParts || []).map((p, j) => (
+              <TemplateQuestionRow key={j} nested question={p} onChange={patch => updateQuestion(i, patch, j)} onRemove={() => removeQuestion(i, j)} />
             ))}
           </div>
-        </div>
-        <div className="mt-14">
-          <button onClick={() => window.print()} className="w-full px-10 py-6 bg-indigo-700 hover:bg-indigo-600 rounded-[2rem] text-[10px] font-black uppercase tracking-[0.5em] transition-all shadow-xl active:scale-[0.98]">Export Audit Certificate</button>
-        </div>
-      </section>
+        ))}
+        <button onClick={() => setQuestions([...draft.questions, { questionNo: '', maxMarks: 0 }])} className="px-5 py-3 bg-white border border-slate-200 rounded-xl text-[10px] font-black uppercase tracking-widest hover:border-indigo-600 transition-all">+ Question</button>
+      </div>
+
+      <div className="space-y-3">
+        <h5 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Choice Sections</h5>
+        {sections.map((sec, i) => (
+          <div key={i} className="grid grid-cols-12 gap-3">
+            <input className={`${INPUT_CLASS} col-span-3`} placeholder="Section B" value={sec.label} onChange={e => setSections(sections.map((x, k) => (k === i ? { ...x, label: e.target.value } : x)))} />
+            <input
+              className={`${INPUT_CLASS} col-span-5`}
+              placeholder="Question IDs, comma separated"
+              value={choiceText[i] ?? ''}
+              onChange={e => setChoiceQuestions(i, e.target.value)}
+            />
+            <input className={`${INPUT_CLASS} col-span-2`} type="number" min={1} value={sec.attemptAny} onChange={e => setSections(sections.map((x, k) => (k === i ? { ...x, attemptAny: Number(e.target.value) } : x)))} />
+            <button onClick={() => removeSection(i)} className="col-span-2 px-3 py-2 bg-rose-50 text-rose-800 rounded-lg text-[10px] font-black uppercase tracking-widest hover:bg-rose-700 hover:text-white transition-all">Remove</button>
+          </div>
+        ))}
+        <button onClick={addSection} className="px-5 py-3 bg-white border border-slate-200 rounded-xl text-[10px] font-black uppercase tracking-widest hover:border-indigo-600 transition-all">+ Attempt-Any Section</button>
+      </div>
+
+      {error && <p className="text-sm font-bold text-rose-700">{error}</p>}
+
+      <div className="flex justify-end space-x-3">
+        <button onClick={onCancel} className="px-8 py-4 bg-slate-100 rounded-2xl text-[10px] font-black uppercase tracking-[0.3em] hover:bg-slate-200 transition-all">Cancel</button>
+        <button onClick={handleSave} className="px-8 py-4 bg-indigo-900 text-white rounded-2xl text-[10px] font-black uppercase tracking-[0.3em] hover:bg-indigo-950 transition-all shadow-sm">Save Template</button>
+      </div>
     </div>
+  );
+};
+
+const newTemplate = (): ExamTemplate => {
+  const now = new Date().toISOString();
+  return { id: `tpl-${Date.now().toString(36)}`, examReference: '', questions: [{ questionNo: '', maxMarks: 0 }], totalMarks: 0, createdAt: now, updatedAt: now };
+};
+
+const TemplatePicker: React.FC<{
+  templates: ExamTemplate[];
+  selected: ExamTemplate | null;
+  onSelect: (template: ExamTemplate | null) => void;
+  onEdit: (template: ExamTemplate) => void;
+  onDelete: (id: string) => void;
+}> = ({ templates, selected, onSelect, onEdit, onDelete }) => (
+  <div className="flex flex-wrap items-center gap-3">
+    <select
+      className={`${INPUT_CLASS} flex-1 min-w-[240px]`}
+      value={selected?.id || ''}
+      onChange={e => onSelect(templates.find(t => t.id === e.target.value) || null)}
+    >
+      <option value="">No template – extract questions from the paper</option>
+      {templates.map(t => (
+        <option key={t.id} value={t.id}>{t.examReference} · {t.totalMarks} marks</option>
+      ))}
+    </select>
+    {selected && (
+      <>
+        <button onClick={() => onEdit(selected)} className="px-5 py-3 bg-slate-100 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-900 hover:text-white transition-all">Edit</button>
+        <button onClick={() => onDelete(selected.id)} className="px-5 py-3 bg-rose-50 text-rose-800 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-rose-700 hover:text-white transition-all">Delete</button>
+      </>
+    )}
+    <button onClick={() => onEdit(newTemplate())} className="px-5 py-3 bg-white border border-slate-200 rounded-xl text-[10px] font-black uppercase tracking-widest hover:border-indigo-600 transition-all">New Template</button>
+  </div>
+);
+
+const PromptProfilePicker: React.FC<{
+  selected: PromptProfile;
+  onSelect: (profile: PromptProfile) => void;
+}> = ({ selected, onSelect }) => (
+  <div className="space-y-2">
+    <select
+      className={INPUT_CLASS}
+      value={selected.id}
+      onChange={e => onSelect(resolveProfile({ id: e.target.value })!)}
+    >
+      {latestProfiles().map(p => (
+        <option key={p.id} value={p.id}>{p.name} · {EXAM_FORMAT_LABELS[p.examFormat]}</option>
+      ))}
+    </select>
+    <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+      {profileLabel(selected)} · {selected.additionLength} additions · {selected.synthesisSentences.min}–{selected.synthesisSentences.max} sentence synthesis · {selected.observationCount} observations{selected.includeKeyPoints ? '' : ' · no key points'}
+    </p>
+  </div>
+);
+
+// Rows arrive straight from the model, so they are shown as drafts until the
+// finished report has been aligned, scored and checked.
+const LiveEvaluation: React.FC<{
+  stage: JobStage | null;
+  questions: Partial<QuestionFeedback>[];
+  onCancel: () => void;
+}> = ({ stage, questions, onCancel }) => (
+  <div className="px-16 py-12 space-y-6">
+    <div className="flex items-center justify-between">
+      <div>
+        <h4 className="text-[10px] font-black text-indigo-900 uppercase tracking-[0.3em]">{stage ? JOB_STAGE_LABELS[stage] : 'Running Audit Sequence...'}</h4>
+        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-2">
+          {questions.length ? `${questions.length} question${questions.length === 1 ? '' : 's'} read so far · draft until verified` : 'Questions appear here as they are read'}
+        </p>
+      </div>
+      <button onClick={onCancel} className="px-8 py-4 bg-white border border-rose-200 text-rose-700 rounded-2xl text-[10px] font-black uppercase tracking-[0.3em] hover:bg-rose-50 transition-all shadow-sm">
+        Cancel Evaluation
+      </button>
+    </div>
+    {questions.length > 0 && (
+      <div className="overflow-x-auto rounded-[2rem] border border-slate-200 shadow-sm bg-white">
+        <table className="w-full text-left border-collapse">
+          <thead>
+            <tr className="bg-slate-50/80 text-slate-500 uppercase text-[10px] font-black border-b border-slate-200">
+              <th className="p-5">Ref</th>
+              <th className="p-5 text-center">Mark</th>
+              <th className="p-5">Human Evaluator Insight</th>
+              <th className="p-5">AI Enhancement Suggestion</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 text-sm">
+            {questions.map((q, i) => (
+              <tr key={i} className="animate-in fade-in">
+                <td className="p-5 font-black text-slate-400">{q.questionNo ?? '—'}</td>
+                <td className="p-5 text-center font-black text-indigo-950 whitespace-nowrap">{q.marksAwarded ?? '—'} / {q.maxMarks ?? '—'}</td>
+                <td className="p-5 text-slate-600 font-bold leading-relaxed">{q.humanFeedback}</td>
+                <td className="p-5 text-indigo-900 font-bold leading-relaxed">{q.aiFeedbackAddition}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    )}
+  </div>
+);
+
+const SecondMarkerToggle: React.FC<{
+  options: SecondMarkerOptions | null;
+  onChange: (options: SecondMarkerOptions | null) => void;
+}> = ({ options, onChange }) => (
+  <div className="flex flex-wrap items-center gap-4">
+    <label className="flex items-center space-x-3 text-sm font-bold text-slate-700 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={!!options}
+        onChange={e => onChange(e.target.checked ? { tolerance: DEFAULT_MODERATION_TOLERANCE } : null)}
+        className="accent-indigo-900"
+      />
+      <span>Second-marker moderation</span>
+    </label>
+    {options && (
+      <label className="flex items-center space-x-3 text-[10px] font-black text-slate-500 uppercase tracking-widest">
+        <span>Flag differences over ±</span>
+        <input
+          type="number"
+          min={0}
+          step={0.5}
+          value={options.tolerance}
+          onChange={e => onChange({ tolerance: Math.max(0, Number(e.target.value) || 0) })}
+          className={`${INPUT_CLASS} w-24`}
+        />
+        <span>marks</span>
+      </label>
+    )}
   </div>
 );
 
+// Marks and comments typed in the app are sent as they are, so nothing has to be read back off a feedback sheet.
+const MarkingForm: React.FC<{
+  value: StructuredFeedback;
+  onChange: (value: StructuredFeedback) => void;
+  template: ExamTemplate | null;
+  /** Picks the matching row when marks are imported from a class spreadsheet. */
+  rollNumber: string | null;
+}> = ({ value, onChange, template, rollNumber }) => {
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    setImportError(null);
+    try {
+      const rows = await importMarksSpreadsheet(file);
+      const row = rows.length === 1 ? rows[0] : rows.find(r => r.studentId === rollNumber);
+      if (!row) {
+        return setImportError(rollNumber
+          ? `${file.name} has no row for roll number ${rollNumber}.`
+          : `${file.name} has ${rows.length} rows. Choose the student script first so its roll number picks the row.`);
+      }
+      onChange(row.feedback);
+    } catch (e: any) {
+      setImportError(e.message || `${file.name} could not be read.`);
+    }
+  };
+
+  const setQuestions = (questions: StructuredQuestionMark[]) => onChange({ ...value, questions });
+  const updateQuestion = (i: number, patch: Partial<StructuredQuestionMark>) =>
+    setQuestions(value.questions.map((q, qi) => (qi === i ? { ...q, ...patch } : q)));
+
+  return (
+    <div className="space-y-6 p-10 bg-slate-50/60 rounded-[2rem] border border-slate-200">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h4 className="text-[10px] font-black text-indigo-900 uppercase tracking-[0.3em]">Evaluator Marking Form</h4>
+        <div className="flex flex-wrap gap-3">
+          {template && (
+            <button onClick={() => onChange({ ...feedbackFromTemplate(template), evaluatorName: value.evaluatorName, overallFeedback: value.overallFeedback })} className="px-5 py-3 bg-white border border-slate-200 rounded-xl text-[10px] font-black uppercase tracking-widest hover:border-indigo-600 transition-all">Load Questions From Template</button>
+          )}
+          <label className="relative px-5 py-3 bg-white border border-slate-200 rounded-xl text-[10px] font-black uppercase tracking-widest hover:border-indigo-600 transition-all cursor-pointer">
+            Import From Spreadsheet
+            <input type="file" accept=".csv,.xlsx,.xls" onChange={e => { handleImport(e.target.files?.[0]); e.target.value = ''; }} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" />
+          </label>
+        </div>
+      </div>
+      {importError && <p className="text-sm font-bold text-rose-700">{importError}</p>}
+      <input className={INPUT_CLASS} placeholder="Evaluator name (optional)" value={value.evaluatorName || ''} onChange={e => onChange({ ...value, evaluatorName: e.target.value })} />
+
+      <div className="space-y-3">
+        <div className="grid grid-cols-12 gap-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+          <span className="col-span-2">Question</span><span className="col-span-2">Max</span><span className="col-span-2">Awarded</span><span className="col-span-5">Comment</span>
+        </div>
+        {value.questions.map((q, i) => (
+          <div key={i} className="grid grid-cols-12 gap-3 items-start">
+            <input className={`${INPUT_CLASS} col-span-2`} placeholder="1(a)" value={q.questionNo} onChange={e => updateQuestion(i, { questionNo: e.target.value })} />
+            <input
+              className={`${INPUT_CLASS} col-span-2`}
+              type="number"
+              min={0}
+              step={0.5}
+              value={q.maxMarks ?? ''}
+              onChange={e => updateQuestion(i, { maxMarks: e.target.value === '' ? undefined : Number(e.target.value) })}
+            />
+            <input className={`${INPUT_CLASS} col-span-2`} placeholder="e.g. 3.5 or NA" value={q.marksAwarded} onChange={e => updateQuestion(i, { marksAwarded: e.target.value })} />
+            <textarea className={`${INPUT_CLASS} col-span-5 min-h-[3rem]`} rows={1} placeholder="Comment as written for the student" value={q.comment} onChange={e => updateQuestion(i, { comment: e.target.value })} />
+            <button onClick={() => setQuestions(value.questions.filter((_, qi) => qi !== i))} className="col-span-1 px-3 py-2 mt-1 bg-rose-50 text-rose-800 rounded-lg text-[10px] font-black uppercase tracking-widest hover:bg-rose-700 hover:text-white transition-all">✕</button>
+          </div>
+        ))}
+        <button onClick={() => setQuestions([...value.questions, { questionNo: '', marksAwarded: '', comment: '' }])} className="px-5 py-3 bg-white border border-slate-200 rounded-xl text-[10px] font-black uppercase tracking-widest hover:border-indigo-600 transition-all">+ Question</button>
+      </div>
+
+      <textarea className={`${INPUT_CLASS} min-h-[6rem]`} placeholder="Overall feedback" value={value.overallFeedback} onChange={e => onChange({ ...value, overallFeedback: e.target.value })} />
+      <label className="flex items-center space-x-3 text-[10px] font-black text-slate-500 uppercase tracking-widest">
+        <span>Total awarded</span>
+        <input
+          className={`${INPUT_CLASS} w-32`}
+          placeholder={String(structuredTotal(value))}
+          value={value.reportedTotal || ''}
+          onChange={e => onChange({ ...value, reportedTotal: e.target.value })}
+        />
+        <span>Leave blank to use the sum of the marks</span>
+      </label>
+    </div>
+  );
+};
+
+const STATUS_BADGE: Record<ProcessingStatus, string> = {
+  [ProcessingStatus.IDLE]: 'bg-slate-50 text-slate-500 border-slate-200',
+  [ProcessingStatus.QUEUED]: 'bg-slate-100 text-slate-600 border-slate-200',
+  [ProcessingStatus.ANALYZING]: 'bg-indigo-50 text-indigo-800 border-indigo-200',
+  [ProcessingStatus.COMPLETED]: 'bg-emerald-50 text-emerald-800 border-emerald-200',
+  [ProcessingStatus.ERROR]: 'bg-rose-50 text-rose-800 border-rose-200'
+};
+
+type BatchQueue = ReturnType<typeof useBatchQueue>;
+
+/** A batch item's job while it runs, so a reload can wait for the result instead of losing it. */
+interface SavedBatchJob {
+  itemId: string;
+  rollNumber: string;
+  jobId: string;
+  studentId: string;
+}
+
+const loadBatchJobs = (): SavedBatchJob[] => {
+  try {
+    return JSON.parse(localStorage.getItem(BATCH_JOBS_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const saveBatchJobs = (jobs: SavedBatchJob[]) =>
+  jobs.length ? localStorage.setItem(BATCH_JOBS_KEY, JSON.stringify(jobs)) : localStorage.removeItem(BATCH_JOBS_KEY);
+
+const rememberBatchJob = (job: SavedBatchJob) => saveBatchJobs([...loadBatchJobs().filter(j => j.itemId !== job.itemId), job]);
+const forgetBatchJob = (itemId: string) => saveBatchJobs(loadBatchJobs().filter(j => j.itemId !== itemId));
+
+// Lives in App so the queue keeps draining while a finished report is open.
+function useBatchQueue(materials: ExamMaterialsState, onCompleted: (report: EvaluationReport) => void) {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [running, setRunning] = useState(false);
+  const started = useRef(new Set<string>());
+
+  const update = (id: string, patch: Partial<BatchItem>) =>
+    setItems(prev => prev.map(i => (i.id === id ? { ...i, ...patch } : i)));
+
+  const settle = async (itemId: string, evaluate: () => Promise<EvaluationReport>) => {
+    started.current.add(itemId);
+    try {
+      const report = await savedVersionOf(stampReport(await evaluate()));
+      update(itemId, { status: ProcessingStatus.COMPLETED, report });
+      onCompleted(report);
+    } catch (e: any) {
+      update(itemId, { status: ProcessingStatus.ERROR, error: e.message || 'Evaluation failed.' });
+    } finally {
+      started.current.delete(itemId);
+      forgetBatchJob(itemId);
+    }
+  };
+
+  const processItem = (item: BatchItem) => {
+    const student = { rollNumber: item.rollNumber };
+    return settle(item.id, () => retryWithBackoff(
+      async () => evaluateScript(await materials.resolve(), { script: item.studentScript!, feedback: item.marks || item.feedback!, student }, materials, {
+        onStage: stage => update(item.id, { stage }),
+        onSubmitted: jobId => {
+          update(item.id, { jobId });
+          rememberBatchJob({ itemId: item.id, rollNumber: item.rollNumber, jobId, studentId: pseudonymFor(student) });
+        }
+      }),
+      attempt => update(item.id, { status: ProcessingStatus.ANALYZING, attempts: attempt, stage: undefined, error: undefined })
+    ));
+  };
+
+  // Jobs still running at a reload carry on server-side. The uploads are gone,
+  // so these rows can be waited on but not retried.
+  useEffect(() => {
+    const saved = loadBatchJobs();
+    if (!saved.length) return;
+    setItems(saved.map(job => ({
+      id: job.itemId,
+      rollNumber: job.rollNumber,
+      studentScript: null,
+      feedback: null,
+      status: ProcessingStatus.ANALYZING,
+      attempts: 1,
+      jobId: job.jobId
+    })));
+    saved.forEach(job => settle(job.itemId, async () => {
+      const report = await waitForJob(job.jobId, { onStage: stage => update(job.itemId, { stage }) });
+      const student = lookupPseudonym(job.studentId);
+      return student ? redactReport(report, { student, pseudonym: job.studentId }) : report;
+    }));
+  }, []);
+
+  useEffect(() => {
+    if (!running) return;
+    const active = items.filter(i => i.status === ProcessingStatus.ANALYZING || started.current.has(i.id)).length;
+    const next = items
+      .filter(i => i.status === ProcessingStatus.QUEUED && !started.current.has(i.id))
+      .slice(0, Math.max(0, BATCH_CONCURRENCY - active));
+    next.forEach(processItem);
+    if (!active && !next.length) setRunning(false);
+  }, [items, running]);
+
+  const retry = (id: string) => {
+    update(id, { status: ProcessingStatus.QUEUED, attempts: 0, error: undefined });
+    setRunning(true);
+  };
+
+  return { items, setItems, running, start: () => setRunning(true), retry, materialsReady: materials.ready };
+}
+
+const SpreadsheetColumnsEditor: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const [draft, setDraft] = useState<SpreadsheetColumns>(loadColumns);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const handleSave = () => {
+    const problems = validateColumns(draft);
+    setErrors(problems);
+    if (problems.length) return;
+    saveColumns(draft);
+    onClose();
+  };
+
+  return (
+    <div className="space-y-6 p-10 bg-slate-50/60 rounded-[2rem] border border-slate-200">
+      <div className="space-y-2">
+        <h4 className="text-[10px] font-black text-indigo-900 uppercase tracking-[0.3em]">Spreadsheet Columns</h4>
+        <p className="text-xs font-medium text-slate-500">Used for both export and import. In question columns, {'{q}'} stands for the question number.</p>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {(Object.keys(COLUMN_LABELS) as (keyof SpreadsheetColumns)[]).map(key => (
+          <label key={key} className="space-y-2">
+            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{COLUMN_LABELS[key]}</span>
+            <input className={INPUT_CLASS} value={draft[key]} onChange={e => setDraft(d => ({ ...d, [key]: e.target.value }))} />
+          </label>
+        ))}
+      </div>
+      {!!errors.length && <p className="text-sm font-bold text-rose-700 whitespace-pre-line">{errors.join('\n')}</p>}
+      <div className="flex justify-end space-x-3">
+        <button onClick={onClose} className="px-8 py-4 bg-slate-100 rounded-2xl text-[10px] font-black uppercase tracking-[0.3em] hover:bg-slate-200 transition-all">Cancel</button>
+        <button onClick={handleSave} className="px-8 py-4 bg-indigo-900 text-white rounded-2xl text-[10px] font-black uppercase tracking-[0.3em] hover:bg-indigo-950 transition-all shadow-sm">Save Columns</button>
+      </div>
+    </div>
+  );
+};
+
+const BatchPanel: React.FC<{
+  queue: BatchQueue;
+  onOpenReport: (item: BatchItem) => void;
+}> = ({ queue, onOpenReport }) => {
+  const { items, setItems, running, start, retry, materialsReady } = queue;
+  const [unmatched, setUnmatched] = useState<UnmatchedFile[]>([]);
+  const [feedbackPattern, setFeedbackPattern] = useState(loadFeedbackPattern);
+  const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [editingColumns, setEditingColumns] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files?.length) return;
+    const pattern = parseFeedbackPattern(feedbackPattern);
+    if (pattern.ok === false) {
+      setError(pattern.error);
+      return;
+    }
+    saveFeedbackPattern(feedbackPattern);
+    setLoading(true);
+    setError(null);
+    try {
+      const uploads = Array.from(files);
+      const marks = (await Promise.all(uploads.filter(isSpreadsheet).map(f => importMarksSpreadsheet(f)))).flat();
+      const paired = pairByRollNumber(await expandUploads(uploads.filter(f => !isSpreadsheet(f))), marks, pattern.pattern);
+      setItems(await preflightBatch(paired.items));
+      setUnmatched(paired.unmatched);
+    } catch (e: any) {
+      setError(e.message || 'Could not read the uploaded files.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      downloadBlob(await exportBatchZip(items.map(i => (i.report ? { ...i, report: revealReport(i.report) } : i))), `class_reports_${new Date().toISOString().slice(0, 10)}.zip`);
+    } catch (e: any) {
+      setError(e.message || 'Could not build the class export.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleMarksExport = (format: SpreadsheetFormat) => {
+    setError(null);
+    try {
+      const reports = items.flatMap(i => (i.report ? [revealReport(i.report)] : []));
+      downloadBlob(exportMarksSpreadsheet(reports, format), `class_marks_${new Date().toISOString().slice(0, 10)}.${format}`);
+    } catch (e: any) {
+      setError(e.message || 'Could not build the marks spreadsheet.');
+    }
+  };
+
+  const counts = items.reduce<Record<string, number>>((acc, i) => ({ ...acc, [i.status]: (acc[i.status] || 0) + 1 }), {});
+  const runnable = items.some(i => i.status === ProcessingStatus.QUEUED);
+
+  return (
+    <div className="space-y-10">
+      <div className="relative border-2 border-dashed rounded-[1.5rem] p-10 border-slate-200 hover:border-indigo-400 bg-white shadow-sm text-center transition-all duration-300">
+        <input
+          type="file"
+          multiple
+          accept=".pdf,.doc,.docx,.zip,.csv,.xlsx,.xls"
+          disabled={running}
+          onChange={(e) => handleFiles(e.target.files)}
+          className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
+        />
+        <p className="text-sm font-bold text-indigo-950">{loading ? 'Reading uploads...' : 'Drop student scripts and feedback sheets, or a zip of both'}</p>
+        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-3">Files are paired by the roll number in their filename · a marks spreadsheet can stand in for feedback sheets</p>
+      </div>
+
+      <label className="block space-y-2">
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Feedback filename pattern (optional)</span>
+        <input
+          className={INPUT_CLASS}
+          value={feedbackPattern}
+          disabled={running}
+          placeholder="e.g. ^fb_ — files named with feedback, eval, marks, score or remark always count"
+          onChange={e => setFeedbackPattern(e.target.value)}
+        />
+      </label>
+
+      <button onClick={() => setEditingColumns(v => !v)} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-indigo-900 transition-all">
+        {editingColumns ? 'Hide Spreadsheet Columns' : 'Spreadsheet Columns'}
+      </button>
+      {editingColumns && <SpreadsheetColumnsEditor onClose={() => setEditingColumns(false)} />}
+
+      {error && (
+        <div className="p-8 bg-rose-50 border border-rose-100 text-rose-800 text-sm font-bold rounded-[2rem] shadow-sm animate-shake">{error}</div>
+      )}
+
+      {items.length > 0 && (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-6">
+            <div className="flex flex-wrap gap-3">
+              {[ProcessingStatus.QUEUED, ProcessingStatus.ANALYZING, ProcessingStatus.COMPLETED, ProcessingStatus.ERROR].map(st => (
+                <span key={st} className={`px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest border ${STATUS_BADGE[st]}`}>
+                  {st.toLowerCase()} · {counts[st] || 0}
+                </span>
+              ))}
+            </div>
+            <div className="flex gap-3">
+              <button
+                onClick={handleExport}
+                disabled={exporting || !items.some(i => i.report)}
+                className="px-10 py-4 bg-slate-100 rounded-2xl text-[10px] font-black uppercase tracking-[0.3em] hover:bg-indigo-900 hover:text-white disabled:opacity-50 transition-all shadow-sm"
+              >
+                {exporting ? 'Packaging...' : 'Export Class Zip'}
+              </button>
+              {(['csv', 'xlsx'] as SpreadsheetFormat[]).map(format => (
+                <button
+                  key={format}
+                  onClick={() => handleMarksExport(format)}
+                  disabled={!items.some(i => i.report)}
+                  className="px-6 py-4 bg-slate-100 rounded-2xl text-[10px] font-black uppercase tracking-[0.3em] hover:bg-indigo-900 hover:text-white disabled:opacity-50 transition-all shadow-sm"
+                >
+                  Marks {format.toUpperCase()}
+                </button>
+              ))}
+              <button
+                onClick={start}
+                disabled={running || !runnable || !materialsReady}
+                title={materialsReady ? undefined : 'Add the question paper and marking scheme first'}
+                className="px-10 py-4 bg-indigo-900 text-white rounded-2xl text-[10px] font-black uppercase tracking-[0.3em] hover:bg-indigo-950 disabled:opacity-50 transition-all shadow-sm"
+              >
+                {running ? 'Batch Running...' : 'Start Batch Audit'}
+              </button>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto rounded-[2rem] border border-slate-200 shadow-sm bg-white">
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr className="bg-slate-50/80 text-slate-500 uppercase text-[10px] font-black border-b border-slate-200">
+                  <th className="p-5">Roll No</th>
+                  <th className="p-5">Student Script</th>
+                  <th className="p-5">Evaluator Feedback</th>
+                  <th className="p-5 text-center">Status</th>
+                  <th className="p-5 text-center">Total</th>
+                  <th className="p-5"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 text-sm">
+                {items.map(item => (
+                  <tr key={item.id} className="hover:bg-slate-50/50 transition-all">
+                    <td className="p-5 font-black text-indigo-950">{item.rollNumber}</td>
+                    <td className="p-5 text-slate-500 truncate max-w-[180px]">{item.studentScript?.name || '—'}</td>
+                    <td className="p-5 text-slate-500 truncate max-w-[180px]">{item.feedback?.name || (item.marks ? 'Spreadsheet row' : '—')}</td>
+                    <td className="p-5 text-center">
+                      <span className={`inline-flex items-center px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest border ${STATUS_BADGE[item.status]}`}>
+                        {item.status === ProcessingStatus.ANALYZING && <span className="w-3 h-3 mr-2 border-2 border-indigo-200 border-t-indigo-800 rounded-full animate-spin"></span>}
+                        {item.status.toLowerCase()}
+                        {item.status === ProcessingStatus.ANALYZING && item.stage && ` · ${item.stage}`}
+                        {item.status === ProcessingStatus.ANALYZING && item.attempts > 1 && ` · try ${item.attempts}/${BATCH_MAX_ATTEMPTS}`}
+                      </span>
+                      {item.error && <p className="mt-2 text-[11px] text-rose-700 font-bold leading-snug">{item.error}</p>}
+                    </td>
+                    <td className="p-5 text-center font-black tabular-nums">
+                      {item.report ? `${item.report.scoreVerification.reportedTotal}` : '—'}
+                    </td>
+                    <td className="p-5 text-right whitespace-nowrap space-x-2">
+                      {item.report && (
+                        <button onClick={() => onOpenReport(item)} className="px-4 py-2 bg-slate-100 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-900 hover:text-white transition-all">View</button>
+                      )}
+                      {item.status === ProcessingStatus.ERROR && item.studentScript && (item.feedback || item.marks) && (
+                        <button onClick={() => retry(item.id)} className="px-4 py-2 bg-rose-50 text-rose-800 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-rose-700 hover:text-white transition-all">Retry</button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      {unmatched.length > 0 && (
+        <div className="p-6 bg-amber-50 border border-amber-100 rounded-[1.5rem] text-xs font-bold text-amber-800 leading-relaxed">
+          <p className="uppercase tracking-widest text-[10px] font-black mb-2">Not paired</p>
+          <ul className="space-y-1">
+            {unmatched.map(({ file, reason }, i) => <li key={`${file.name}-${i}`}>{file.name}: {reason}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
 // --- MAIN APP ---
 
-const App: React.FC = () => {
-  const [artifact, setArtifact] = useState<File | null>(null);
+// Completed reports are written through to IndexedDB; the list mirrors the store.
+function useReportHistory() {
+  const [entries, setEntries] = useState<StoredReport[]>([]);
+  const [syncEnabled, setSyncEnabled] = useState(isHistorySyncEnabled);
+  const [syncFailure, setSyncFailure] = useState<string | null>(null);
+
+  useEffect(() => onSyncFailure(setSyncFailure), []);
+
+  useEffect(() => {
+    listReports().then(setEntries).catch(e => console.warn('Could not load report history:', e));
+  }, [syncEnabled]);
+
+  const put = (entry: StoredReport) =>
+    setEntries(prev => (prev.some(e => e.id === entry.id) ? prev.map(e => (e.id === entry.id ? entry : e)) : [entry, ...prev]));
+
+  return {
+    entries,
+    syncEnabled,
+    syncFailure,
+    dismissSyncFailure: () => setSyncFailure(null),
+    record: (report: EvaluationReport) => saveReport(report).then(put).catch(e => console.warn('Could not save report to history:', e)),
+    archive: (entry: StoredReport, archived: boolean) => setArchived(entry.id, archived).then(put),
+    remove: async (entry: StoredReport) => {
+      await deleteReport(entry.id);
+      setEntries(prev => prev.filter(e => e.id !== entry.id));
+    },
+    toggleSync: (enabled: boolean) => {
+      setHistorySyncEnabled(enabled);
+      setSyncEnabled(enabled);
+    }
+  };
+}
+
+const App: React.FC<{ user: AuthUser; onSignOut: () => void }> = ({ user, onSignOut }) => {
+  const [studentScript, setStudentScript] = useState<File | null>(null);
   const [feedback, setFeedback] = useState<File | null>(null);
+  const [studentName, setStudentName] = useState('');
+  const [feedbackMode, setFeedbackMode] = useState<'upload' | 'form'>('upload');
   const [status, setStatus] = useState<ProcessingStatus>(ProcessingStatus.IDLE);
   const [report, setReport] = useState<EvaluationReport | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<'single' | 'batch' | 'history' | 'analytics'>('single');
+  const materials = useExamMaterials();
+  const [markingForm, setMarkingForm] = useState<StructuredFeedback>(() => feedbackFromTemplate(materials.template));
+  const history = useReportHistory();
+  const batch = useBatchQueue(materials, history.record);
+  const [templates, setTemplates] = useState<ExamTemplate[]>(loadTemplates);
+  const [editingTemplate, setEditingTemplate] = useState<ExamTemplate | null>(null);
+  const [activeBatchId, setActiveBatchId] = useState<string | null>(null);
+  const [viewMode, setViewMode] = useState<ReportViewMode>('faculty');
+  const [stage, setStage] = useState<JobStage | null>(null);
+  const [liveQuestions, setLiveQuestions] = useState<Partial<QuestionFeedback>[]>([]);
+  const running = useRef<AbortController | null>(null);
 
   useEffect(() => {
     const loader = document.getElementById('loader');
@@ -201,36 +1473,109 @@ const App: React.FC = () => {
     }
   }, []);
 
-  const handleProcess = async () => {
-    if (!artifact || !feedback) return setError("Verification requires both Artifact Core and Evaluator Feedback.");
+  const handleProcess = async (reevaluate = false) => {
+    const evaluatorFeedback = feedbackMode === 'form' ? markingForm : feedback;
+    if (!materials.ready || !studentScript || !evaluatorFeedback) return setError("Verification requires the question paper, marking scheme, student script and evaluator feedback.");
+    const formErrors = feedbackMode === 'form' ? validateStructuredFeedback(markingForm) : [];
+    if (formErrors.length) return setError(formErrors.join('\n'));
 
+    const student: StudentIdentity = {
+      rollNumber: extractRollNumber(studentScript.name) || studentScript.name.replace(/\.[^.]+$/, ''),
+      name: studentName.trim() || undefined
+    };
+    await trackEvaluation(async progress => evaluateScript(await materials.resolve(), { script: studentScript, feedback: evaluatorFeedback, student, reevaluate }, materials, {
+      ...progress,
+      onSubmitted: jobId => localStorage.setItem(ACTIVE_JOB_KEY, JSON.stringify({ jobId, studentId: pseudonymFor(student) }))
+    }));
+  };
+
+  const trackEvaluation = async (run: (progress: EvaluationProgress) => Promise<EvaluationReport>) => {
+    const controller = new AbortController();
+    running.current = controller;
     setStatus(ProcessingStatus.ANALYZING);
     setError(null);
+    setLiveQuestions([]);
     try {
-      const toB64 = (f: File): Promise<string> => new Promise((res, rej) => {
-        const r = new FileReader(); r.readAsDataURL(f); 
-        r.onload = () => res((r.result as string).split(',')[1]); r.onerror = rej;
-      });
-
-      const generated = await runMedicalEvaluation(
-        { name: artifact.name, data: await toB64(artifact), mimeType: artifact.type },
-        { name: feedback.name, data: await toB64(feedback), mimeType: feedback.type }
-      );
+      const generated = await savedVersionOf(stampReport(await run({
+        onStage: setStage,
+        onQuestion: question => setLiveQuestions(prev => [...prev, question]),
+        signal: controller.signal
+      })));
       setReport(generated);
       setStatus(ProcessingStatus.COMPLETED);
+      history.record(generated);
     } catch (e: any) {
-      console.error(e);
-      setError(e.message || "A system audit failure occurred. Check Netlify environment variables.");
-      setStatus(ProcessingStatus.ERROR);
+      if (e?.name === 'AbortError') {
+        setStatus(ProcessingStatus.IDLE);
+      } else {
+        console.error(e);
+        setError(e.message || "A system audit failure occurred. Check Netlify environment variables.");
+        setStatus(ProcessingStatus.ERROR);
+      }
+    } finally {
+      localStorage.removeItem(ACTIVE_JOB_KEY);
+      running.current = null;
+      setStage(null);
+      setLiveQuestions([]);
     }
   };
 
+  // A job submitted before a reload keeps running server-side; pick it back up.
+  useEffect(() => {
+    const saved = localStorage.getItem(ACTIVE_JOB_KEY);
+    if (!saved) return;
+    const { jobId, studentId } = JSON.parse(saved);
+    const student = studentId && lookupPseudonym(studentId);
+    trackEvaluation(async progress => {
+      const report = await waitForJob(jobId, progress);
+      return student ? redactReport(report, { student, pseudonym: studentId }) : report;
+    });
+  }, []);
+
   const reset = () => {
     setReport(null);
     setStatus(ProcessingStatus.IDLE);
     setError(null);
-    setArtifact(null);
+    setStudentScript(null);
+    setStudentName('');
     setFeedback(null);
+    setMarkingForm(feedbackFromTemplate(materials.template));
+  };
+
+  const handleSaveTemplate = (template: ExamTemplate) => {
+    setTemplates(saveTemplate(template));
+    materials.setTemplate(template);
+    setEditingTemplate(null);
+  };
+
+  const handleDeleteTemplate = (id: string) => {
+    setTemplates(deleteTemplate(id));
+    if (materials.template?.id === id) materials.setTemplate(null);
+  };
+
+  const updateReport = (next: EvaluationReport) => {
+    setReport(next);
+    history.record(next);
+    if (activeBatchId) batch.setItems(prev => prev.map(i => (i.id === activeBatchId ? { ...i, report: next } : i)));
+  };
+
+  const openBatchReport = (item: BatchItem) => {
+    if (!item.report) return;
+    setActiveBatchId(item.id);
+    setReport(item.report);
+    setStatus(ProcessingStatus.COMPLETED);
+  };
+
+  const openSavedReport = (entry: StoredReport) => {
+    setActiveBatchId(null);
+    setReport(entry.report);
+    setStatus(ProcessingStatus.COMPLETED);
+  };
+
+  const closeReport = () => {
+    setActiveBatchId(null);
+    setReport(null);
+    setStatus(ProcessingStatus.IDLE);
   };
 
   return (
@@ -243,14 +1588,32 @@ const App: React.FC = () => {
             <p className="text-[10px] text-slate-400 uppercase font-black tracking-[0.5em] mt-3">Med-Edu Verification Engine</p>
           </div>
         </div>
-        {report && (
-          <button onClick={reset} className="px-10 py-4 bg-slate-100 rounded-2xl text-[10px] font-black uppercase tracking-[0.3em] hover:bg-indigo-900 hover:text-white transition-all shadow-sm">
-            Recalibrate System
-          </button>
-        )}
+        <div className="flex items-center gap-4">
+          {report && mode === 'single' && studentScript && status !== ProcessingStatus.ANALYZING && (
+            <button onClick={() => handleProcess(true)} className="px-10 py-4 bg-slate-100 rounded-2xl text-[10px] font-black uppercase tracking-[0.3em] hover:bg-indigo-900 hover:text-white transition-all shadow-sm">
+              Re-evaluate
+            </button>
+          )}
+          {report && (
+            <button onClick={mode === 'single' ? reset : closeReport} className="px-10 py-4 bg-slate-100 rounded-2xl text-[10px] font-black uppercase tracking-[0.3em] hover:bg-indigo-900 hover:text-white transition-all shadow-sm">
+              {{ single: 'Recalibrate System', batch: 'Return to Batch', history: 'Return to History', analytics: 'Return to Analytics' }[mode]}
+            </button>
+          )}
+          <div className="text-right">
+            <p className="text-sm font-black text-slate-800">{user.name}</p>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{ROLE_LABELS[user.role]}</p>
+          </div>
+          <button onClick={onSignOut} disabled={status === ProcessingStatus.ANALYZING} className="px-6 py-4 bg-slate-100 rounded-2xl text-[10px] font-black uppercase tracking-[0.3em] hover:bg-slate-200 disabled:opacity-50 transition-all">Sign Out</button>
+        </div>
       </nav>
 
       <main className="max-w-7xl mx-auto px-10 pt-20">
+        {history.syncFailure && (
+          <div className="mb-10 p-8 bg-amber-50 border border-amber-100 text-amber-900 text-sm font-bold rounded-[2rem] flex items-start justify-between gap-6 shadow-sm">
+            <p className="leading-relaxed">{history.syncFailure} It is still saved in this browser.</p>
+            <button onClick={history.dismissSyncFailure} className="text-[10px] font-black uppercase tracking-[0.3em] text-amber-700 hover:text-amber-900">Dismiss</button>
+          </div>
+        )}
         {!report || status === ProcessingStatus.ANALYZING ? (
           <div className="max-w-3xl mx-auto">
             <div className="text-center mb-20 space-y-6">
@@ -261,43 +1624,137 @@ const App: React.FC = () => {
             </div>
 
             <div className="bg-white rounded-[4rem] shadow-2xl border border-slate-100 overflow-hidden">
-              <div className="bg-slate-50/50 px-16 py-12 border-b border-slate-100">
+              <div className="bg-slate-50/50 px-16 py-12 border-b border-slate-100 flex items-center justify-between">
                 <h3 className="text-xl font-black text-slate-800 tracking-tight">System Protocol Intake</h3>
+                <div className="flex bg-slate-100 rounded-2xl p-1">
+                  {(['single', 'batch', 'history', 'analytics'] as const).map(m => (
+                    <button
+                      key={m}
+                      onClick={() => setMode(m)}
+                      disabled={status === ProcessingStatus.ANALYZING}
+                      className={`px-6 py-3 rounded-xl text-[10px] font-black uppercase tracking-[0.3em] transition-all ${mode === m ? 'bg-indigo-900 text-white shadow-sm' : 'text-slate-500 hover:text-indigo-900'}`}
+                    >
+                      {{ single: 'Single Script', batch: 'Class Batch', history: 'History', analytics: 'Analytics' }[m]}
+                    </button>
+                  ))}
+                </div>
               </div>
-              <div className="p-16 space-y-16">
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-16">
-                  <FileInput 
-                    label="Artifact Core" 
-                    description="Paper + Key + Student Script (PDF)" 
-                    onChange={setArtifact} 
-                    selectedFile={artifact} 
-                    accept=".pdf"
+              {mode === 'history' ? (
+                <div className="p-16">
+                  <ReportHistory
+                    entries={history.entries}
+                    onOpen={openSavedReport}
+                    onArchive={history.archive}
+                    onDelete={history.remove}
+                    syncEnabled={history.syncEnabled}
+                    onToggleSync={history.toggleSync}
                   />
-                  <FileInput 
-                    label="Human Evaluator Feedback" 
-                    description="Manual Scored Sheets (PDF, Word)" 
-                    onChange={setFeedback} 
-                    selectedFile={feedback} 
-                    accept=".pdf,.doc,.docx"
+                </div>
+              ) : mode === 'analytics' ? (
+                <div className="p-16">
+                  <AnalyticsDashboard entries={history.entries} />
+                </div>
+              ) : (
+              <>
+                <div className="px-16 pt-16 space-y-6">
+                  <div className="flex items-center justify-between">
+                    <h4 className="text-[10px] font-black text-indigo-900 uppercase tracking-[0.3em]">Exam Materials</h4>
+                    <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Reused for every student</span>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-16">
+                    <FileInput
+                      label="Question Paper"
+                      description="Exam Paper with Max Marks (PDF)"
+                      onChange={materials.setQuestionPaper}
+                      selectedFile={materials.questionPaper}
+                      accept=".pdf"
+                    />
+                    <FileInput
+                      label="Official Marking Scheme"
+                      description="Answer Key / Expected Points (PDF)"
+                      onChange={materials.setMarkingScheme}
+                      selectedFile={materials.markingScheme}
+                      accept=".pdf"
+                    />
+                  </div>
+                  <TemplatePicker
+                    templates={templates}
+                    selected={materials.template}
+                    onSelect={materials.setTemplate}
+                    onEdit={setEditingTemplate}
+                    onDelete={handleDeleteTemplate}
                   />
+                  <PromptProfilePicker selected={materials.promptProfile} onSelect={materials.setPromptProfile} />
+                  {can(user, 'moderate') && <SecondMarkerToggle options={materials.secondMarker} onChange={materials.setSecondMarker} />}
+                  {editingTemplate && (
+                    <TemplateEditor key={editingTemplate.id} initial={editingTemplate} onSave={handleSaveTemplate} onCancel={() => setEditingTemplate(null)} />
+                  )}
+                </div>
+              {mode === 'batch' ? (
+                <div className="p-16">
+                  <BatchPanel queue={batch} onOpenReport={openBatchReport} />
+                </div>
+              ) : (
+              <div className="p-16 space-y-16">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-16">
+                  <div className="space-y-4">
+                    <FileInput 
+                      label="Student Answer Script" 
+                      description="Handwritten Script (PDF)" 
+                      onChange={setStudentScript} 
+                      selectedFile={studentScript} 
+                      accept=".pdf"
+                      rule={INTAKE_RULES.script}
+                      capture
+                    />
+                    <input className={INPUT_CLASS} placeholder="Student name, if printed on the documents (optional)" value={studentName} onChange={e => setStudentName(e.target.value)} />
+                    <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Name, roll number and signature are masked before upload · the model sees only a pseudonym</p>
+                  </div>
+                  <div className="space-y-4">
+                    <div className="flex bg-slate-100 rounded-2xl p-1 w-fit">
+                      {(['upload', 'form'] as const).map(m => (
+                        <button
+                          key={m}
+                          onClick={() => setFeedbackMode(m)}
+                          className={`px-5 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${feedbackMode === m ? 'bg-indigo-900 text-white shadow-sm' : 'text-slate-500 hover:text-indigo-900'}`}
+                        >
+                          {{ upload: 'Upload Feedback', form: 'Enter Marks' }[m]}
+                        </button>
+                      ))}
+                    </div>
+                    {feedbackMode === 'upload' ? (
+                      <FileInput 
+                        label="Human Evaluator Feedback" 
+                        description="Manual Scored Sheets (PDF, .docx)" 
+                        onChange={setFeedback} 
+                        selectedFile={feedback} 
+                        accept=".pdf,.docx"
+                        rule={INTAKE_RULES.feedback}
+                      />
+                    ) : (
+                      <p className="text-sm font-medium text-slate-500 leading-relaxed">Enter the evaluator's marks and comments below. They are used exactly as typed, so nothing is re-read from a feedback sheet.</p>
+                    )}
+                  </div>
                 </div>
 
+                {feedbackMode === 'form' && <MarkingForm value={markingForm} onChange={setMarkingForm} template={materials.template} rollNumber={studentScript && extractRollNumber(studentScript.name)} />}
+
                 {error && (
                   <div className="p-8 bg-rose-50 border border-rose-100 text-rose-800 text-sm font-bold rounded-[2rem] flex items-start space-x-5 shadow-sm animate-shake">
                     <svg className="w-7 h-7 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>
-                    <p className="leading-relaxed">{error}</p>
+                    <p className="leading-relaxed whitespace-pre-line">{error}</p>
                   </div>
                 )}
 
                 <button 
-                  onClick={handleProcess} 
-                  disabled={status === ProcessingStatus.ANALYZING || !artifact || !feedback} 
+                  onClick={() => handleProcess()} 
+                  disabled={status === ProcessingStatus.ANALYZING || !materials.ready || !studentScript || (feedbackMode === 'upload' && !feedback)} 
                   className="w-full py-9 bg-indigo-900 text-white rounded-[2.75rem] font-black text-2xl shadow-xl hover:bg-indigo-950 disabled:opacity-50 transition-all active:scale-[0.97] flex items-center justify-center space-x-6 hover:-translate-y-1"
                 >
                   {status === ProcessingStatus.ANALYZING ? (
                     <>
                       <div className="w-8 h-8 border-[5px] border-white/20 border-t-white rounded-full animate-spin"></div>
-                      <span className="tracking-tight uppercase text-lg">Running Audit Sequence...</span>
+                      <span className="tracking-tight uppercase text-lg">{stage ? JOB_STAGE_LABELS[stage] : 'Running Audit Sequence...'}</span>
                     </>
                   ) : (
                     <>
@@ -307,14 +1764,20 @@ const App: React.FC = () => {
                   )}
                 </button>
               </div>
+              )}
+              </>
+              )}
               {status === ProcessingStatus.ANALYZING && (
                 <div className="h-4 bg-slate-100 relative overflow-hidden">
                   <div className="h-full bg-indigo-600 animate-[progress_1.5s_ease-in-out_infinite] w-[40%] absolute top-0 left-0 shadow-[0_0_20px_rgba(79,70,229,0.5)]"></div>
                 </div>
               )}
+              {status === ProcessingStatus.ANALYZING && (
+                <LiveEvaluation stage={stage} questions={liveQuestions} onCancel={() => running.current?.abort()} />
+              )}
             </div>
           </div>
-        ) : <ReportUI report={report} />}
+        ) : <ReportUI report={report} viewMode={viewMode} onViewModeChange={setViewMode} onChange={updateReport} onSaveTemplate={() => handleSaveTemplate(templateFromReport(report))} />}
       </main>
 
       <footer className="max-w-7xl mx-auto px-10 py-32 text-center border-t border-slate-100 mt-20">
@@ -324,10 +1787,30 @@ const App: React.FC = () => {
   );
 };
 
+// Nothing reaches the evaluation functions until someone has signed in.
+const AuthGate: React.FC = () => {
+  const [session, setSession] = useState<AuthSession | null>(loadSession);
+
+  useEffect(() => {
+    const expired = () => setSession(null);
+    window.addEventListener(SESSION_EXPIRED_EVENT, expired);
+    return () => window.removeEventListener(SESSION_EXPIRED_EVENT, expired);
+  }, []);
+
+  const signOut = () => {
+    clearSession();
+    localStorage.removeItem(ACTIVE_JOB_KEY);
+    localStorage.removeItem(BATCH_JOBS_KEY);
+    setSession(null);
+  };
+
+  return session ? <App key={session.user.id} user={session.user} onSignOut={signOut} /> : <LoginScreen onSignedIn={setSession} />;
+};
+
 // --- RENDER ---
 
 const rootElement = document.getElementById('root');
 if (rootElement) {
   const root = createRoot(rootElement);
-  root.render(<App />);
+  root.render(<AuthGate />);
 }
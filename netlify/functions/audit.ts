@@ -0,0 +1,44 @@
+import { AuditExport } from "../../types";
+import { authenticate } from "../lib/auth";
+import { openAuditLog, verifyChain } from "../lib/audit";
+import { can } from "../../services/roles";
+
+const json = (statusCode: number, body: unknown) => ({
+  statusCode,
+  headers: { "Content-Type": "application/json" },
+  body: JSON.stringify(body)
+});
+
+/**
+ * Exports a report's audit log (or, for admins, every report's) with the
+ * result of checking its hash chain. Entries are written only by the
+ * evaluation and reports functions, never sent by the app.
+ */
+export const handler = async (event: any) => {
+  if (event.httpMethod !== "GET") {
+    return { statusCode: 405, body: "Method Not Allowed" };
+  }
+
+  const auth = authenticate(event);
+  if (auth.ok === false) return json(auth.statusCode, { error: auth.error });
+
+  try {
+    const log = openAuditLog(event);
+    const reportId: string | undefined = event.queryStringParameters?.reportId;
+    if (!reportId && !can(auth.user, "administer")) return json(403, { error: "Only an admin can export the whole audit log." });
+
+    const entries = reportId ? await log.entries(reportId) : await log.allEntries();
+    if (reportId && !entries.length) return json(404, { error: `No audit entries for report ${reportId}.` });
+    // Moderators handle appeals for any report; evaluators only for reports they ran.
+    if (reportId && entries[0].user.id !== auth.user.id && !can(auth.user, "moderate")) {
+      return json(403, { error: "Only a moderator can export the audit log of another user's report." });
+    }
+
+    const problems = verifyChain(entries);
+    const body: AuditExport = { reportId, exportedAt: new Date().toISOString(), exportedBy: auth.user, intact: !problems.length, problems, entries };
+    return json(200, body);
+  } catch (error: any) {
+    console.error("Audit Function Error:", error);
+    return json(500, { error: error.message || "Failed to access the audit log." });
+  }
+};
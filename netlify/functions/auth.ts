@@ -0,0 +1,29 @@
+import { authProviderName, login, verifyToken } from "../lib/auth";
+
+const json = (statusCode: number, body: unknown) => ({
+  statusCode,
+  headers: { "Content-Type": "application/json" },
+  body: JSON.stringify(body)
+});
+
+// POST signs in and returns a session token; GET tells the login screen which
+// provider is in use and, given a token, who it belongs to.
+export const handler = async (event: any) => {
+  try {
+    if (event.httpMethod === "GET") {
+      const token = (event.headers?.authorization || "").match(/^Bearer\s+(.+)$/i)?.[1];
+      return json(200, { provider: authProviderName(), user: token ? verifyToken(token) : null });
+    }
+
+    if (event.httpMethod !== "POST") {
+      return { statusCode: 405, body: "Method Not Allowed" };
+    }
+
+    const outcome = login(JSON.parse(event.body || "{}"));
+    if (outcome.ok === false) return json(outcome.statusCode, { error: outcome.error });
+    return json(200, outcome.session);
+  } catch (error: any) {
+    console.error("Auth Function Error:", error);
+    return json(500, { error: error.message || "Sign-in failed." });
+  }
+};
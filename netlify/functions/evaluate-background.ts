@@ -0,0 +1,72 @@
+import { EvaluationJob } from "../../types";
+import { openJobStore } from "../lib/jobs";
+import { runCachedEvaluation } from "../lib/cache";
+
+const CANCEL_CHECK_INTERVAL_MS = 2000;
+
+// Background functions return 202 immediately and may run for up to fifteen
+// minutes; progress, streamed question rows and the result are written to
+// the job record.
+export const handler = async (event: any) => {
+  const jobs = openJobStore(event);
+  const { jobId } = JSON.parse(event.body || "{}");
+
+  const request = jobId ? await jobs.takeRequest(jobId) : null;
+  const job = request ? await jobs.getJob(jobId) : null;
+  if (!request || !job) {
+    console.error("Evaluation job has no pending request:", jobId);
+    return;
+  }
+  if (job.status !== "queued" || await jobs.isCancelRequested(jobId)) {
+    await jobs.dropRequest(jobId);
+    return;
+  }
+
+  // Updates are chained so a streamed row never overwrites a newer stage, or the reverse.
+  let writes: Promise<unknown> = Promise.resolve();
+  const update = (patch: Partial<EvaluationJob>) => {
+    const next = writes.then(() => jobs.updateJob(jobId, patch));
+    writes = next.catch(() => {});
+    return next;
+  };
+
+  // Aborting ends the model request too, so a cancelled job stops spending quota.
+  const abort = new AbortController();
+  const watcher = setInterval(() => {
+    jobs.isCancelRequested(jobId)
+      .then(cancelled => cancelled && abort.abort())
+      .catch(error => console.warn("Could not check for cancellation:", error));
+  }, CANCEL_CHECK_INTERVAL_MS);
+
+  try {
+    await update({ status: "running" });
+    const outcome = await runCachedEvaluation(request, job.requestedBy!, {
+      event,
+      jobId,
+      onStage: stage => update({ stage }).then(() => {}),
+      live: {
+        signal: abort.signal,
+        onQuestions: rows => {
+          update({ partialQuestions: rows }).catch(error => console.warn("Could not save streamed questions:", error));
+        }
+      }
+    });
+    await writes;
+    if (outcome.ok === false) {
+      await jobs.updateJob(jobId, { status: "failed", error: outcome.error, errorStatus: outcome.statusCode, validationErrors: outcome.validationErrors, partialQuestions: undefined });
+      return;
+    }
+    await jobs.updateJob(jobId, { status: "completed", report: outcome.report, partialQuestions: undefined });
+  } catch (error: any) {
+    await writes;
+    if (abort.signal.aborted) {
+      await jobs.updateJob(jobId, { status: "cancelled", partialQuestions: undefined });
+    } else {
+      console.error("Evaluation Job Error:", error);
+      await jobs.updateJob(jobId, { status: "failed", error: error.message || "An internal error occurred during evaluation.", errorStatus: 500, partialQuestions: undefined });
+    }
+  } finally {
+    clearInterval(watcher);
+    await jobs.dropRequest(jobId);
+  }
+};
@@ -0,0 +1,45 @@
+import { AuthUser, EvaluationReport } from "../../types";
+import { authenticate } from "../lib/auth";
+import { openEvaluationCache, reusedCopyId } from "../lib/cache";
+import { openReportStore, ownedBy } from "../lib/reports";
+import { can } from "../../services/roles";
+
+const json = (statusCode: number, body: unknown) => ({
+  statusCode,
+  headers: { "Content-Type": "application/json" },
+  body: JSON.stringify(body)
+});
+
+// Moderators compare any evaluation's versions; anyone else only those of
+// an evaluation they ran, or were handed a copy of from the cache.
+const mayCompare = async (versions: EvaluationReport[], user: AuthUser, event: any) => {
+  if (can(user, "moderate") || versions.some(v => v.generatedBy?.id === user.id)) return true;
+  const reports = openReportStore(event);
+  const copies = await Promise.all(versions.map(v => reports.get(reusedCopyId(v, user))));
+  return copies.some(copy => copy && ownedBy(copy, user));
+};
+
+// Every report produced for one evaluation key, oldest first, so a
+// re-evaluation can be compared with the versions before it.
+export const handler = async (event: any) => {
+  if (event.httpMethod !== "GET") {
+    return { statusCode: 405, body: "Method Not Allowed" };
+  }
+
+  const auth = authenticate(event);
+  if (auth.ok === false) return json(auth.statusCode, { error: auth.error });
+
+  const key: string | undefined = event.queryStringParameters?.key;
+  if (!key) return json(400, { error: "An evaluation key is required." });
+
+  try {
+    const versions = await openEvaluationCache(event).versions(key);
+    if (!(await mayCompare(versions, auth.user, event))) {
+      return json(403, { error: "Only a moderator can compare the versions of another user's evaluation." });
+    }
+    return json(200, versions);
+  } catch (error: any) {
+    console.error("Evaluation Versions Error:", error);
+    return json(500, { error: error.message || "Failed to load earlier versions." });
+  }
+};
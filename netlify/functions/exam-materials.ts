@@ -0,0 +1,65 @@
+
+import { ExamMaterials, ModelOptions } from "../../types";
+import { PROVIDER_NAMES, getProvider } from "../lib/providers";
+import { authenticate, authorizeModelOptions } from "../lib/auth";
+import { digestDocument, openUploadDigests } from "../lib/audit";
+
+// Uploads the question paper and marking scheme once per exam so that each
+// student's evaluation only has to carry their own script and feedback.
+export const handler = async (event: any) => {
+  if (event.httpMethod !== "POST") {
+    return { statusCode: 405, body: "Method Not Allowed" };
+  }
+
+  const auth = authenticate(event);
+  if (auth.ok === false) {
+    return { statusCode: auth.statusCode, body: JSON.stringify({ error: auth.error }) };
+  }
+
+  try {
+    const { questionPaper, markingScheme, modelOptions }: ExamMaterials & { modelOptions?: ModelOptions } = JSON.parse(event.body);
+    const allowed = authorizeModelOptions(auth, modelOptions);
+    if (allowed.ok === false) {
+      return { statusCode: allowed.statusCode, body: JSON.stringify({ error: allowed.error }) };
+    }
+    if (!questionPaper?.data || !markingScheme?.data) {
+      return { statusCode: 400, body: JSON.stringify({ error: "Both the question paper and the marking scheme are required." }) };
+    }
+
+    const provider = getProvider(modelOptions?.provider);
+    if (!provider) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ error: `Unknown evaluation provider "${modelOptions?.provider}". Available: ${PROVIDER_NAMES.join(", ")}.` })
+      };
+    }
+
+    const [paper, scheme] = await Promise.all([provider.uploadDocument(questionPaper), provider.uploadDocument(markingScheme)]);
+    const expiries = [paper.expiresAt, scheme.expiresAt].filter(Boolean) as string[];
+
+    // Hashed as received and kept against the file references, so the cache
+    // and the audit log can still identify the originals.
+    const digests = openUploadDigests(event);
+    await Promise.all([[questionPaper, paper.document], [markingScheme, scheme.document]].map(([sent, uploaded]) =>
+      uploaded.fileUri ? digests.record(uploaded.fileUri, digestDocument(sent)) : undefined
+    ));
+
+    const result: ExamMaterials = {
+      questionPaper: paper.document,
+      markingScheme: { ...scheme.document, ...(markingScheme.text ? { text: markingScheme.text } : {}) },
+      expiresAt: expiries.sort()[0]
+    };
+
+    return {
+      statusCode: 200,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(result)
+    };
+  } catch (error: any) {
+    console.error("Exam Materials Upload Error:", error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ error: error.message || "Failed to upload exam materials." })
+    };
+  }
+};
@@ -0,0 +1,68 @@
+import { EvaluationJob, JobStage } from "../../types";
+import { FINISHED_STATUSES, canAccessJob, openJobStore } from "../lib/jobs";
+import { authenticate } from "../lib/auth";
+
+const POLL_INTERVAL_MS = 1000;
+// Each stream ends inside the synchronous function time limit; the client
+// reconnects with ?from= so no question row is sent twice.
+const STREAM_WINDOW_MS = 8000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Server-sent events for one job: "stage" when the stage changes, "question"
+ * for each streamed question row, then "completed", "failed" or "cancelled"
+ * with the job record, or "reconnect" when this stream's window is up.
+ */
+export default async (req: Request) => {
+  const auth = authenticate({ headers: { authorization: req.headers.get("authorization") } });
+  if (auth.ok === false) return Response.json({ error: auth.error }, { status: auth.statusCode });
+
+  const url = new URL(req.url);
+  const id = url.searchParams.get("id");
+  if (!id) return Response.json({ error: "A job id is required." }, { status: 400 });
+
+  const jobs = openJobStore();
+  const first = await jobs.getJob(id);
+  if (!first) return Response.json({ error: `No evaluation job with id ${id}.` }, { status: 404 });
+  if (!canAccessJob(first, auth.user)) return Response.json({ error: "This evaluation was run by another user." }, { status: 403 });
+
+  let sent = Math.max(0, Number(url.searchParams.get("from")) || 0);
+  const encoder = new TextEncoder();
+  let open = true;
+
+  const body = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (open) controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+      const deadline = Date.now() + STREAM_WINDOW_MS;
+      let stage: JobStage | undefined;
+      let job: EvaluationJob | null = first;
+      try {
+        while (job && open) {
+          if (job.stage && job.stage !== stage) send("stage", { stage: (stage = job.stage) });
+          (job.partialQuestions || []).slice(sent).forEach(question => send("question", { index: sent++, question }));
+          if (FINISHED_STATUSES.includes(job.status)) return send(job.status, job);
+          if (Date.now() >= deadline) return send("reconnect", { from: sent });
+          await sleep(POLL_INTERVAL_MS);
+          job = await jobs.getJob(id);
+        }
+        if (!job) send("failed", { status: "failed", error: `No evaluation job with id ${id}.`, errorStatus: 404 });
+      } catch (error) {
+        console.error("Job Events Error:", error);
+        send("reconnect", { from: sent });
+      } finally {
+        if (open) controller.close();
+      }
+    },
+    cancel() {
+      // The browser went away; stop reading the job store.
+      open = false;
+    }
+  });
+
+  return new Response(body, {
+    headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" }
+  });
+};
@@ -0,0 +1,60 @@
+import { EvaluationRequest } from "../../types";
+import { FINISHED_STATUSES, canAccessJob, openJobStore } from "../lib/jobs";
+import { authenticate, authorizeEvaluation } from "../lib/auth";
+
+const json = (statusCode: number, body: unknown) => ({
+  statusCode,
+  headers: { "Content-Type": "application/json" },
+  body: JSON.stringify(body)
+});
+
+// POST submits an evaluation and returns its job; GET ?id= reports progress
+// and, once completed, the report itself; DELETE ?id= cancels it.
+export const handler = async (event: any) => {
+  try {
+    const jobs = openJobStore(event);
+
+    if (event.httpMethod === "GET" || event.httpMethod === "DELETE") {
+      const auth = authenticate(event);
+      if (auth.ok === false) return json(auth.statusCode, { error: auth.error });
+      const id = event.queryStringParameters?.id;
+      if (!id) return json(400, { error: "A job id is required." });
+      const job = await jobs.getJob(id);
+      if (!job) return json(404, { error: `No evaluation job with id ${id}.` });
+      if (!canAccessJob(job, auth.user)) return json(403, { error: "This evaluation was run by another user." });
+      if (event.httpMethod === "GET") return json(200, job);
+
+      if (FINISHED_STATUSES.includes(job.status)) {
+        return json(409, { error: job.status === "cancelled" ? "This evaluation has already been cancelled." : "This evaluation has already finished." });
+      }
+      await jobs.requestCancel(id);
+      // A running job stops at its next cancellation check; one still queued never starts.
+      return json(202, job.status === "queued" ? await jobs.updateJob(id, { status: "cancelled" }) : job);
+    }
+
+    if (event.httpMethod !== "POST") {
+      return { statusCode: 405, body: "Method Not Allowed" };
+    }
+
+    const request: EvaluationRequest = JSON.parse(event.body);
+    const auth = authorizeEvaluation(event, request);
+    if (auth.ok === false) return json(auth.statusCode, { error: auth.error });
+    const job = await jobs.createJob(request, auth.user);
+
+    const origin = process.env.URL || `https://${event.headers.host}`;
+    const trigger = await fetch(`${origin}/.netlify/functions/evaluate-background`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jobId: job.id })
+    });
+    if (!trigger.ok) {
+      await jobs.dropRequest(job.id);
+      return json(502, await jobs.updateJob(job.id, { status: "failed", error: `Could not start the evaluation (${trigger.status}).`, errorStatus: 502 }));
+    }
+
+    return json(202, job);
+  } catch (error: any) {
+    console.error("Jobs Function Error:", error);
+    return json(500, { error: error.message || "Failed to process the evaluation job request." });
+  }
+};
@@ -0,0 +1,83 @@
+import { AuditAction, StoredReport } from "../../types";
+import { authenticate } from "../lib/auth";
+import { applyReportChanges, openAuditLog } from "../lib/audit";
+import { openReportStore, ownedBy, storedReport, visibleTo } from "../lib/reports";
+import { can } from "../../services/roles";
+
+const json = (statusCode: number, body: unknown) => ({
+  statusCode,
+  headers: { "Content-Type": "application/json" },
+  body: JSON.stringify(body)
+});
+
+const SIGN_OFF_ACTIONS: AuditAction[] = ["approved", "reopened"];
+
+/**
+ * The shared report history, for history sync. Each save is compared with
+ * the stored copy, and what it changed is logged to the audit trail before
+ * it is kept.
+ */
+export const handler = async (event: any) => {
+  const auth = authenticate(event);
+  if (auth.ok === false) return json(auth.statusCode, { error: auth.error });
+  const { user } = auth;
+
+  try {
+    const store = openReportStore(event);
+    const id: string | undefined = event.queryStringParameters?.id;
+
+    switch (event.httpMethod) {
+      case "GET": {
+        if (id) {
+          // Someone else's report is reported as missing rather than forbidden, so ids cannot be probed.
+          const entry = await store.get(id);
+          return entry && visibleTo(entry, user) ? json(200, entry) : json(404, { error: `No saved report with id ${id}.` });
+        }
+        return json(200, (await store.list()).filter(entry => visibleTo(entry, user)));
+      }
+
+      case "POST": {
+        const entry: StoredReport = JSON.parse(event.body);
+        if (!entry?.id || !entry.report) return json(400, { error: "A report entry with an id is required." });
+        // The evaluation functions store each report as generated, so a save
+        // with no stored copy is not one of theirs.
+        const existing = await store.get(entry.id);
+        if (!existing) return json(404, { error: `No saved report with id ${entry.id}.` });
+
+        // Any change to another user's report is a moderator's; so are signing off and reopening.
+        if (!ownedBy(existing, user) && !can(user, "moderate")) return json(403, { error: "Only a moderator can change another user's report." });
+
+        // What changed is worked out here from the stored copy; the body's own edit list is not taken at its word.
+        const update = applyReportChanges(existing.report, entry.report, user.name);
+        if (update.ok === false) return json(update.statusCode, { error: update.error });
+        const { report, changes } = update;
+        if (changes.some(c => SIGN_OFF_ACTIONS.includes(c.action)) && !can(user, "moderate")) {
+          return json(403, { error: "Signing off or reopening a report needs a moderator or admin account." });
+        }
+
+        // A change that cannot be logged is not kept.
+        const log = openAuditLog(event);
+        for (const change of changes) await log.append(entry.id, change.action, user, change.details);
+        await store.put({ ...storedReport(report), archived: entry.archived === true });
+        return json(200, { id: entry.id, logged: changes.length });
+      }
+
+      case "DELETE": {
+        if (!id) return json(400, { error: "A report id is required." });
+        // The shared copy is removed only by whoever generated the report, or an admin.
+        const entry = await store.get(id);
+        if (entry && !ownedBy(entry, user) && !can(user, "administer")) {
+          return json(403, { error: "Only an admin can delete another user's report." });
+        }
+        await store.delete(id);
+        return json(200, { id });
+      }
+
+      default:
+        return { statusCode: 405, body: "Method Not Allowed" };
+    }
+  } catch (error: any) {
+    console.error("Reports Function Error:", error);
+    return json(500, { error: error.message || "Failed to access saved reports." });
+  }
+};
@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { AuthUser, EvaluationReport, EvaluationRequest } from "../../types";
+import { approveReport, decideAddition, editField, markReviewed, reopenReport } from "../../services/review";
+import { applyReportChanges, digestDocument, digestInputs, openAuditLog, openUploadDigests, verifyChain } from "./audit";
+
+// Enough of a Blobs store for the log: keyed JSON, prefix listing and create-only writes.
+const blobs = new Map<string, unknown>();
+vi.mock("@netlify/blobs", () => ({
+  connectLambda: () => {},
+  getStore: () => ({
+    list: async ({ prefix = "" } = {}) => ({ blobs: [...blobs.keys()].filter(key => key.startsWith(prefix)).map(key => ({ key })) }),
+    get: async (key: string) => structuredClone(blobs.get(key) ?? null),
+    setJSON: async (key: string, value: unknown, { onlyIfNew = false } = {}) => {
+      if (onlyIfNew && blobs.has(key)) return { modified: false };
+      blobs.set(key, structuredClone(value));
+      return { modified: true };
+    }
+  })
+}));
+
+const user: AuthUser = { id: "evaluator", name: "Evaluator", role: "evaluator" };
+
+beforeEach(() => {
+  blobs.clear();
+  process.env.AUDIT_SECRET = "a-test-secret-that-is-long-enough-to-sign";
+});
+
+describe("openAuditLog", () => {
+  it("gives appends racing for one report consecutive sequence numbers", async () => {
+    const log = openAuditLog();
+    await Promise.all([log.append("r1", "edited", user, { n: 1 }), log.append("r1", "edited", user, { n: 2 })]);
+
+    const entries = await log.entries("r1");
+    expect(entries.map(e => e.sequence)).toEqual([1, 2]);
+    expect(verifyChain(entries)).toEqual([]);
+  });
+
+  it("finds an entry altered after it was recorded", async () => {
+    const log = openAuditLog();
+    await log.append("r1", "edited", user, { text: "before" });
+    const [entry] = await log.entries("r1");
+
+    expect(verifyChain([{ ...entry, details: { text: "after" } }])).toHaveLength(1);
+  });
+
+  it("refuses to log without an audit secret", async () => {
+    delete process.env.AUDIT_SECRET;
+
+    await expect(openAuditLog().append("r1", "edited", user, {})).rejects.toThrow(/AUDIT_SECRET/);
+  });
+});
+
+describe("digestInputs", () => {
+  it("hashes what was received, and knows uploaded files by the hash taken at upload", async () => {
+    const scheme = { name: "scheme.pdf", mimeType: "application/pdf", data: Buffer.from("scheme").toString("base64") };
+    await openUploadDigests().record("files/scheme", digestDocument(scheme));
+    const request = {
+      markingScheme: { name: "scheme.pdf", mimeType: "application/pdf", fileUri: "files/scheme" },
+      studentScript: { name: "script.pdf", mimeType: "application/pdf", data: Buffer.from("script").toString("base64") }
+    } as EvaluationRequest;
+
+    const inputs = await digestInputs(request);
+    expect(inputs.markingScheme.sha256).toBe(digestDocument(scheme).sha256);
+    expect(inputs.studentScript.sha256).toBe(digestDocument(request.studentScript!).sha256);
+  });
+});
+
+describe("applyReportChanges", () => {
+  const stored = {
+    questionWiseFeedback: [{ questionNo: "1", marksAwarded: "3", maxMarks: "5", studentAnswerSummary: "Named the roots", aiFeedbackAddition: "Add the trunks" }],
+    elaboratedGeneralisedFeedback: "Draft",
+    scoreVerification: { calculatedTotal: 3, reportedTotal: 3, status: "Correct" },
+    review: { state: "draft", fieldOrigins: {}, edits: [] }
+  } as unknown as EvaluationReport;
+  const signedOff = approveReport(markReviewed(decideAddition(stored, 0, "accepted"), "Evaluator"), "Moderator");
+  const actions = (update: ReturnType<typeof applyReportChanges>) => (update.ok === false ? update.error : update.changes.map(c => c.action));
+
+  it("lists edits, decisions and sign-off in the order they are logged", () => {
+    const edited = editField(decideAddition(stored, 0, "rejected"), "elaboratedGeneralisedFeedback", "Final", "Evaluator");
+
+    expect(actions(applyReportChanges(stored, approveReport(markReviewed(edited, "Evaluator"), "Moderator"), "Moderator"))).toEqual(["edited", "decided", "reviewed", "approved"]);
+  });
+
+  it("builds the edits from the stored copy, not the edit list it was sent", () => {
+    const update = applyReportChanges(stored, { ...stored, elaboratedGeneralisedFeedback: "Final" }, "Evaluator");
+
+    expect(update.ok).toBe(true);
+    if (update.ok === false) return;
+    expect(update.changes).toEqual([{ action: "edited", details: expect.objectContaining({ field: "elaboratedGeneralisedFeedback", previousValue: "Draft", newValue: "Final", editedBy: "Evaluator" }) }]);
+    expect(update.report.review?.edits).toHaveLength(1);
+    expect(update.report.review?.fieldOrigins).toEqual({ elaboratedGeneralisedFeedback: "human" });
+  });
+
+  it("refuses changes to marks and anything else a reviewer does not edit", () => {
+    const marks = { ...stored, questionWiseFeedback: [{ ...stored.questionWiseFeedback[0], marksAwarded: "5" }] };
+    const total = { ...stored, scoreVerification: { ...stored.scoreVerification, reportedTotal: 5 }, studentId: "ANON-7KQ2MX" };
+
+    expect(applyReportChanges(stored, marks, "Evaluator")).toMatchObject({ ok: false, statusCode: 400, error: expect.stringMatching(/changes questionWiseFeedback\.$/) });
+    expect(applyReportChanges(stored, total, "Evaluator")).toMatchObject({ ok: false, statusCode: 400, error: expect.stringMatching(/changes scoreVerification, studentId\.$/) });
+  });
+
+  it("refuses to change a signed-off report that is not reopened first", () => {
+    expect(applyReportChanges(signedOff, { ...signedOff, elaboratedGeneralisedFeedback: "Changed" }, "Evaluator")).toMatchObject({ ok: false, statusCode: 409 });
+    expect(actions(applyReportChanges(signedOff, editField(reopenReport(signedOff), "elaboratedGeneralisedFeedback", "Changed", "Moderator"), "Moderator"))).toEqual(["reopened", "edited"]);
+  });
+});
@@ -0,0 +1,231 @@
+import { createHash, createHmac } from "crypto";
+import { connectLambda, getStore } from "@netlify/blobs";
+import { AuditAction, AuditEntry, AuthUser, DocumentDigest, DocumentInput, EvaluationReport, EvaluationRequest, EvaluationTrace, ReviewState, SuggestionDecision } from "../../types";
+import { approveReport, decideAddition, editField, editableFields, getReview, markReviewed, readField, reopenReport } from "../../services/review";
+
+const STORE_NAME = "audit-log";
+const UPLOADS_STORE_NAME = "uploaded-documents";
+const MIN_SECRET_LENGTH = 32;
+const MAX_APPEND_ATTEMPTS = 5;
+
+export const sha256 = (data: string | Buffer) => createHash("sha256").update(data).digest("hex");
+
+// Sorted keys, so an entry hashes the same however it was built or read back.
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const fields = Object.entries(value).filter(([, item]) => item !== undefined).sort(([a], [b]) => (a < b ? -1 : 1));
+    return `{${fields.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+export const hashJson = (value: unknown) => sha256(canonicalJson(value));
+
+/** The document's hash and size, so an appeal can show which files were marked without keeping them. */
+export const digestDocument = (doc: DocumentInput): DocumentDigest => {
+  if (doc.pages?.length) {
+    const hash = createHash("sha256");
+    doc.pages.forEach(p => hash.update(Buffer.from(p.data, "base64")));
+    return { name: doc.name, sha256: hash.digest("hex"), pages: doc.pages.length };
+  }
+  if (doc.data) return { name: doc.name, sha256: sha256(Buffer.from(doc.data, "base64")) };
+  return { name: doc.name, fileUri: doc.fileUri };
+};
+
+/**
+ * Hashes of files uploaded ahead by exam-materials, taken from the bytes it
+ * received and looked up by file reference, so an evaluation naming the
+ * file does not have to be taken at its word about what it holds.
+ */
+export const openUploadDigests = (event?: any) => {
+  if (event) connectLambda(event);
+  const store = getStore(UPLOADS_STORE_NAME);
+  const keyFor = (fileUri: string) => sha256(fileUri);
+
+  return {
+    async record(fileUri: string, digest: DocumentDigest) {
+      await store.setJSON(keyFor(fileUri), { ...digest, fileUri });
+    },
+    get: async (fileUri: string) => (await store.get(keyFor(fileUri), { type: "json" })) as DocumentDigest | null
+  };
+};
+
+const INPUT_DOCUMENTS = ["questionPaper", "markingScheme", "studentScript", "humanFeedback"] as const;
+
+/**
+ * Every input the request carries, hashed here from what was received. Marks
+ * entered in the app stand in for the feedback document.
+ */
+export const digestInputs = async (request: EvaluationRequest, event?: any): Promise<Record<string, DocumentDigest>> => {
+  let uploads: ReturnType<typeof openUploadDigests> | undefined;
+  const digest = async (doc: DocumentInput) => {
+    const local = digestDocument(doc);
+    if (local.sha256 || !doc.fileUri) return local;
+    return (await (uploads ??= openUploadDigests(event)).get(doc.fileUri)) || local;
+  };
+  const documents = INPUT_DOCUMENTS.filter(key => request[key] && !(request.structuredFeedback && key === "humanFeedback"));
+  return {
+    ...Object.fromEntries(await Promise.all(documents.map(async key => [key, await digest(request[key]!)] as const))),
+    ...(request.structuredFeedback ? { humanFeedback: { name: "Marks entered in the app", sha256: hashJson(request.structuredFeedback) } } : {})
+  };
+};
+
+const auditSecret = () => {
+  const value = process.env.AUDIT_SECRET || "";
+  if (value.length < MIN_SECRET_LENGTH) {
+    throw new Error(`The audit log is not configured: set AUDIT_SECRET to at least ${MIN_SECRET_LENGTH} characters.`);
+  }
+  return value;
+};
+
+// Keyed with AUDIT_SECRET, so someone who can write to the store still cannot
+// rewrite an entry and its hash to match.
+const signEntry = (entry: Omit<AuditEntry, "hash">) => createHmac("sha256", auditSecret()).update(canonicalJson(entry)).digest("hex");
+
+const entryHash = ({ hash, ...entry }: AuditEntry) => signEntry(entry);
+
+/**
+ * Checks a report's entries, in sequence order, against their hashes and
+ * each other. Lists what does not add up rather than stopping at the first.
+ */
+export const verifyChain = (entries: AuditEntry[]): string[] => {
+  const problems: string[] = [];
+  entries.forEach((entry, i) => {
+    const previous = entries[i - 1]?.reportId === entry.reportId ? entries[i - 1] : undefined;
+    const label = `${entry.reportId} #${entry.sequence}`;
+    if (entryHash(entry) !== entry.hash) problems.push(`${label} (${entry.action}) does not match its hash; it was altered after it was recorded.`);
+    if (entry.sequence !== (previous ? previous.sequence + 1 : 1)) problems.push(`${label} follows #${previous?.sequence ?? 0}; an entry is missing or was recorded twice.`);
+    if (entry.previousHash !== (previous?.hash ?? null)) problems.push(`${label} does not follow on from the entry before it.`);
+  });
+  return problems;
+};
+
+// Zero-padded so listing a report's keys returns them in sequence order.
+const entryKey = (reportId: string, sequence: number) => `reports/${reportId}/${String(sequence).padStart(6, "0")}`;
+
+/**
+ * Append-only log of evaluations and the human edits made to their reports,
+ * kept in Netlify Blobs. Nothing here overwrites or deletes an entry: each
+ * sequence number is written only if it is new, and an append that loses a
+ * race for one reads the log again and takes the next.
+ */
+export const openAuditLog = (event?: any) => {
+  if (event) connectLambda(event);
+  const store = getStore(STORE_NAME);
+
+  const readEntries = async (prefix: string) => {
+    const { blobs } = await store.list({ prefix });
+    const keys = blobs.map(b => b.key).sort();
+    return (await Promise.all(keys.map(key => store.get(key, { type: "json" })))).filter(Boolean) as AuditEntry[];
+  };
+
+  const entries = (reportId: string) => readEntries(`reports/${reportId}/`);
+
+  return {
+    entries,
+    allEntries: () => readEntries("reports/"),
+
+    async append(reportId: string, action: AuditAction, user: AuthUser, details: Record<string, unknown>) {
+      for (let attempt = 1; ; attempt++) {
+        const last = (await entries(reportId)).at(-1);
+        const unhashed = {
+          reportId,
+          sequence: (last?.sequence ?? 0) + 1,
+          action,
+          recordedAt: new Date().toISOString(),
+          user,
+          details,
+          previousHash: last?.hash ?? null
+        };
+        const entry: AuditEntry = { ...unhashed, hash: signEntry(unhashed) };
+        const { modified } = await store.setJSON(entryKey(reportId, entry.sequence), entry, { onlyIfNew: true });
+        if (modified) return entry;
+        if (attempt >= MAX_APPEND_ATTEMPTS) throw new Error(`Could not append to the audit log of report ${reportId}; it kept changing.`);
+      }
+    }
+  };
+};
+
+/** The first entry in a report's log: what went in, which model and profile, and what came out. */
+export const recordEvaluation = (log: ReturnType<typeof openAuditLog>, report: EvaluationReport, trace: EvaluationTrace, user: AuthUser, jobId?: string) =>
+  log.append(report.id!, "evaluated", user, {
+    examReference: report.examReference,
+    studentId: report.studentId,
+    ...(jobId ? { jobId } : {}),
+    trace,
+    reportSha256: hashJson(report)
+  });
+
+export interface ReportChange {
+  action: AuditAction;
+  details: Record<string, unknown>;
+}
+
+export type ReportUpdate =
+  | { ok: true; report: EvaluationReport; changes: ReportChange[] }
+  | { ok: false; statusCode: number; error: string };
+
+const REVIEWED_STATES: ReviewState[] = ["reviewed", "approved"];
+const DECISIONS: SuggestionDecision[] = ["pending", "accepted", "rejected"];
+
+// Everything but the review, which the replay below rebuilds.
+const lockedParts = (report: EvaluationReport) => Object.fromEntries(Object.entries({ ...report, review: undefined }).map(([key, value]) => [key, hashJson(value)]));
+
+/**
+ * Works out on the server what a save changed: the stored report is taken
+ * through the same review steps as in the browser, with the incoming
+ * report's editable text, suggestion decisions and review state, so the
+ * edits logged are the ones made to the stored copy, whatever the incoming
+ * edit list says. A save that changes anything else is refused, and so is a
+ * change to a signed-off report that does not reopen it first.
+ */
+export const applyReportChanges = (stored: EvaluationReport, incoming: EvaluationReport, editor: string): ReportUpdate => {
+  const before = getReview(stored);
+  const after = getReview(incoming);
+  const changes: ReportChange[] = [];
+  let report = stored;
+
+  try {
+    if (before.state === "approved" && after.state !== "approved") {
+      report = reopenReport(report);
+      changes.push({ action: "reopened", details: { previouslyApprovedBy: before.approvedBy } });
+    }
+
+    for (const field of editableFields(stored)) {
+      const value = readField(incoming, field);
+      if (typeof value !== "string" || value === readField(report, field)) continue;
+      // Named as the browser named the reviewer; the entry records the signed-in user as well.
+      const editedBy = [...after.edits].reverse().find(edit => edit.field === field && edit.newValue === value)?.editedBy || editor;
+      report = editField(report, field, value, editedBy);
+      changes.push({ action: "edited", details: { ...getReview(report).edits.at(-1) } });
+    }
+
+    incoming.questionWiseFeedback?.forEach((q, index) => {
+      const decision = q?.aiAdditionDecision;
+      const current = report.questionWiseFeedback[index];
+      if (!current || !DECISIONS.includes(decision) || decision === current.aiAdditionDecision) return;
+      report = decideAddition(report, index, decision);
+      changes.push({ action: "decided", details: { questionNo: q.questionNo, decision, aiFeedbackAddition: report.questionWiseFeedback[index].aiFeedbackAddition } });
+    });
+
+    if (REVIEWED_STATES.includes(after.state) && getReview(report).state === "draft") {
+      report = markReviewed(report, after.reviewedBy || "");
+      changes.push({ action: "reviewed", details: { reviewedBy: getReview(report).reviewedBy } });
+    }
+    if (after.state === "approved" && getReview(report).state !== "approved") {
+      report = approveReport(report, after.approvedBy || "");
+      changes.push({ action: "approved", details: { approvedBy: getReview(report).approvedBy } });
+    }
+  } catch (error: any) {
+    return { ok: false, statusCode: 409, error: error.message };
+  }
+
+  const expected = lockedParts(report);
+  const received = lockedParts(incoming);
+  const changed = [...new Set([...Object.keys(expected), ...Object.keys(received)])].filter(key => expected[key] !== received[key]);
+  if (changed.length) {
+    return { ok: false, statusCode: 400, error: `Only the reviewer's text, suggestion decisions and review state can be changed; this save also changes ${changed.join(", ")}.` };
+  }
+  return { ok: true, report, changes };
+};
@@ -0,0 +1,30 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { AuthUser, EvaluationRequest, UserRole } from "../../types";
+import { authorizeEvaluation, issueToken } from "./auth";
+
+const eventFor = (role: UserRole) => {
+  const user: AuthUser = { id: role, name: role, role };
+  const issued = issueToken(user);
+  if (issued.ok === false) throw new Error(issued.error);
+  return { headers: { authorization: `Bearer ${issued.session.token}` } };
+};
+
+const request = (overrides: Partial<EvaluationRequest> = {}) => ({ ...overrides }) as EvaluationRequest;
+
+beforeEach(() => {
+  process.env.AUTH_SECRET = "a-test-secret-that-is-long-enough-to-sign";
+});
+
+describe("authorizeEvaluation", () => {
+  it("runs an evaluator's request on the server's model settings", () => {
+    expect(authorizeEvaluation(eventFor("evaluator"), request()).ok).toBe(true);
+  });
+
+  it("refuses model options from anyone but an admin", () => {
+    const options = { modelOptions: { provider: "mock", model: "thorax" } };
+
+    expect(authorizeEvaluation(eventFor("evaluator"), request(options))).toMatchObject({ ok: false, statusCode: 403 });
+    expect(authorizeEvaluation(eventFor("moderator"), request(options))).toMatchObject({ ok: false, statusCode: 403 });
+    expect(authorizeEvaluation(eventFor("admin"), request(options)).ok).toBe(true);
+  });
+});
@@ -0,0 +1,148 @@
+import { createHmac, scryptSync, timingSafeEqual } from "crypto";
+import { AuthSession, AuthUser, EvaluationRequest, ModelOptions, UserRole } from "../../types";
+import { Permission, USER_ROLES, can } from "../../services/roles";
+
+const TOKEN_TTL_MS = 12 * 60 * 60 * 1000;
+const MIN_SECRET_LENGTH = 32;
+
+export interface Credentials {
+  username: string;
+  password?: string;
+  /** Only honoured by the local provider, which has no user list. */
+  role?: UserRole;
+}
+
+type AuthFailure = { ok: false; statusCode: number; error: string };
+
+export type AuthOutcome = { ok: true; user: AuthUser } | AuthFailure;
+export type LoginOutcome = { ok: true; session: AuthSession } | AuthFailure;
+
+interface ConfiguredUser {
+  username: string;
+  name?: string;
+  role: UserRole;
+  /** "scrypt:<salt>:<hex key>", see the README for how to make one. */
+  passwordHash: string;
+}
+
+type LoginProvider = (credentials: Credentials) => AuthUser | null;
+
+const isRole = (role: unknown): role is UserRole => USER_ROLES.includes(role as UserRole);
+
+const configuredUsers = (): ConfiguredUser[] => {
+  try {
+    const users = JSON.parse(process.env.AUTH_USERS || "[]");
+    return Array.isArray(users) ? users.filter(u => u?.username && u.passwordHash && isRole(u.role)) : [];
+  } catch {
+    console.error("AUTH_USERS is not valid JSON; nobody can sign in.");
+    return [];
+  }
+};
+
+const passwordMatches = (password: string, stored: string) => {
+  const [scheme, salt, key] = stored.split(":");
+  if (scheme !== "scrypt" || !salt || !key) return false;
+  const expected = Buffer.from(key, "hex");
+  const actual = scryptSync(password, salt, expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
+const LOGIN_PROVIDERS: Record<string, LoginProvider> = {
+  // Accounts listed in AUTH_USERS with scrypt password hashes.
+  users: ({ username, password }) => {
+    const user = configuredUsers().find(u => u.username.toLowerCase() === username.trim().toLowerCase());
+    if (!user || !password || !passwordMatches(password, user.passwordHash)) return null;
+    return { id: user.username, name: user.name || user.username, role: user.role };
+  },
+  // For `netlify dev` only: anyone may sign in under any name and role.
+  local: ({ username, role }) =>
+    username.trim() ? { id: username.trim(), name: username.trim(), role: isRole(role) ? role : "evaluator" } : null
+};
+
+export const AUTH_PROVIDER_NAMES = Object.keys(LOGIN_PROVIDERS);
+
+export const authProviderName = () => (process.env.AUTH_PROVIDER || "users").toLowerCase();
+
+const secret = () => {
+  const value = process.env.AUTH_SECRET || "";
+  return value.length >= MIN_SECRET_LENGTH ? value : null;
+};
+
+const sign = (payload: string, key: string) => createHmac("sha256", key).update(payload).digest("base64url");
+
+const PERMISSION_ACTIONS: Record<Permission, string> = {
+  evaluate: "run evaluations",
+  moderate: "moderate marks",
+  administer: "manage shared reports",
+  identify: "see student identities"
+};
+
+const MISCONFIGURED: AuthFailure = { ok: false, statusCode: 500, error: `Sign-in is not configured: set AUTH_SECRET to at least ${MIN_SECRET_LENGTH} characters.` };
+
+export const issueToken = (user: AuthUser): LoginOutcome => {
+  const key = secret();
+  if (!key) return MISCONFIGURED;
+  const expiresAt = new Date(Date.now() + TOKEN_TTL_MS).toISOString();
+  const payload = Buffer.from(JSON.stringify({ sub: user.id, name: user.name, role: user.role, exp: expiresAt })).toString("base64url");
+  return { ok: true, session: { token: `${payload}.${sign(payload, key)}`, user, expiresAt } };
+};
+
+export const login = (credentials: Credentials): LoginOutcome => {
+  const provider = LOGIN_PROVIDERS[authProviderName()];
+  if (!provider) {
+    return { ok: false, statusCode: 500, error: `Unknown AUTH_PROVIDER "${authProviderName()}". Available: ${AUTH_PROVIDER_NAMES.join(", ")}.` };
+  }
+  const user = credentials?.username ? provider(credentials) : null;
+  return user ? issueToken(user) : { ok: false, statusCode: 401, error: "The username or password is incorrect." };
+};
+
+/** The user a bearer token was issued to, or null if it is forged or expired. */
+export const verifyToken = (token: string): AuthUser | null => {
+  const key = secret();
+  const [payload, signature] = token.split(".");
+  if (!key || !payload || !signature) return null;
+  const expected = Buffer.from(sign(payload, key));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null;
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+    if (!isRole(claims.role) || !(Date.parse(claims.exp) > Date.now())) return null;
+    return { id: claims.sub, name: claims.name, role: claims.role };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Checks the request's bearer token and the user's role. Every function that
+ * reads scripts or spends model quota calls this before doing anything else.
+ */
+export const authenticate = (event: any, permission: Permission = "evaluate"): AuthOutcome => {
+  if (!secret()) return MISCONFIGURED;
+  const header: string = event.headers?.authorization || event.headers?.Authorization || "";
+  const token = header.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (!token) return { ok: false, statusCode: 401, error: "Sign in to use AnatomyGuard." };
+  const user = verifyToken(token);
+  if (!user) return { ok: false, statusCode: 401, error: "Your session has expired. Sign in again." };
+  if (!can(user, permission)) return { ok: false, statusCode: 403, error: `Your ${user.role} account cannot ${PERMISSION_ACTIONS[permission]}.` };
+  return { ok: true, user };
+};
+
+const choosesModel = (options?: ModelOptions) =>
+  !!options && Object.values(options).some(value => value !== undefined && value !== null && value !== "");
+
+/**
+ * Picking the provider, model or thinking budget is an admin's call; everyone
+ * else runs on the server's EVALUATION_PROVIDER and model settings.
+ */
+export const authorizeModelOptions = (auth: AuthOutcome, options?: ModelOptions): AuthOutcome => {
+  if (!auth.ok || !choosesModel(options) || can(auth.user, "administer")) return auth;
+  return { ok: false, statusCode: 403, error: "Only an admin can choose the evaluation provider or model." };
+};
+
+/** As `authenticate`, plus second-marker moderation being a moderator's call and model choice an admin's. */
+export const authorizeEvaluation = (event: any, request: EvaluationRequest): AuthOutcome => {
+  const auth = authorizeModelOptions(authenticate(event, "evaluate"), request.modelOptions);
+  if (!auth.ok || !request.secondMarker || can(auth.user, "moderate")) return auth;
+  return { ok: false, statusCode: 403, error: "Second-marker moderation needs a moderator or admin account." };
+};
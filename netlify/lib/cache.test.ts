@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { AuthUser, DocumentInput, EvaluationRequest } from "../../types";
+import { digestInputs, openAuditLog } from "./audit";
+import { evaluationKey, openEvaluationCache, reusedCopyId, runCachedEvaluation } from "./cache";
+import { openReportStore } from "./reports";
+
+// One Map per Blobs store: keyed JSON, prefix listing, create-only writes and deletes.
+const stores = new Map<string, Map<string, unknown>>();
+vi.mock("@netlify/blobs", () => ({
+  connectLambda: () => {},
+  getStore: (name: string) => {
+    const blobs = stores.get(name) ?? stores.set(name, new Map()).get(name)!;
+    return {
+      list: async ({ prefix = "" } = {}) => ({ blobs: [...blobs.keys()].filter(key => key.startsWith(prefix)).map(key => ({ key })) }),
+      get: async (key: string) => structuredClone(blobs.get(key) ?? null),
+      setJSON: async (key: string, value: unknown, { onlyIfNew = false } = {}) => {
+        if (onlyIfNew && blobs.has(key)) return { modified: false };
+        blobs.set(key, structuredClone(value));
+        return { modified: true };
+      },
+      delete: async (key: string) => void blobs.delete(key)
+    };
+  }
+}));
+
+const doc = (name: string): DocumentInput => ({ name, mimeType: "application/pdf", data: Buffer.from(name).toString("base64") });
+
+const request = (overrides: Partial<EvaluationRequest> = {}): EvaluationRequest => ({
+  questionPaper: doc("question-paper.pdf"),
+  markingScheme: doc("marking-scheme.pdf"),
+  studentScript: doc("script.pdf"),
+  humanFeedback: doc("feedback.pdf"),
+  modelOptions: { provider: "mock", model: "upper-limb" },
+  studentPseudonym: "ANON-7KQ2MX",
+  ...overrides
+});
+
+const evaluator: AuthUser = { id: "evaluator", name: "Evaluator", role: "evaluator" };
+const secondEvaluator: AuthUser = { id: "second", name: "Second Evaluator", role: "evaluator" };
+
+const keyOf = async (r: EvaluationRequest) => evaluationKey(r, await digestInputs(r));
+
+beforeEach(() => {
+  stores.clear();
+  process.env.AUDIT_SECRET = "a-test-secret-that-is-long-enough-to-sign";
+});
+
+describe("evaluationKey", () => {
+  it("is the same for the same files whatever the student's pseudonym", async () => {
+    expect(await keyOf(request())).toBe(await keyOf(request({ studentPseudonym: "ANON-ZZZZ22" })));
+  });
+
+  it("changes with the script, the model and the second-marker settings", async () => {
+    const key = await keyOf(request());
+
+    expect(await keyOf(request({ studentScript: doc("another-script.pdf") }))).not.toBe(key);
+    expect(await keyOf(request({ modelOptions: { provider: "mock", model: "thorax" } }))).not.toBe(key);
+    expect(await keyOf(request({ secondMarker: { tolerance: 1 } }))).not.toBe(key);
+  });
+
+  it("is null for an unknown provider", async () => {
+    expect(await keyOf(request({ modelOptions: { provider: "nowhere" } }))).toBeNull();
+  });
+});
+
+describe("runCachedEvaluation", () => {
+  it("numbers each re-evaluation as the next version and returns the latest after", async () => {
+    const first = await runCachedEvaluation(request(), evaluator);
+    const second = await runCachedEvaluation(request({ reevaluate: true }), evaluator);
+    const reused = await runCachedEvaluation(request(), evaluator);
+
+    expect(first.ok && second.ok && reused.ok).toBe(true);
+    if (first.ok === false || second.ok === false || reused.ok === false) return;
+    expect([first.report.version, second.report.version]).toEqual([1, 2]);
+    expect(reused.report.id).toBe(second.report.id);
+    expect((await openAuditLog().entries(second.report.id!)).map(e => e.action)).toEqual(["evaluated", "reused"]);
+  });
+
+  it("gives re-evaluations finishing together different versions", async () => {
+    await runCachedEvaluation(request(), evaluator);
+    const outcomes = await Promise.all([1, 2, 3].map(() => runCachedEvaluation(request({ reevaluate: true }), evaluator)));
+
+    const versions = outcomes.map(o => (o.ok ? o.report.version : null));
+    expect([...versions].sort()).toEqual([2, 3, 4]);
+    expect((await openEvaluationCache().versions(await keyOf(request()))).map(v => v.version)).toEqual([1, 2, 3, 4]);
+  });
+
+  it("gives another user their own copy of a cached report, stored and logged as theirs", async () => {
+    const original = await runCachedEvaluation(request(), evaluator);
+    const copy = await runCachedEvaluation(request({ studentPseudonym: "ANON-ZZZZ22" }), secondEvaluator);
+
+    expect(original.ok && copy.ok).toBe(true);
+    if (original.ok === false || copy.ok === false) return;
+    expect(copy.report.id).toBe(reusedCopyId(original.report, secondEvaluator));
+    expect(copy.report.generatedBy).toEqual(secondEvaluator);
+    expect(copy.report.studentId).toBe("ANON-ZZZZ22");
+    expect(copy.report.examReference).toBe("Anatomy Sessional I — Upper Limb — ANON-ZZZZ22");
+    expect(copy.report.version).toBe(1);
+    expect((await openReportStore().get(copy.report.id!))?.report.generatedBy).toEqual(secondEvaluator);
+    expect(await openAuditLog().entries(copy.report.id!)).toEqual([
+      expect.objectContaining({ action: "reused", user: secondEvaluator, details: expect.objectContaining({ copiedFrom: original.report.id, version: 1 }) })
+    ]);
+    expect((await openReportStore().get(original.report.id!))?.report.generatedBy).toEqual(evaluator);
+  });
+
+  it("hands the same user back the copy they have been reviewing", async () => {
+    await runCachedEvaluation(request(), evaluator);
+    const first = await runCachedEvaluation(request(), secondEvaluator);
+    if (first.ok === false) throw new Error(first.error);
+    const store = openReportStore();
+    const entry = (await store.get(first.report.id!))!;
+    await store.put({ ...entry, report: { ...entry.report, elaboratedGeneralisedFeedback: "Reviewed" } });
+
+    const again = await runCachedEvaluation(request(), secondEvaluator);
+    expect(again.ok).toBe(true);
+    if (again.ok === false) return;
+    expect(again.report.id).toBe(first.report.id);
+    expect(again.report.elaboratedGeneralisedFeedback).toBe("Reviewed");
+  });
+});
@@ -0,0 +1,147 @@
+import { connectLambda, getStore } from "@netlify/blobs";
+import { AuthUser, DocumentDigest, EvaluationReport, EvaluationRequest, JobStage } from "../../types";
+import { profileRef, resolveProfile } from "../../services/promptProfiles";
+import { getProvider } from "./providers";
+import { EvaluationOutcome, LiveEvaluation, promptSha256, runEvaluation } from "./evaluation";
+import { digestInputs, hashJson, openAuditLog, recordEvaluation, sha256 } from "./audit";
+import { openReportStore } from "./reports";
+import { PSEUDONYM_PATTERN, isPseudonym, mapReportText } from "../../services/pseudonyms";
+
+const STORE_NAME = "evaluation-cache";
+const MAX_ADD_ATTEMPTS = 5;
+
+/**
+ * Everything that decides what the model is asked, hashed, with the
+ * documents known by the server's own hashes of them (see digestInputs). The
+ * student's pseudonym is left out: it differs between browsers for the same
+ * script. Returns null for a request that names an unknown profile or
+ * provider; runEvaluation rejects it.
+ */
+export const evaluationKey = (request: EvaluationRequest, inputs: Record<string, DocumentDigest>): string | null => {
+  const profile = resolveProfile(request.promptProfile);
+  const options = request.modelOptions || {};
+  const provider = getProvider(options.provider);
+  if (!profile || !provider) return null;
+  return hashJson({
+    inputs: Object.fromEntries(Object.entries(inputs).map(([key, digest]) => [key, digest.sha256 || digest.fileUri])),
+    template: request.template,
+    secondMarker: request.secondMarker,
+    promptProfile: profileRef(profile),
+    prompt: promptSha256(request, profile),
+    provider: provider.name,
+    model: options.model || provider.defaultModel,
+    thinkingBudget: options.thinkingBudget
+  });
+};
+
+/**
+ * Every report produced for one evaluation key, in Netlify Blobs. Versions
+ * are only ever added, so a re-evaluation can be compared with the reports
+ * before it.
+ */
+const versionKey = (report: EvaluationReport) => `${report.evaluationKey}/${String(report.version).padStart(4, "0")}`;
+
+export const openEvaluationCache = (event?: any) => {
+  if (event) connectLambda(event);
+  const store = getStore(STORE_NAME);
+
+  const versions = async (key: string) => {
+    const { blobs } = await store.list({ prefix: `${key}/` });
+    const keys = blobs.map(b => b.key).sort();
+    return (await Promise.all(keys.map(k => store.get(k, { type: "json" })))).filter(Boolean) as EvaluationReport[];
+  };
+
+  return {
+    versions,
+    latest: async (key: string) => (await versions(key)).at(-1) ?? null,
+
+    /**
+     * Adds the report as its version, unless another evaluation of the same
+     * inputs took that version first; then returns false and adds nothing.
+     */
+    async add(report: EvaluationReport) {
+      const { modified } = await store.setJSON(versionKey(report), report, { onlyIfNew: true });
+      return modified;
+    },
+
+    // Only for a version that could not be logged, so was never handed out.
+    withdraw: (report: EvaluationReport) => store.delete(versionKey(report))
+  };
+};
+
+export interface EvaluationContext {
+  /** The Lambda event, for functions that must connect Blobs themselves. */
+  event?: any;
+  onStage?: (stage: JobStage) => void | Promise<void>;
+  live?: LiveEvaluation;
+  jobId?: string;
+}
+
+export type CachedOutcome =
+  | { ok: true; report: EvaluationReport }
+  | Extract<EvaluationOutcome, { ok: false }>;
+
+/** The id of the copy of a cached report made for a user who did not run it; the same each time they are handed it. */
+export const reusedCopyId = (report: EvaluationReport, user: AuthUser) => `${report.id}.${sha256(user.id).slice(0, 12)}`;
+
+// Someone else's cached report, made the requester's own: under its own id,
+// so their review is saved and logged apart from the original's, and naming
+// the student by the requester's pseudonym.
+const copyFor = (report: EvaluationReport, user: AuthUser, request: EvaluationRequest): EvaluationReport => {
+  const pseudonym = request.studentPseudonym && isPseudonym(request.studentPseudonym) ? request.studentPseudonym : undefined;
+  const renamed = pseudonym ? { ...mapReportText(report, text => text.replace(PSEUDONYM_PATTERN, pseudonym)), studentId: pseudonym } : report;
+  return { ...renamed, id: reusedCopyId(report, user), generatedBy: user };
+};
+
+/**
+ * Returns the latest report for the same inputs if there is one, unless the
+ * request asks to re-evaluate. Otherwise runs the evaluation, logs it and
+ * adds it to the cache as the next version. Every report handed out has an
+ * audit entry, and is in the shared report history as the copy later edits
+ * are logged against. A cache hit goes to whoever ran the report as it is;
+ * anyone else gets their own copy, logged as reused from it.
+ */
+export const runCachedEvaluation = async (request: EvaluationRequest, user: AuthUser, context: EvaluationContext = {}): Promise<CachedOutcome> => {
+  const cache = openEvaluationCache(context.event);
+  const audit = openAuditLog(context.event);
+  const reports = openReportStore(context.event);
+  const digests = await digestInputs(request, context.event);
+  const key = evaluationKey(request, digests);
+  const previous = key ? await cache.latest(key) : null;
+
+  if (previous && !request.reevaluate) {
+    const report = previous.generatedBy?.id === user.id ? previous : copyFor(previous, user, request);
+    await audit.append(report.id!, "reused", user, {
+      evaluationKey: key,
+      version: previous.version,
+      ...(report === previous ? {} : { copiedFrom: previous.id }),
+      ...(context.jobId ? { jobId: context.jobId } : {}),
+      reportSha256: hashJson(report)
+    });
+    // A copy handed out before keeps the review made of it since.
+    await reports.addGenerated(report);
+    return { ok: true, report: (await reports.get(report.id!))?.report ?? report };
+  }
+
+  const outcome = await runEvaluation(request, context.onStage, context.live, digests);
+  if (outcome.ok === false) return outcome;
+
+  // Re-evaluations finishing together each take the next free version.
+  let report: EvaluationReport = { ...outcome.report, generatedBy: user };
+  for (let attempt = 1, latest = previous; key; attempt++) {
+    report = { ...report, evaluationKey: key, version: (latest?.version ?? 0) + 1 };
+    if (await cache.add(report)) break;
+    if (attempt >= MAX_ADD_ATTEMPTS) throw new Error("Could not add the report to the evaluation cache; other evaluations of the same files kept taking its version.");
+    latest = await cache.latest(key);
+  }
+
+  // A report that cannot be logged is not returned, or kept.
+  try {
+    await recordEvaluation(audit, report, outcome.trace, user, context.jobId);
+  } catch (error) {
+    if (key) await cache.withdraw(report);
+    throw error;
+  }
+  await reports.addGenerated(report);
+  return { ok: true, report };
+};
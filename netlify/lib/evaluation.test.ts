@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { DocumentInput, EvaluationRequest } from "../../types";
+import { runEvaluation } from "./evaluation";
+
+const doc = (name: string): DocumentInput => ({ name, mimeType: "application/pdf", data: Buffer.from(name).toString("base64") });
+
+const request = (overrides: Partial<EvaluationRequest> = {}): EvaluationRequest => ({
+  questionPaper: doc("question-paper.pdf"),
+  markingScheme: doc("marking-scheme.pdf"),
+  studentScript: doc("script.pdf"),
+  humanFeedback: doc("feedback.pdf"),
+  modelOptions: { provider: "mock", model: "upper-limb" },
+  ...overrides
+});
+
+afterEach(() => vi.restoreAllMocks());
+
+describe("runEvaluation", () => {
+  it("scores a well-formed report and traces its inputs", async () => {
+    const stages: string[] = [];
+    const outcome = await runEvaluation(request(), stage => { stages.push(stage); });
+
+    expect(outcome.ok).toBe(true);
+    if (outcome.ok === false) return;
+    expect(outcome.report.examReference).toBe("Anatomy Sessional I — Upper Limb");
+    expect(outcome.report.scoreVerification).toMatchObject({ status: "Correct", calculatedTotal: 14.5, reportedTotal: 14.5, maxTotal: 20 });
+    expect(outcome.report.review?.state).toBe("draft");
+    expect(outcome.trace.provider).toBe("mock");
+    expect(outcome.trace.attempts).toBe(1);
+    expect(outcome.report.promptSha256).toMatch(/^[0-9a-f]{64}$/);
+    expect(outcome.trace.promptSha256).toBe(outcome.report.promptSha256);
+    expect(Object.keys(outcome.trace.inputs)).toEqual(["questionPaper", "markingScheme", "studentScript", "humanFeedback"]);
+    expect(stages).toEqual(["extracting", "scoring", "enhancing", "verifying"]);
+  });
+
+  it("re-prompts once, then fails with 502 when the report is still malformed", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const outcome = await runEvaluation(request({ modelOptions: { provider: "mock", model: "malformed" } }));
+
+    expect(outcome.ok).toBe(false);
+    if (outcome.ok === true) return;
+    expect(outcome.statusCode).toBe(502);
+    expect(outcome.validationErrors?.length).toBeGreaterThan(0);
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects a request with missing documents before calling the model", async () => {
+    const outcome = await runEvaluation(request({ studentScript: undefined, markingScheme: { name: "empty.pdf", mimeType: "application/pdf" } }));
+
+    expect(outcome).toEqual({ ok: false, statusCode: 400, error: "Missing input documents: MARKING SCHEME, STUDENT ANSWER SCRIPT." });
+  });
+
+  it("rejects an unknown provider", async () => {
+    const outcome = await runEvaluation(request({ modelOptions: { provider: "nonesuch" } }));
+
+    expect(outcome.ok).toBe(false);
+    if (outcome.ok === true) return;
+    expect(outcome.statusCode).toBe(400);
+    expect(outcome.error).toMatch(/Unknown evaluation provider "nonesuch"/);
+  });
+});
@@ -0,0 +1,291 @@
+import { verifyScores } from "../../services/scoring";
+import { alignReportToTemplate, describeTemplate } from "../../services/examTemplate";
+import { applyGroundingPolicy } from "../../services/grounding";
+import { applyModeration } from "../../services/moderation";
+import { applyStructuredFeedback, describeStructuredFeedback, validateStructuredFeedback } from "../../services/structuredFeedback";
+import { formatValidationErrors, parseReport, validateReport } from "../../services/reportSchema";
+import { completedRows } from "../../services/partialReport";
+import { isPseudonym, referenceFor } from "../../services/pseudonyms";
+import { EXAM_FORMAT_LABELS, latestProfiles, profileRef, resolveProfile } from "../../services/promptProfiles";
+import { DocumentDigest, DocumentInput, EvaluationReport, EvaluationRequest, EvaluationTrace, ExamFormat, JobStage, PromptProfile, QuestionFeedback, ReportValidationError, TokenUsage } from "../../types";
+import { ModelResponse, PROVIDER_NAMES, PromptPart, PromptTurn, ReportStream, getProvider } from "./providers";
+import { digestInputs, hashJson, sha256 } from "./audit";
+
+// How the answers reach us differs by exam format; the rest of the brief does not.
+const SCRIPT_DESCRIPTIONS: Record<ExamFormat, string> = {
+  theory: "The student's handwritten answers",
+  viva: "The examiner's record of the student's viva responses",
+  ospe: "The student's answers at each practical (OSPE) station"
+};
+
+const systemInstruction = (profile: PromptProfile) => `
+You are an AI Academic Evaluation Assistant for ${profile.subject} Education. The exam is a ${EXAM_FORMAT_LABELS[profile.examFormat].toLowerCase()}.
+
+MISSION:
+Analyze four labelled inputs:
+1. "Question Paper": The examination paper with question numbers and maximum marks (PDF).
+2. "Marking Scheme": The official answer key with the expected points per question (PDF).
+3. "Student Answer Script": ${SCRIPT_DESCRIPTIONS[profile.examFormat]} (PDF, or page images each preceded by its page number; blank pages are left out, so numbers may skip).
+4. "Evaluator Feedback": Contains the human teacher's scores and initial comments (Word, PDF, or page images each preceded by its page number).
+
+TASK OBJECTIVES:
+A. DATA EXTRACTION: Extract individual marks and comments per question exactly as provided by the human evaluator. Record the evaluator's name as evaluatorName if it appears in the feedback; otherwise leave it empty.
+B. AI ENHANCEMENT: Take keyAnswerPoints for each question from the Marking Scheme only. Cross-reference the Student Answer Script against them. Add a new "AI Feedback Addition" for EACH question. This must be a concise (${profile.additionLength}) technical ${profile.subject} suggestion or clarification that adds value to the student's learning. Cite the grounds for every addition in aiEvidence: the Student Answer Script page(s) the answer appears on (source "studentScript" with page) and/or the Marking Scheme point quoted verbatim (source "markingScheme" with quote). Do not make a suggestion you cannot cite.
+C. FEEDBACK ELABORATION: Locate the generalized overall feedback in the manual evaluator report. ELABORATE this summary into a ${profile.synthesisSentences.min}-${profile.synthesisSentences.max} sentence synthesis. It should maintain the original human evaluator's sentiment but refine it into ${profile.tone}.
+D. SCORE EXTRACTION: Extract the total reported by the human evaluator exactly as written. Record marks exactly as written (e.g. "2½", "3/5", "NA"); do not add them up yourself. If the question paper has choice sections (e.g. "Attempt any 3 of 5"), list each one under optionalSections with its question numbers and how many must be attempted.
+E. PATTERN RECOGNITION: Summarize ${profile.observationCount} critical high-level performance observations, each with evidence references in the same form as aiEvidence.
+
+OUTPUT: Return strictly valid JSON matching the expected report structure.
+`;
+
+const SECOND_MARKER_INSTRUCTION = `
+SECOND MARKER:
+Also mark each question yourself as an independent second marker, without regard to the human evaluator's mark. For each question give secondMarker with suggestedMark (on the same scale as maxMarks), a one or two sentence rationale naming which keyAnswerPoints the answer does and does not cover, and confidence ("low", "medium" or "high") reflecting how legible and complete the answer is. Never change marksAwarded; it must remain the human evaluator's mark.
+`;
+
+const STRUCTURED_FEEDBACK_INSTRUCTION = "The evaluator entered their marks and comments in the app; they are given below as JSON instead of a feedback document. Use these question numbers, copy marksAwarded and humanFeedback verbatim, take evaluatorName and the reported total from here, and elaborate overallFeedback for objective C.";
+
+const pseudonymInstruction = (pseudonym: string) => `STUDENT IDENTITY:
+The student's name, roll number and signature have been masked in these documents. Refer to the student only as ${pseudonym}, do not try to recover the masked details, and keep examReference to the exam itself.`;
+
+const TEMPLATE_INSTRUCTION = "Report exactly one row per question below, in this order, using these question IDs verbatim and these maximum marks:";
+
+/**
+ * Hash of the instructions a request's prompt is built from, with the
+ * student's pseudonym as a placeholder. Reports with the same hash were asked
+ * the same way, even if the wording changed without a new profile version.
+ */
+export const promptSha256 = (request: EvaluationRequest, profile: PromptProfile) =>
+  sha256([
+    systemInstruction(profile),
+    request.secondMarker ? SECOND_MARKER_INSTRUCTION : "",
+    request.studentPseudonym ? pseudonymInstruction("{pseudonym}") : "",
+    request.structuredFeedback ? STRUCTURED_FEEDBACK_INSTRUCTION : "",
+    request.template ? TEMPLATE_INSTRUCTION : ""
+  ].join("\n"));
+
+type DocumentKey = "questionPaper" | "markingScheme" | "studentScript" | "humanFeedback";
+
+const DOCUMENT_LABELS: Record<DocumentKey, string> = {
+  questionPaper: "QUESTION PAPER",
+  markingScheme: "MARKING SCHEME",
+  studentScript: "STUDENT ANSWER SCRIPT",
+  humanFeedback: "EVALUATOR FEEDBACK"
+};
+
+// Preprocessed scripts arrive as page images; each is labelled so citations use the original page numbers.
+const documentParts = (doc: DocumentInput): PromptPart[] =>
+  doc.pages?.length
+    ? doc.pages.flatMap(p => [
+      { text: `--- Page ${p.page} ---` },
+      { document: { name: `${doc.name} (page ${p.page})`, mimeType: p.mimeType, data: p.data } }
+    ])
+    : [{ document: doc }];
+
+const MAX_REPROMPTS = 1;
+
+const REPROMPT_INSTRUCTION = "Your previous response did not match the required report structure. Return the complete corrected JSON report, fixing these problems:";
+
+// Usage across every call for one report; unknown if any call went unreported.
+const addUsage = (total: TokenUsage | undefined, next: TokenUsage | undefined): TokenUsage | undefined =>
+  total && next && {
+    promptTokens: total.promptTokens + next.promptTokens,
+    responseTokens: total.responseTokens + next.responseTokens,
+    thinkingTokens: total.thinkingTokens === undefined && next.thinkingTokens === undefined ? undefined : (total.thinkingTokens ?? 0) + (next.thinkingTokens ?? 0),
+    totalTokens: total.totalTokens + next.totalTokens
+  };
+
+export type EvaluationOutcome =
+  | { ok: true; report: EvaluationReport; trace: EvaluationTrace }
+  | { ok: false; statusCode: number; error: string; validationErrors?: ReportValidationError[] };
+
+export interface LiveEvaluation {
+  /** Aborting stops the model request; runEvaluation then rejects with the abort reason. */
+  signal?: AbortSignal;
+  /** Called whenever another question row of the model's response is complete. */
+  onQuestions?: (rows: Partial<QuestionFeedback>[]) => void;
+}
+
+/**
+ * The full evaluation pipeline shared by the synchronous and background
+ * functions: input checks, the model call with one corrective re-prompt,
+ * template alignment, second-marker moderation and score verification.
+ */
+export const runEvaluation = async (
+  request: EvaluationRequest,
+  onStage: (stage: JobStage) => void | Promise<void> = () => {},
+  live: LiveEvaluation = {},
+  /** The request's digestInputs, where the caller has them already. */
+  digests?: Record<string, DocumentDigest>
+): Promise<EvaluationOutcome> => {
+  // Feedback entered in the app stands in for the feedback document.
+  const structured = request.structuredFeedback;
+  const documents = (Object.keys(DOCUMENT_LABELS) as DocumentKey[]).filter(key => !(structured && key === "humanFeedback"));
+  const missing = documents.filter(key => {
+    const doc = request[key];
+    return !doc || (!doc.data && !doc.fileUri && !doc.pages?.length);
+  });
+  if (missing.length) {
+    return { ok: false, statusCode: 400, error: `Missing input documents: ${missing.map(k => DOCUMENT_LABELS[k]).join(", ")}.` };
+  }
+
+  const formErrors = structured ? validateStructuredFeedback(structured) : [];
+  if (formErrors.length) {
+    return { ok: false, statusCode: 400, error: `The marking form is incomplete:\n${formErrors.join("\n")}` };
+  }
+
+  const tolerance = request.secondMarker?.tolerance;
+  if (request.secondMarker && (typeof tolerance !== "number" || !Number.isFinite(tolerance) || tolerance < 0)) {
+    return { ok: false, statusCode: 400, error: "The second-marker tolerance must be a number of marks, zero or more." };
+  }
+
+  const profile = resolveProfile(request.promptProfile);
+  if (!profile) {
+    const { id, version } = request.promptProfile!;
+    return {
+      ok: false,
+      statusCode: 400,
+      error: `Unknown prompt profile "${id}"${version === undefined ? "" : ` version ${version}`}. Available: ${latestProfiles().map(p => p.id).join(", ")}.`
+    };
+  }
+
+  if (request.studentPseudonym !== undefined && !isPseudonym(request.studentPseudonym)) {
+    return { ok: false, statusCode: 400, error: "studentPseudonym must be a pseudonym such as ANON-7KQ2MX, never a name or roll number." };
+  }
+
+  const dropped = request.droppedBlankPages;
+  if (dropped !== undefined && !(Array.isArray(dropped) && dropped.every(page => Number.isInteger(page) && page > 0))) {
+    return { ok: false, statusCode: 400, error: "droppedBlankPages must list page numbers, counting from 1." };
+  }
+
+  const modelOptions = request.modelOptions || {};
+  const provider = getProvider(modelOptions.provider);
+  if (!provider) {
+    return { ok: false, statusCode: 400, error: `Unknown evaluation provider "${modelOptions.provider}". Available: ${PROVIDER_NAMES.join(", ")}.` };
+  }
+
+  const prompt: PromptTurn = {
+    role: "user",
+    parts: [
+      { text: systemInstruction(profile) },
+      ...(request.secondMarker ? [{ text: SECOND_MARKER_INSTRUCTION }] : []),
+      ...(request.studentPseudonym ? [{ text: pseudonymInstruction(request.studentPseudonym) }] : []),
+      ...documents.flatMap(key => [
+        { text: `=== ${DOCUMENT_LABELS[key]}: ${request[key]!.name} ===` },
+        ...documentParts(request[key]!)
+      ]),
+      ...(structured ? [{
+        text: `=== ${DOCUMENT_LABELS.humanFeedback} (ENTERED IN APP) ===\n${STRUCTURED_FEEDBACK_INSTRUCTION}\n${describeStructuredFeedback(structured)}`
+      }] : []),
+      ...(request.template ? [{
+        text: `=== EXAM TEMPLATE ===\n${TEMPLATE_INSTRUCTION}\n${describeTemplate(request.template)}`
+      }] : [])
+    ]
+  };
+
+  let streamed = 0;
+  const stream: ReportStream = {
+    signal: live.signal,
+    onText: text => {
+      const rows = completedRows(text);
+      if (rows.length <= streamed) return;
+      streamed = rows.length;
+      live.onQuestions?.(rows);
+    }
+  };
+
+  const startedAt = new Date().toISOString();
+  await onStage("extracting");
+  const first = await provider.generateReport([prompt], modelOptions, stream);
+  let response: ModelResponse = first;
+  let usage = first.usage;
+  let attempts = 1;
+  let parsed = parseReport(first.text);
+
+  // One corrective round: show the model its own output and what was wrong with it.
+  for (let attempt = 0; parsed.ok === false && attempt < MAX_REPROMPTS; attempt++) {
+    console.warn("Evaluation response failed validation, re-prompting:", parsed.errors);
+    response = await provider.generateReport([
+      prompt,
+      { role: "model", parts: [{ text: first.text || "" }] },
+      { role: "user", parts: [{ text: `${REPROMPT_INSTRUCTION}\n${formatValidationErrors(parsed.errors)}` }] }
+    ], modelOptions, { signal: live.signal });
+    usage = addUsage(usage, response.usage);
+    attempts++;
+    parsed = parseReport(response.text);
+  }
+
+  if (parsed.ok === false) {
+    return {
+      ok: false,
+      statusCode: 502,
+      error: "The evaluation model returned a report that does not match the expected structure.",
+      validationErrors: parsed.errors
+    };
+  }
+
+  const inputs = digests ?? await digestInputs(request);
+
+  // Totals and audit status are recomputed here; the model only extracts marks.
+  await onStage("scoring");
+  const entered = structured ? applyStructuredFeedback(parsed.report, structured) : parsed.report;
+  const aligned = request.template
+    ? alignReportToTemplate(entered, request.template)
+    : { report: entered, discrepancies: [] };
+  const scoreVerification = verifyScores(
+    aligned.report.questionWiseFeedback,
+    aligned.report.scoreVerification.reportedTotal,
+    {
+      optionalSections: aligned.report.optionalSections || [],
+      expectedMaxTotal: request.template?.totalMarks,
+      discrepancies: aligned.discrepancies
+    }
+  );
+
+  // What the model adds on top of the marks: its cited additions, the second
+  // marker's suggestions, and key points where the profile shows them.
+  await onStage("enhancing");
+  const grounded = applyGroundingPolicy(aligned.report, process.env.GROUNDING_POLICY === "drop" ? "drop" : "flag", {
+    scriptPages: request.studentScript!.pages?.map(p => p.page),
+    schemeText: request.markingScheme!.text
+  });
+  const moderated = applyModeration(grounded, request.secondMarker);
+  const scored: EvaluationReport = {
+    ...moderated,
+    questionWiseFeedback: profile.includeKeyPoints
+      ? moderated.questionWiseFeedback
+      : moderated.questionWiseFeedback.map(q => ({ ...q, keyAnswerPoints: "" })),
+    promptProfile: profileRef(profile),
+    promptSha256: promptSha256(request, profile),
+    id: crypto.randomUUID(),
+    examId: hashJson([inputs.questionPaper, inputs.markingScheme].map(d => d.sha256 || d.fileUri)),
+    ...(request.studentPseudonym ? { studentId: request.studentPseudonym, examReference: referenceFor(moderated.examReference, request.studentPseudonym) } : {}),
+    evaluatedAt: new Date().toISOString(),
+    ...(dropped?.length ? { droppedBlankPages: dropped } : {}),
+    scoreVerification,
+    review: { state: "draft", fieldOrigins: {}, edits: [] }
+  };
+
+  await onStage("verifying");
+  const final = validateReport(scored);
+  if (final.ok === false) {
+    return { ok: false, statusCode: 500, error: "The scored report failed its final consistency check.", validationErrors: final.errors };
+  }
+
+  const trace: EvaluationTrace = {
+    inputs,
+    provider: provider.name,
+    model: modelOptions.model || provider.defaultModel,
+    thinkingBudget: modelOptions.thinkingBudget,
+    promptProfile: profileRef(profile),
+    promptSha256: scored.promptSha256!,
+    templateId: request.template?.id,
+    secondMarker: request.secondMarker,
+    attempts,
+    usage,
+    responseSha256: sha256(response.text || ""),
+    startedAt,
+    completedAt: new Date().toISOString()
+  };
+  return { ok: true, report: final.report, trace };
+};
@@ -0,0 +1,56 @@
+import { connectLambda, getStore } from "@netlify/blobs";
+import { AuthUser, EvaluationJob, EvaluationRequest, JobStatus } from "../../types";
+import { can } from "../../services/roles";
+
+const STORE_NAME = "evaluation-jobs";
+
+export const FINISHED_STATUSES: JobStatus[] = ["completed", "failed", "cancelled"];
+
+// A job's report is the student's record; only whoever ran it, or an admin, may follow or stop it.
+export const canAccessJob = (job: EvaluationJob, user: AuthUser) => job.requestedBy?.id === user.id || can(user, "administer");
+
+/**
+ * Job records and their pending requests, kept in Netlify Blobs so the
+ * background function and the status endpoint see the same state. Requests
+ * carry the uploaded documents and are deleted once the job finishes.
+ * Streaming functions pass no event; Blobs is configured for them already.
+ */
+export const openJobStore = (event?: any) => {
+  if (event) connectLambda(event);
+  const store = getStore(STORE_NAME);
+
+  const getJob = async (id: string) => (await store.get(`jobs/${id}`, { type: "json" })) as EvaluationJob | null;
+
+  const saveJob = async (job: EvaluationJob) => {
+    await store.setJSON(`jobs/${job.id}`, job);
+    return job;
+  };
+
+  return {
+    getJob,
+
+    async createJob(request: EvaluationRequest, requestedBy: AuthUser) {
+      const now = new Date().toISOString();
+      const job: EvaluationJob = { id: crypto.randomUUID(), status: "queued", createdAt: now, updatedAt: now, requestedBy };
+      await store.setJSON(`requests/${job.id}`, request);
+      return saveJob(job);
+    },
+
+    async updateJob(id: string, patch: Partial<EvaluationJob>) {
+      const job = await getJob(id);
+      if (!job) throw new Error(`Job ${id} not found.`);
+      return saveJob({ ...job, ...patch, updatedAt: new Date().toISOString() });
+    },
+
+    // Kept apart from the job record, which the background function rewrites
+    // on every update and would otherwise overwrite a cancellation.
+    requestCancel: (id: string) => store.set(`cancel/${id}`, new Date().toISOString()),
+    isCancelRequested: async (id: string) => (await store.get(`cancel/${id}`)) !== null,
+
+    takeRequest: async (id: string) => (await store.get(`requests/${id}`, { type: "json" })) as EvaluationRequest | null,
+    async dropRequest(id: string) {
+      await store.delete(`requests/${id}`);
+      await store.delete(`cancel/${id}`);
+    }
+  };
+};
@@ -0,0 +1,124 @@
+// Canned model responses for the mock provider, in the raw shape the model
+// returns (marks as written, no computed totals). "upper-limb" adds up;
+// "thorax" carries an over-award, a total mismatch and uncited additions so
+// the audit and grounding paths can be exercised; "malformed" fails
+// validation to exercise the 502 path.
+export const MOCK_FIXTURES: Record<string, unknown> = {
+  "upper-limb": {
+    examReference: "Anatomy Sessional I — Upper Limb",
+    evaluatorName: "Dr. A. Menon",
+    evaluationType: "Theory Paper Audit",
+    aiModelRole: "Mock Evaluation Provider (fixture: upper-limb)",
+    elaboratedGeneralisedFeedback:
+      "The candidate demonstrates a sound grasp of the brachial plexus and its clinical correlates. Descriptions of the rotator cuff are accurate but would benefit from explicit reference to the actions of each muscle. Diagrams are labelled clearly, though the cubital fossa diagram omits the relation of the median nerve. Overall, the script reflects consistent preparation with room to deepen applied reasoning.",
+    questionWiseFeedback: [
+      {
+        questionNo: "1",
+        maxMarks: "10",
+        marksAwarded: "7½",
+        keyAnswerPoints: "Roots, trunks, divisions, cords, branches; Erb's and Klumpke's palsy",
+        studentAnswerSummary: "Drew the plexus with roots to branches; described Erb's palsy posture.",
+        humanFeedback: "Good diagram. Klumpke's palsy not discussed.",
+        aiFeedbackAddition: "Add Klumpke's palsy (C8–T1) with claw hand and possible Horner's syndrome to complete the clinical picture.",
+        aiEvidence: [
+          { source: "studentScript", page: 2, quote: "Erb's palsy — waiter's tip" },
+          { source: "markingScheme", quote: "Erb's and Klumpke's palsy: 2 marks" }
+        ],
+        secondMarker: { suggestedMark: "7", rationale: "Plexus diagram and Erb's palsy cover most key points; Klumpke's palsy is absent.", confidence: "high" }
+      },
+      {
+        questionNo: "2a",
+        maxMarks: "5",
+        marksAwarded: "4",
+        keyAnswerPoints: "Supraspinatus, infraspinatus, teres minor, subscapularis; insertions; actions",
+        studentAnswerSummary: "Listed all four muscles and their insertions.",
+        humanFeedback: "Actions missing for teres minor.",
+        aiFeedbackAddition: "State that teres minor laterally rotates the humerus alongside infraspinatus.",
+        aiEvidence: [{ source: "markingScheme", quote: "Actions of each rotator cuff muscle" }],
+        secondMarker: { suggestedMark: "4", rationale: "All four muscles and insertions given; one action missing.", confidence: "high" }
+      },
+      {
+        questionNo: "2b",
+        maxMarks: "5",
+        marksAwarded: "3",
+        keyAnswerPoints: "Boundaries, roof, floor, contents of the cubital fossa (medial to lateral)",
+        studentAnswerSummary: "Gave boundaries and listed brachial artery and biceps tendon.",
+        humanFeedback: "Median nerve omitted from contents.",
+        aiFeedbackAddition: "Remember the contents medial to lateral: median nerve, brachial artery, biceps tendon, radial nerve.",
+        aiEvidence: [{ source: "studentScript", page: 4 }, { source: "markingScheme", quote: "Contents from medial to lateral" }],
+        secondMarker: { suggestedMark: "3½", rationale: "Boundaries are complete; contents list two of four structures.", confidence: "medium" }
+      }
+    ],
+    scoreVerification: { reportedTotal: "14½" },
+    finalizedFeedback: [
+      { section: "Neuroanatomy", observation: "Plexus anatomy is secure; clinical palsies are partially covered.", evidence: [{ source: "studentScript", page: 2 }] },
+      { section: "Musculoskeletal", observation: "Muscle attachments are accurate; actions are inconsistently stated.", evidence: [{ source: "studentScript", page: 3 }] },
+      { section: "Regional Anatomy", observation: "Boundaries are well described; contents lack ordered relations.", evidence: [{ source: "studentScript", page: 4 }] },
+      { section: "Presentation", observation: "Diagrams are neat and labelled, supporting the written answers.", evidence: [{ source: "studentScript", page: 1 }] }
+    ],
+    actionSummary: [
+      { task: "Extract human marks", status: "Completed", evidence: "Evaluator feedback, page 1" },
+      { task: "Cross-reference marking scheme", status: "Completed", evidence: "Marking scheme, Q1–Q2" },
+      { task: "Generate AI additions", status: "Completed", evidence: "Student script, pages 1–4" }
+    ]
+  },
+
+  thorax: {
+    examReference: "Anatomy Sessional II — Thorax",
+    evaluatorName: "Dr. R. Iyer",
+    evaluationType: "Theory Paper Audit",
+    aiModelRole: "Mock Evaluation Provider (fixture: thorax)",
+    elaboratedGeneralisedFeedback:
+      "The candidate shows reasonable familiarity with thoracic anatomy but the answers are uneven in depth. The coronary circulation is described well, whereas the mediastinal relations are presented without a clear spatial framework. Greater attention to the marking scheme's key points would improve consistency across questions.",
+    questionWiseFeedback: [
+      {
+        questionNo: "1",
+        maxMarks: "8",
+        marksAwarded: "9",
+        keyAnswerPoints: "Right and left coronary arteries, branches, areas supplied, dominance",
+        studentAnswerSummary: "Described both coronary arteries and major branches with a labelled diagram.",
+        humanFeedback: "Excellent answer.",
+        aiFeedbackAddition: "Mention coronary dominance and which artery supplies the SA and AV nodes in most individuals.",
+        aiEvidence: [{ source: "markingScheme", quote: "Coronary dominance" }],
+        secondMarker: { suggestedMark: "7", rationale: "Both arteries and branches described; dominance and nodal supply not mentioned.", confidence: "high" }
+      },
+      {
+        questionNo: "2",
+        maxMarks: "6",
+        marksAwarded: "3",
+        keyAnswerPoints: "Divisions of the mediastinum; contents of the superior and posterior mediastinum",
+        studentAnswerSummary: "Named the divisions and listed some contents of the superior mediastinum.",
+        humanFeedback: "Posterior mediastinum not covered.",
+        aiFeedbackAddition: "List the posterior mediastinal contents: descending aorta, oesophagus, thoracic duct, azygos system.",
+        secondMarker: { suggestedMark: "4", rationale: "Divisions correct and superior mediastinal contents partly listed.", confidence: "medium" }
+      },
+      {
+        questionNo: "3",
+        maxMarks: "6",
+        marksAwarded: "NA",
+        keyAnswerPoints: "Pleural recesses; surface marking of the pleura and lungs",
+        studentAnswerSummary: "",
+        humanFeedback: "Not attempted.",
+        aiFeedbackAddition: "Practise the surface markings at the midclavicular, midaxillary and paravertebral lines.",
+        secondMarker: { suggestedMark: "0", rationale: "No answer on the script.", confidence: "high" }
+      }
+    ],
+    scoreVerification: { reportedTotal: "13" },
+    finalizedFeedback: [
+      { section: "Cardiac Anatomy", observation: "Coronary anatomy is strong and well illustrated." },
+      { section: "Mediastinum", observation: "Relations are listed rather than organised spatially." },
+      { section: "Surface Anatomy", observation: "Pleural surface marking was not attempted." },
+      { section: "Marking Consistency", observation: "One question appears to have been awarded above its maximum." }
+    ],
+    actionSummary: [
+      { task: "Extract human marks", status: "Completed", evidence: "Evaluator feedback, page 1" },
+      { task: "Cross-reference marking scheme", status: "Completed", evidence: "Marking scheme, Q1–Q3" }
+    ]
+  },
+
+  malformed: {
+    examReference: "Malformed fixture",
+    questionWiseFeedback: [],
+    finalizedFeedback: "not a list"
+  }
+};
@@ -0,0 +1,93 @@
+import { Content, GenerateContentResponseUsageMetadata, GoogleGenAI, Part, Schema, Type } from "@google/genai";
+import { FieldSpec, REPORT_SCHEMA } from "../../../services/reportSchema";
+import { TokenUsage } from "../../../types";
+import { EvaluationProvider, PromptPart } from "./types";
+
+const DEFAULT_MODEL = "gemini-3-pro-preview";
+const DEFAULT_THINKING_BUDGET = 32768;
+
+const SCHEMA_TYPES: Record<FieldSpec["kind"], Type> = {
+  string: Type.STRING,
+  mark: Type.STRING,
+  number: Type.NUMBER,
+  array: Type.ARRAY,
+  object: Type.OBJECT
+};
+
+// Marks are requested as strings so the model copies them exactly as written.
+const toResponseSchema = (spec: FieldSpec): Schema => {
+  if (spec.kind === "array") return { type: Type.ARRAY, items: toResponseSchema(spec.items!) };
+  if (spec.enum) return { type: Type.STRING, format: "enum", enum: spec.enum };
+  if (spec.kind !== "object") return { type: SCHEMA_TYPES[spec.kind] };
+  const fields = Object.entries(spec.properties!).filter(([, field]) => !field.derived);
+  return {
+    type: Type.OBJECT,
+    properties: Object.fromEntries(fields.map(([key, field]) => [key, toResponseSchema(field)])),
+    required: fields.filter(([, field]) => !field.optional).map(([key]) => key)
+  };
+};
+
+const toPart = (part: PromptPart): Part => {
+  if ("text" in part) return { text: part.text };
+  const doc = part.document;
+  return doc.fileUri
+    ? { fileData: { fileUri: doc.fileUri, mimeType: doc.mimeType } }
+    : { inlineData: { data: doc.data, mimeType: doc.mimeType } };
+};
+
+const toUsage = (metadata?: GenerateContentResponseUsageMetadata): TokenUsage | undefined =>
+  metadata && {
+    promptTokens: metadata.promptTokenCount ?? 0,
+    responseTokens: metadata.candidatesTokenCount ?? 0,
+    thinkingTokens: metadata.thoughtsTokenCount,
+    totalTokens: metadata.totalTokenCount ?? 0
+  };
+
+export const createGeminiProvider = (): EvaluationProvider => {
+  // The API key is retrieved from Netlify's environment variables
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+
+  return {
+    name: "gemini",
+    defaultModel: process.env.GEMINI_MODEL || DEFAULT_MODEL,
+
+    async generateReport(turns, options, stream) {
+      const request = {
+        model: options.model || this.defaultModel,
+        contents: turns.map((turn): Content => ({ role: turn.role, parts: turn.parts.map(toPart) })),
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: toResponseSchema(REPORT_SCHEMA),
+          thinkingConfig: { thinkingBudget: options.thinkingBudget ?? DEFAULT_THINKING_BUDGET }
+        }
+      };
+      if (!stream) {
+        const response = await ai.models.generateContent(request);
+        return { text: response.text, usage: toUsage(response.usageMetadata) };
+      }
+
+      // Aborting closes the streaming connection, which ends generation upstream.
+      const chunks = await ai.models.generateContentStream({ ...request, config: { ...request.config, abortSignal: stream.signal } });
+      let text = "";
+      let usage: TokenUsage | undefined;
+      for await (const chunk of chunks) {
+        text += chunk.text ?? "";
+        // Each chunk reports the running totals, so the last one counts the whole response.
+        usage = toUsage(chunk.usageMetadata) ?? usage;
+        stream.onText?.(text);
+      }
+      return { text, usage };
+    },
+
+    async uploadDocument(doc) {
+      const file = await ai.files.upload({
+        file: new Blob([Buffer.from(doc.data!, "base64")], { type: doc.mimeType }),
+        config: { mimeType: doc.mimeType, displayName: doc.name }
+      });
+      return {
+        document: { name: doc.name, mimeType: doc.mimeType, fileUri: file.uri },
+        expiresAt: file.expirationTime
+      };
+    }
+  };
+};
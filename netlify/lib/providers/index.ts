@@ -0,0 +1,21 @@
+import { createGeminiProvider } from "./gemini";
+import { createMockProvider } from "./mock";
+import { EvaluationProvider } from "./types";
+
+export type { EvaluationProvider, ModelResponse, PromptPart, PromptTurn, ReportStream, UploadedDocument } from "./types";
+
+const PROVIDERS: Record<string, () => EvaluationProvider> = {
+  gemini: createGeminiProvider,
+  mock: createMockProvider
+};
+
+export const PROVIDER_NAMES = Object.keys(PROVIDERS);
+
+/**
+ * Resolves the request's provider, falling back to EVALUATION_PROVIDER and
+ * then Gemini. Returns null for an unknown name.
+ */
+export const getProvider = (name?: string): EvaluationProvider | null => {
+  const create = PROVIDERS[(name || process.env.EVALUATION_PROVIDER || "gemini").toLowerCase()];
+  return create ? create() : null;
+};
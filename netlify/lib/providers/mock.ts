@@ -0,0 +1,43 @@
+import { MOCK_FIXTURES } from "./fixtures";
+import { EvaluationProvider, PromptTurn } from "./types";
+
+// Fixtures picked automatically; "malformed" is only returned when asked for by name.
+const ROTATION = Object.keys(MOCK_FIXTURES).filter(name => name !== "malformed");
+
+const hash = (s: string) => [...s].reduce((h, c) => (h * 31 + c.charCodeAt(0)) >>> 0, 7);
+
+const STREAM_CHUNK_LENGTH = 400;
+const STREAM_CHUNK_DELAY_MS = 150;
+
+const documentNames = (turns: PromptTurn[]) =>
+  turns.flatMap(turn => turn.parts.flatMap(part => ("document" in part ? [part.document.name] : []))).join("|");
+
+/**
+ * Offline provider for local runs and tests. The model name selects a
+ * fixture; otherwise one is chosen from the document names, so the same
+ * uploads always produce the same report.
+ */
+export const createMockProvider = (): EvaluationProvider => ({
+  name: "mock",
+  defaultModel: "auto",
+
+  async generateReport(turns, options, stream) {
+    const fixture = options.model && options.model in MOCK_FIXTURES
+      ? options.model
+      : ROTATION[hash(documentNames(turns)) % ROTATION.length];
+    const text = JSON.stringify(MOCK_FIXTURES[fixture]);
+    if (!stream) return { text };
+
+    // Streamed in slices with a pause between them, so progress and cancelling can be tried offline.
+    for (let end = STREAM_CHUNK_LENGTH; ; end += STREAM_CHUNK_LENGTH) {
+      stream.signal?.throwIfAborted();
+      stream.onText?.(text.slice(0, end));
+      if (end >= text.length) return { text };
+      await new Promise(resolve => setTimeout(resolve, STREAM_CHUNK_DELAY_MS));
+    }
+  },
+
+  async uploadDocument(doc) {
+    return { document: doc };
+  }
+});
@@ -0,0 +1,42 @@
+import { DocumentInput, ModelOptions, TokenUsage } from "../../../types";
+
+export type PromptPart = { text: string } | { document: DocumentInput };
+
+export interface PromptTurn {
+  role: "user" | "model";
+  parts: PromptPart[];
+}
+
+export interface UploadedDocument {
+  document: DocumentInput;
+  expiresAt?: string;
+}
+
+/**
+ * Lets a caller watch the response as it is generated and stop it early.
+ * Aborting the signal must also abort the upstream model request.
+ */
+export interface ReportStream {
+  signal?: AbortSignal;
+  /** Called with the full response text so far each time more arrives. */
+  onText?: (text: string) => void;
+}
+
+export interface ModelResponse {
+  text?: string;
+  /** Omitted when the provider does not report usage. */
+  usage?: TokenUsage;
+}
+
+/**
+ * A backend that can turn the evaluation prompt into report JSON. Providers
+ * return the raw response text; parsing, validation and scoring stay in the
+ * handler so every provider is held to the same checks.
+ */
+export interface EvaluationProvider {
+  name: string;
+  defaultModel: string;
+  generateReport(turns: PromptTurn[], options: ModelOptions, stream?: ReportStream): Promise<ModelResponse>;
+  /** Stores a document for reuse across requests, or returns it unchanged if the provider has no file store. */
+  uploadDocument(doc: DocumentInput): Promise<UploadedDocument>;
+}
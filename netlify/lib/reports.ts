@@ -0,0 +1,54 @@
+import { connectLambda, getStore } from "@netlify/blobs";
+import { AuthUser, EvaluationReport, StoredReport } from "../../types";
+import { getReview } from "../../services/review";
+import { can } from "../../services/roles";
+
+const STORE_NAME = "reports";
+
+// Whoever generated a report owns the shared copy.
+export const ownedBy = (entry: StoredReport, user: AuthUser) => entry.report.generatedBy?.id === user.id;
+
+// Moderators and admins see every shared report; evaluators see their own.
+export const visibleTo = (entry: StoredReport, user: AuthUser) => ownedBy(entry, user) || can(user, "moderate");
+
+/** A history entry for a report, in the shape the browser keeps it. */
+export const storedReport = (report: EvaluationReport): StoredReport => ({
+  id: report.id!,
+  examReference: report.examReference,
+  studentId: report.studentId,
+  reviewState: getReview(report).state,
+  evaluatedAt: report.evaluatedAt!,
+  updatedAt: new Date().toISOString(),
+  archived: false,
+  report
+});
+
+/**
+ * The shared report history, in Netlify Blobs. The evaluation functions put
+ * each report here as generated, so every later save from the browser has a
+ * stored copy to be compared with and logged against.
+ */
+export const openReportStore = (event?: any) => {
+  if (event) connectLambda(event);
+  const store = getStore(STORE_NAME);
+
+  return {
+    get: async (id: string) => (await store.get(id, { type: "json" })) as StoredReport | null,
+
+    async list() {
+      const { blobs } = await store.list();
+      return ((await Promise.all(blobs.map(b => store.get(b.key, { type: "json" })))) as (StoredReport | null)[]).filter(Boolean) as StoredReport[];
+    },
+
+    async put(entry: StoredReport) {
+      await store.setJSON(entry.id, entry);
+    },
+
+    // Puts back a cached report whose entry was deleted; one that is there, with its edits, is left alone.
+    async addGenerated(report: EvaluationReport) {
+      await store.setJSON(report.id!, storedReport(report), { onlyIfNew: true });
+    },
+
+    delete: (id: string) => store.delete(id)
+  };
+};
@@ -0,0 +1,251 @@
+import { EvaluationReport } from '../types';
+import { normalizeQuestionNo, parseMark } from './scoring';
+import { additionDecision } from './review';
+import { examTitle } from './pseudonyms';
+
+/** Share-of-maximum bands used for the per-question distribution. */
+export const SCORE_BANDS = ['0–20%', '20–40%', '40–60%', '60–80%', '80–100%'];
+
+export interface QuestionStats {
+  questionNo: string;
+  maxMarks: number | null;
+  attempted: number;
+  notAttempted: number;
+  mean: number;
+  median: number;
+  /** Mean share of the maximum, 0–1; null when the maximum is unknown. */
+  meanShare: number | null;
+  /** Mean marks lost per attempting student. */
+  meanLost: number | null;
+  /** Student counts per entry of SCORE_BANDS. */
+  distribution: number[];
+}
+
+export interface MisconceptionCluster {
+  term: string;
+  students: number;
+  questionNos: string[];
+  examples: string[];
+}
+
+export interface EvaluatorStats {
+  evaluator: string;
+  reports: number;
+  flagged: number;
+  rate: number;
+  /** Error-level discrepancy counts by type. */
+  byType: Record<string, number>;
+}
+
+export interface CohortAnalytics {
+  students: number;
+  meanTotal: number;
+  meanShare: number | null;
+  questions: QuestionStats[];
+  /** Questions with the most marks lost per attempting student. */
+  hardestQuestions: QuestionStats[];
+  misconceptions: MisconceptionCluster[];
+  evaluators: EvaluatorStats[];
+}
+
+const UNKNOWN_EVALUATOR = 'Unnamed evaluator';
+
+const round = (n: number) => Math.round(n * 100) / 100;
+const mean = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+const median = (values: number[]) => {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+const band = (share: number) => Math.min(SCORE_BANDS.length - 1, Math.max(0, Math.floor(share * SCORE_BANDS.length)));
+
+const mostCommon = <T>(values: T[]): T | undefined => {
+  const counts = new Map<T, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+};
+
+export interface ExamGroup {
+  key: string;
+  /** The exam reference most of the group's reports give. */
+  label: string;
+  reports: EvaluationReport[];
+}
+
+// The exam reference is whatever the model read off the paper, so two
+// spellings of one exam would split it; the template, or failing that the
+// question paper and marking scheme, identify it. Reports from before exam
+// ids fall back to the reference.
+const examKey = (report: EvaluationReport) =>
+  report.templateId ? `template:${report.templateId}`
+    : report.examId ? `exam:${report.examId}`
+      : `reference:${examTitle(report.examReference).toLowerCase().replace(/\s+/g, ' ')}`;
+
+/** Groups reports by the exam they were marked against, largest group first. */
+export const groupByExam = (reports: EvaluationReport[]): ExamGroup[] => {
+  const groups = new Map<string, EvaluationReport[]>();
+  for (const report of reports) {
+    const key = examKey(report);
+    groups.set(key, [...(groups.get(key) || []), report]);
+  }
+  return [...groups.entries()]
+    .map(([key, members]) => ({ key, label: mostCommon(members.map(r => examTitle(r.examReference)).filter(Boolean)) || 'Untitled exam', reports: members }))
+    .sort((a, b) => b.reports.length - a.reports.length || a.label.localeCompare(b.label));
+};
+
+export const questionStats = (reports: EvaluationReport[]): QuestionStats[] => {
+  const rows = new Map<string, { label: string; awarded: number[]; max: (number | null)[]; notAttempted: number }>();
+
+  for (const report of reports) {
+    for (const q of report.questionWiseFeedback) {
+      const key = normalizeQuestionNo(q.questionNo);
+      const row = rows.get(key) || { label: q.questionNo, awarded: [], max: [], notAttempted: 0 };
+      const awarded = parseMark(q.marksAwarded);
+      row.max.push(parseMark(q.maxMarks).value ?? awarded.outOf ?? null);
+      if (awarded.value === null) row.notAttempted++;
+      else row.awarded.push(awarded.value);
+      rows.set(key, row);
+    }
+  }
+
+  return [...rows.values()].map(row => {
+    // Templates keep the maximum consistent; without one, trust the majority.
+    const maxMarks = mostCommon(row.max.filter((m): m is number => m !== null)) ?? null;
+    const distribution = SCORE_BANDS.map(() => 0);
+    if (maxMarks) row.awarded.forEach(a => distribution[band(a / maxMarks)]++);
+    const avg = mean(row.awarded);
+    return {
+      questionNo: row.label,
+      maxMarks,
+      attempted: row.awarded.length,
+      notAttempted: row.notAttempted,
+      mean: round(avg),
+      median: round(median(row.awarded)),
+      meanShare: maxMarks ? round(avg / maxMarks) : null,
+      meanLost: maxMarks && row.awarded.length ? round(maxMarks - avg) : null,
+      distribution
+    };
+  });
+};
+
+// General English function words, then the words examiners use about any answer.
+const ENGLISH_STOPWORDS =
+  'a about above after again against all am an and any are as at be because been before being below between both but by ' +
+  'can cannot could did do does doing down during each either else ever every few for from further had has have having ' +
+  'he her here hers herself him himself his how however i if in into is it its itself just least less let like many may ' +
+  'me might more most much must my myself neither no nor not now of off often on once only or other otherwise ought our ' +
+  'ours ourselves out over own per quite rather same several shall she should since so some such than that the their ' +
+  'theirs them themselves then there therefore these they this those though through thus to too under until up upon ' +
+  'us very via was we were what whatever when where whether which while who whom whose why will with within without ' +
+  'would yet you your yours yourself yourselves';
+
+const FEEDBACK_STOPWORDS =
+  'add added adding also answer answered answers attempt attempted accurate adequate aspect aspects able always ' +
+  'better brief briefly clear clearly complete completed completely correct correctly cover covered covering ' +
+  'describe described description detail detailed details diagram diagrams discuss discussed done elaborate ' +
+  'enough especially example examples excellent explain explained explanation fair fine give given good great ' +
+  'important improve improved improvement include included including incomplete incorrect incorrectly keep knowledge ' +
+  'label labelled labels lacking mark marks mention mentioned missed missing need needed needs neat nice note noted ' +
+  'omitted overall partial partially point points poor present presentation properly question questions regarding ' +
+  'relevant remember required satisfactory should show shown state stated structure student students sufficient ' +
+  'try understanding useful well work write writing written wrong';
+
+const STOPWORDS = new Set(`${ENGLISH_STOPWORDS} ${FEEDBACK_STOPWORDS}`.split(' '));
+
+/**
+ * The content words of a comment, and each pair of content words that stand
+ * next to each other, so "brachial plexus" can be told apart from "lumbar
+ * plexus". A stopword between two words breaks the pair.
+ */
+const terms = (text: string) => {
+  const found = new Set<string>();
+  const words = text.toLowerCase().replace(/[^a-z\s-]/g, ' ').split(/\s+/).map(w => w.replace(/^-+|-+$/g, ''));
+  let previous: string | null = null;
+  for (const word of words) {
+    if (word.length < 3 || STOPWORDS.has(word)) {
+      previous = null;
+      continue;
+    }
+    if (word.length > 3) found.add(word);
+    if (previous) found.add(`${previous} ${word}`);
+    previous = word;
+  }
+  return found;
+};
+
+const wordCount = (term: string) => term.split(' ').length;
+
+/**
+ * Clusters feedback by the anatomical terms several students were corrected
+ * on. Each comment joins the cluster of its most widely shared term, a
+ * two-word term winning over a single word shared as widely, so a comment is
+ * counted once; rejected AI additions are left out.
+ */
+export const misconceptionClusters = (reports: EvaluationReport[], minStudents = 2, limit = 8): MisconceptionCluster[] => {
+  const comments: { report: number; questionNo: string; text: string; terms: Set<string> }[] = [];
+  reports.forEach((report, r) =>
+    report.questionWiseFeedback.forEach(q => {
+      const parts = [q.humanFeedback, additionDecision(q) === 'rejected' ? '' : q.aiFeedbackAddition].filter(Boolean);
+      if (parts.length) comments.push({ report: r, questionNo: q.questionNo, text: parts.join(' — '), terms: terms(parts.join(' ')) });
+    })
+  );
+
+  const reach = new Map<string, Set<number>>();
+  comments.forEach(c => c.terms.forEach(t => reach.set(t, (reach.get(t) || new Set()).add(c.report))));
+
+  const clusters = new Map<string, { students: Set<number>; questionNos: Set<string>; examples: string[] }>();
+  for (const comment of comments) {
+    const term = [...comment.terms]
+      .filter(t => reach.get(t)!.size >= minStudents)
+      .sort((a, b) => reach.get(b)!.size - reach.get(a)!.size || wordCount(b) - wordCount(a) || a.localeCompare(b))[0];
+    if (!term) continue;
+    const cluster = clusters.get(term) || { students: new Set<number>(), questionNos: new Set<string>(), examples: [] };
+    cluster.students.add(comment.report);
+    cluster.questionNos.add(comment.questionNo);
+    if (cluster.examples.length < 3) cluster.examples.push(comment.text);
+    clusters.set(term, cluster);
+  }
+
+  return [...clusters.entries()]
+    .filter(([, c]) => c.students.size >= minStudents)
+    .map(([term, c]) => ({ term, students: c.students.size, questionNos: [...c.questionNos], examples: c.examples }))
+    .sort((a, b) => b.students - a.students || a.term.localeCompare(b.term))
+    .slice(0, limit);
+};
+
+/** Share of each evaluator's reports whose score audit failed. */
+export const evaluatorStats = (reports: EvaluationReport[]): EvaluatorStats[] => {
+  const byEvaluator = new Map<string, EvaluatorStats>();
+  for (const report of reports) {
+    const evaluator = report.evaluatorName?.trim() || UNKNOWN_EVALUATOR;
+    const stats = byEvaluator.get(evaluator) || { evaluator, reports: 0, flagged: 0, rate: 0, byType: {} };
+    stats.reports++;
+    if (report.scoreVerification.status === 'Incorrect') stats.flagged++;
+    for (const d of report.scoreVerification.discrepancies || []) {
+      if (d.severity === 'error') stats.byType[d.type] = (stats.byType[d.type] || 0) + 1;
+    }
+    stats.rate = round(stats.flagged / stats.reports);
+    byEvaluator.set(evaluator, stats);
+  }
+  return [...byEvaluator.values()].sort((a, b) => b.rate - a.rate || b.reports - a.reports);
+};
+
+/** Everything the dashboard shows, for reports marked against one exam. */
+export const cohortAnalytics = (reports: EvaluationReport[]): CohortAnalytics => {
+  const questions = questionStats(reports);
+  const totals = reports.map(r => r.scoreVerification.calculatedTotal);
+  const maxTotals = reports.map(r => r.scoreVerification.maxTotal).filter((m): m is number => !!m);
+  return {
+    students: reports.length,
+    meanTotal: round(mean(totals)),
+    meanShare: maxTotals.length === reports.length ? round(mean(totals.map((t, i) => t / maxTotals[i]))) : null,
+    questions,
+    hardestQuestions: questions
+      .filter(q => q.meanLost !== null)
+      .sort((a, b) => b.meanLost! - a.meanLost! || a.meanShare! - b.meanShare!)
+      .slice(0, 5),
+    misconceptions: misconceptionClusters(reports),
+    evaluators: evaluatorStats(reports)
+  };
+};
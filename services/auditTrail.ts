@@ -0,0 +1,20 @@
+import { AuditExport } from '../types';
+import { authHeaders } from './session';
+import { whenSaved } from './reportHistory';
+
+const AUDIT_URL = '/.netlify/functions/audit';
+
+/**
+ * The report's audit log as the server holds it, with the result of its
+ * hash-chain check. Changes are logged by the server as they are saved, so
+ * saves still on their way go first.
+ */
+export const fetchAuditTrail = async (reportId: string): Promise<AuditExport> => {
+  await whenSaved();
+  const response = await fetch(`${AUDIT_URL}?reportId=${encodeURIComponent(reportId)}`, { headers: authHeaders() });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `Could not export the audit trail (${response.status}).`);
+  }
+  return response.json();
+};
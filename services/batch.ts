@@ -0,0 +1,185 @@
+import JSZip from 'jszip';
+import { BatchItem, ProcessingStatus } from '../types';
+import { INTAKE_RULES, checkFile } from './fileIntake';
+import { ImportedMarks } from './spreadsheet';
+import { validateStructuredFeedback } from './structuredFeedback';
+
+export const BATCH_CONCURRENCY = 3;
+export const BATCH_MAX_ATTEMPTS = 3;
+
+const FEEDBACK_HINT = /(feedback|eval|marks?|score|remark)/i;
+const FEEDBACK_PATTERN_KEY = 'anatomyguard.feedbackPattern';
+const SUPPORTED = /\.(pdf|docx?)$/i;
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+};
+
+// Dates and years in a filename ("2024-03-15", "Anatomy 2024") are shared by
+// every student, so they never count as a roll number.
+const DATE = /(?:^|[^0-9])(19|20)\d{2}[-_.](0?[1-9]|1[0-2])[-_.](0?[1-9]|[12]\d|3[01])(?![0-9])/g;
+const YEAR = /^(19|20)\d{2}$/;
+
+/**
+ * Picks the roll number out of a filename such as "21MED045_script.pdf" or
+ * "Roll-12 feedback.docx". A token right after "roll"/"reg" wins; otherwise
+ * the first token carrying at least two digits that is not a year or date.
+ */
+export const extractRollNumber = (fileName: string): string | null => {
+  const base = fileName.replace(/^.*[\\/]/, '').replace(/\.[^.]+$/, '');
+  const tokens = base.replace(DATE, ' ').split(/[^A-Za-z0-9]+/).filter(Boolean);
+
+  const keyword = tokens.findIndex(t => /^(roll|reg|regno|rollno)$/i.test(t));
+  if (keyword >= 0 && tokens[keyword + 1] && /\d/.test(tokens[keyword + 1])) {
+    return tokens[keyword + 1].toUpperCase();
+  }
+  const inline = base.match(/(?:roll|reg)(?:no)?[\s_-]*(\d[A-Za-z0-9]*)/i);
+  if (inline) return inline[1].toUpperCase();
+
+  const candidate = tokens.find(t => (t.match(/\d/g) || []).length >= 2 && !YEAR.test(t));
+  return candidate ? candidate.toUpperCase() : null;
+};
+
+/** The extra filename pattern set in Class Batch for feedback sheets; empty when only the keywords apply. */
+export const loadFeedbackPattern = () => localStorage.getItem(FEEDBACK_PATTERN_KEY) || '';
+
+export const saveFeedbackPattern = (pattern: string) => {
+  if (pattern.trim()) localStorage.setItem(FEEDBACK_PATTERN_KEY, pattern.trim());
+  else localStorage.removeItem(FEEDBACK_PATTERN_KEY);
+};
+
+/** The configured pattern as a case-insensitive regular expression, or why it is not one. */
+export const parseFeedbackPattern = (pattern: string): { ok: true; pattern: RegExp | null } | { ok: false; error: string } => {
+  if (!pattern.trim()) return { ok: true, pattern: null };
+  try {
+    return { ok: true, pattern: new RegExp(pattern.trim(), 'i') };
+  } catch {
+    return { ok: false, error: `"${pattern}" is not a valid filename pattern.` };
+  }
+};
+
+// A feedback sheet must say so in its name; a Word file alone could be anything.
+const isFeedbackFile = (file: File, pattern: RegExp | null) => FEEDBACK_HINT.test(file.name) || !!pattern?.test(file.name);
+
+export interface UnmatchedFile {
+  file: File;
+  reason: string;
+}
+
+/** Unpacks any .zip uploads, keeping only documents the evaluator can read. */
+export const expandUploads = async (files: File[]): Promise<File[]> => {
+  const expanded: File[] = [];
+  for (const file of files) {
+    if (!/\.zip$/i.test(file.name)) {
+      if (SUPPORTED.test(file.name)) expanded.push(file);
+      continue;
+    }
+    const zip = await JSZip.loadAsync(file);
+    const entries = Object.values(zip.files).filter(e => !e.dir && SUPPORTED.test(e.name) && !e.name.startsWith('__MACOSX'));
+    for (const entry of entries) {
+      const blob = await entry.async('blob');
+      const name = entry.name.replace(/^.*\//, '');
+      const ext = name.split('.').pop()!.toLowerCase();
+      expanded.push(new File([blob], name, { type: MIME_BY_EXTENSION[ext] }));
+    }
+  }
+  return expanded;
+};
+
+/**
+ * Groups uploads by roll number into script/feedback pairs. Feedback sheets
+ * are recognised by a keyword in their name or the configured pattern. Files
+ * that end up in no pair are returned separately, with the reason. Rows from
+ * an imported marks spreadsheet take the place of feedback files.
+ */
+export const pairByRollNumber = (
+  files: File[],
+  marks: ImportedMarks[] = [],
+  feedbackPattern: RegExp | null = null
+): { items: BatchItem[]; unmatched: UnmatchedFile[] } => {
+  const groups = new Map<string, File[]>();
+  const unmatched: UnmatchedFile[] = [];
+  const isFeedback = (file: File) => isFeedbackFile(file, feedbackPattern);
+
+  for (const file of files) {
+    const roll = extractRollNumber(file.name);
+    if (!roll) {
+      unmatched.push({ file, reason: 'no roll number in the name' });
+      continue;
+    }
+    groups.set(roll, [...(groups.get(roll) || []), file]);
+  }
+  const marksByRoll = new Map(marks.map(m => [m.studentId, m.feedback]));
+  marksByRoll.forEach((_, roll) => groups.set(roll, groups.get(roll) || []));
+
+  const items: BatchItem[] = [];
+  for (const [rollNumber, group] of groups) {
+    const imported = marksByRoll.get(rollNumber);
+    const feedback = imported ? null : group.find(isFeedback) || null;
+    const studentScript = group.find(f => f !== feedback && /\.pdf$/i.test(f.name) && !isFeedback(f)) || null;
+    group.filter(f => f !== feedback && f !== studentScript).forEach(file => unmatched.push({
+      file,
+      reason: isFeedback(file) || /\.pdf$/i.test(file.name)
+        ? `another file already pairs for ${rollNumber}`
+        : 'not named as a feedback sheet, and only PDFs are read as scripts'
+    }));
+
+    const missing = !studentScript ? 'No answer script found for this roll number.' : !feedback && !imported ? 'No evaluator feedback found for this roll number.' : undefined;
+    items.push({
+      id: rollNumber,
+      rollNumber,
+      studentScript,
+      feedback,
+      ...(imported ? { marks: imported } : {}),
+      status: missing ? ProcessingStatus.ERROR : ProcessingStatus.QUEUED,
+      attempts: 0,
+      error: missing
+    });
+  }
+
+  items.sort((a, b) => a.rollNumber.localeCompare(b.rollNumber, undefined, { numeric: true }));
+  return { items, unmatched };
+};
+
+/**
+ * Runs the intake checks over each queued pair so an oversized or
+ * unreadable file fails here with a clear message, not at the function.
+ */
+export const preflightBatch = (items: BatchItem[]): Promise<BatchItem[]> =>
+  Promise.all(items.map(async item => {
+    if (item.status !== ProcessingStatus.QUEUED) return item;
+    const script = await checkFile(item.studentScript!, INTAKE_RULES.script);
+    const feedback = item.feedback ? await checkFile(item.feedback, INTAKE_RULES.feedback) : null;
+    const marksError = item.marks ? validateStructuredFeedback(item.marks).join(' ') : '';
+    const error = script.error || feedback?.error || marksError;
+    return error
+      ? { ...item, status: ProcessingStatus.ERROR, error }
+      : { ...item, studentScript: script.file, feedback: feedback?.file || null };
+  }));
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Retries transient failures with exponential backoff. Errors carrying a 4xx
+ * status (other than 429) are treated as permanent.
+ */
+export const retryWithBackoff = async <T>(
+  task: () => Promise<T>,
+  onAttempt: (attempt: number) => void,
+  maxAttempts = BATCH_MAX_ATTEMPTS,
+  baseDelayMs = 2000
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    onAttempt(attempt);
+    try {
+      return await task();
+    } catch (e: any) {
+      const status: number | undefined = e?.status;
+      const permanent = status !== undefined && status >= 400 && status < 500 && status !== 429;
+      if (permanent || attempt >= maxAttempts) throw e;
+      await sleep(baseDelayMs * 2 ** (attempt - 1));
+    }
+  }
+};
@@ -0,0 +1,45 @@
+import { EvaluationReport } from '../types';
+import { authHeaders } from './session';
+
+const VERSIONS_URL = '/.netlify/functions/evaluation-versions';
+
+/** Each report generated for the same inputs, oldest first, as the model returned them. */
+export const fetchEvaluationVersions = async (evaluationKey: string): Promise<EvaluationReport[]> => {
+  const response = await fetch(`${VERSIONS_URL}?key=${encodeURIComponent(evaluationKey)}`, { headers: authHeaders() });
+  if (!response.ok) throw new Error(`Could not load earlier versions (${response.status}).`);
+  return response.json();
+};
+
+export interface QuestionComparison {
+  questionNo: string;
+  marks: [string, string];
+  additions: [string, string];
+  marksDiffer: boolean;
+  additionsDiffer: boolean;
+}
+
+export interface VersionComparison {
+  questions: QuestionComparison[];
+  totals: [string, string];
+  synthesis: [string, string];
+  synthesisDiffers: boolean;
+}
+
+const normalise = (s: string) => s.trim().replace(/\s+/g, ' ');
+
+/** Side by side, by question number; a question only one version reported is compared with blanks. */
+export const compareVersions = (a: EvaluationReport, b: EvaluationReport): VersionComparison => {
+  const numbers = [...new Set([...a.questionWiseFeedback, ...b.questionWiseFeedback].map(q => q.questionNo))];
+  const find = (report: EvaluationReport, questionNo: string) => report.questionWiseFeedback.find(q => q.questionNo === questionNo);
+  return {
+    questions: numbers.map(questionNo => {
+      const [qa, qb] = [find(a, questionNo), find(b, questionNo)];
+      const marks: [string, string] = [String(qa?.marksAwarded ?? ''), String(qb?.marksAwarded ?? '')];
+      const additions: [string, string] = [qa?.aiFeedbackAddition || '', qb?.aiFeedbackAddition || ''];
+      return { questionNo, marks, additions, marksDiffer: marks[0] !== marks[1], additionsDiffer: normalise(additions[0]) !== normalise(additions[1]) };
+    }),
+    totals: [String(a.scoreVerification.reportedTotal), String(b.scoreVerification.reportedTotal)],
+    synthesis: [a.elaboratedGeneralisedFeedback, b.elaboratedGeneralisedFeedback],
+    synthesisDiffers: normalise(a.elaboratedGeneralisedFeedback) !== normalise(b.elaboratedGeneralisedFeedback)
+  };
+};
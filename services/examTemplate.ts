@@ -0,0 +1,175 @@
+import { EvaluationReport, ExamTemplate, QuestionFeedback, ScoreDiscrepancy, TemplateQuestion } from '../types';
+import { normalizeQuestionNo, parseMark, questionLabel, verifyScores } from './scoring';
+import { examTitle } from './pseudonyms';
+
+const TOLERANCE = 0.001;
+
+/** Leaf questions in paper order; these are the rows a report is scored on. */
+export const flattenTemplate = (template: Pick<ExamTemplate, 'questions'>): TemplateQuestion[] =>
+  template.questions.flatMap(q => (q.subParts?.length ? q.subParts : [q]));
+
+export const templateMaxTotal = (questions: TemplateQuestion[]): number =>
+  questions.reduce((sum, q) => sum + (q.subParts?.length ? templateMaxTotal(q.subParts) : q.maxMarks), 0);
+
+/** Total the exam carries once choice sections are limited to their best N. */
+export const computeTemplateTotal = (template: Pick<ExamTemplate, 'questions' | 'optionalSections'>): number =>
+  verifyScores(
+    flattenTemplate(template)
+      .map(q => ({ questionNo: q.questionNo, maxMarks: q.maxMarks, marksAwarded: 0, keyAnswerPoints: '', studentAnswerSummary: '', humanFeedback: '', aiFeedbackAddition: '' })),
+    0,
+    { optionalSections: template.optionalSections }
+  ).maxTotal ?? 0;
+
+const splitSubPart = (questionNo: string): { parent: string; sub: string } | null => {
+  const m = normalizeQuestionNo(questionNo).match(/^(\d+)([a-z]+)$/);
+  return m ? { parent: m[1], sub: m[2] } : null;
+};
+
+/**
+ * Builds a template from a report the teacher is happy with. Rows such as
+ * "1a"/"1(b)" are grouped under their parent question.
+ */
+export const templateFromReport = (report: EvaluationReport, examReference = examTitle(report.examReference)): ExamTemplate => {
+  const questions: TemplateQuestion[] = [];
+  const parents = new Map<string, TemplateQuestion>();
+
+  for (const row of report.questionWiseFeedback) {
+    const leaf: TemplateQuestion = {
+      questionNo: row.questionNo.trim(),
+      maxMarks: parseMark(row.maxMarks).value ?? 0,
+      keyAnswerPoints: row.keyAnswerPoints || undefined
+    };
+    const split = splitSubPart(row.questionNo);
+    if (!split) {
+      questions.push(leaf);
+      continue;
+    }
+    let parent = parents.get(split.parent);
+    if (!parent) {
+      parent = { questionNo: split.parent, maxMarks: 0, subParts: [] };
+      parents.set(split.parent, parent);
+      questions.push(parent);
+    }
+    parent.subParts!.push(leaf);
+    parent.maxMarks += leaf.maxMarks;
+  }
+
+  const now = new Date().toISOString();
+  return {
+    id: `tpl-${Date.now().toString(36)}`,
+    examReference,
+    questions,
+    optionalSections: report.optionalSections?.length ? report.optionalSections : undefined,
+    totalMarks: computeTemplateTotal({ questions, optionalSections: report.optionalSections }),
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+/** Compact description of the template for the model prompt. */
+export const describeTemplate = (template: ExamTemplate): string =>
+  [
+    `Exam: ${template.examReference} (total ${template.totalMarks} marks)`,
+    ...flattenTemplate(template).map(q => `- "${q.questionNo}": max ${q.maxMarks}${q.keyAnswerPoints ? ` | key points: ${q.keyAnswerPoints}` : ''}`),
+    ...(template.optionalSections || []).map(s => `Choice section "${s.label}": attempt any ${s.attemptAny} of ${s.questionNos.join(', ')}`)
+  ].join('\n');
+
+/**
+ * Rewrites the report onto the template's canonical question IDs and max
+ * marks, in template order. Rows that cannot be matched and template
+ * questions the report is missing are returned as discrepancies.
+ */
+export const alignReportToTemplate = (
+  report: EvaluationReport,
+  template: ExamTemplate
+): { report: EvaluationReport; discrepancies: ScoreDiscrepancy[] } => {
+  const discrepancies: ScoreDiscrepancy[] = [];
+  const rows = new Map<string, QuestionFeedback>();
+  const unknown: QuestionFeedback[] = [];
+
+  for (const row of report.questionWiseFeedback) {
+    const key = normalizeQuestionNo(row.questionNo);
+    if (rows.has(key)) unknown.push(row);
+    else rows.set(key, row);
+  }
+
+  const aligned: QuestionFeedback[] = [];
+  const align = (q: TemplateQuestion, row: QuestionFeedback) => {
+    const reportedMax = parseMark(row.maxMarks).value;
+    if (reportedMax !== null && Math.abs(reportedMax - q.maxMarks) > TOLERANCE) {
+      discrepancies.push({
+        type: 'TEMPLATE_MAX_MISMATCH',
+        severity: 'warning',
+        questionNo: q.questionNo,
+        message: `${questionLabel(q.questionNo)}: extracted maximum ${reportedMax} replaced by the template's ${q.maxMarks}.`,
+        expected: q.maxMarks,
+        actual: reportedMax
+      });
+    }
+    aligned.push({
+      ...row,
+      questionNo: q.questionNo,
+      maxMarks: q.maxMarks,
+      keyAnswerPoints: row.keyAnswerPoints || q.keyAnswerPoints || ''
+    });
+  };
+
+  for (const q of template.questions) {
+    const parentKey = normalizeQuestionNo(q.questionNo);
+    const leaves = q.subParts?.length ? q.subParts : [q];
+    const matched = leaves.filter(leaf => rows.has(normalizeQuestionNo(leaf.questionNo)));
+
+    // A single row for the whole question stands in for its sub-parts.
+    if (q.subParts?.length && !matched.length && rows.has(parentKey)) {
+      align({ ...q, maxMarks: templateMaxTotal([q]) }, rows.get(parentKey)!);
+      rows.delete(parentKey);
+      continue;
+    }
+
+    for (const leaf of leaves) {
+      const key = normalizeQuestionNo(leaf.questionNo);
+      const row = rows.get(key);
+      if (row) {
+        align(leaf, row);
+        rows.delete(key);
+        continue;
+      }
+      discrepancies.push({
+        type: 'TEMPLATE_MISSING_QUESTION',
+        severity: 'warning',
+        questionNo: leaf.questionNo,
+        message: `${questionLabel(leaf.questionNo)} is in the exam template but was not found in the evaluator feedback; recorded as not attempted.`
+      });
+      aligned.push({
+        questionNo: leaf.questionNo,
+        maxMarks: leaf.maxMarks,
+        marksAwarded: 'NA',
+        keyAnswerPoints: leaf.keyAnswerPoints || '',
+        studentAnswerSummary: '',
+        humanFeedback: '',
+        aiFeedbackAddition: ''
+      });
+    }
+  }
+
+  for (const row of [...rows.values(), ...unknown]) {
+    discrepancies.push({
+      type: 'TEMPLATE_UNKNOWN_QUESTION',
+      severity: 'error',
+      questionNo: row.questionNo,
+      message: `${questionLabel(row.questionNo)} does not match any question in the exam template.`
+    });
+    aligned.push(row);
+  }
+
+  return {
+    report: {
+      ...report,
+      examReference: template.examReference,
+      templateId: template.id,
+      questionWiseFeedback: aligned,
+      optionalSections: template.optionalSections?.length ? template.optionalSections : report.optionalSections
+    },
+    discrepancies
+  };
+};
@@ -0,0 +1,91 @@
+import { countPdfPages } from './pdfPreview';
+
+export type FileKind = 'pdf' | 'docx' | 'doc' | 'unknown';
+
+export interface IntakeRule {
+  kinds: FileKind[];
+  maxBytes: number;
+  /** Applies to PDFs only; Word files are not paginated until rendered. */
+  maxPages: number;
+}
+
+export interface FileCheck {
+  kind: FileKind;
+  /** The file re-typed with its sniffed MIME type, for a clean upload. */
+  file: File;
+  pageCount?: number;
+  error?: string;
+  warning?: string;
+}
+
+// Synchronous Netlify functions accept about 6 MB of request body. Each
+// request carries two documents, and base64 adds a third to their size.
+export const MAX_UPLOAD_BYTES = 2 * 1024 * 1024;
+// Scripts are rasterised and recompressed in the browser before upload, so
+// the raw scan only has to fit in memory.
+export const MAX_SCAN_BYTES = 40 * 1024 * 1024;
+export const MAX_PDF_PAGES = 40;
+
+export const INTAKE_RULES: Record<'pdf' | 'script' | 'feedback', IntakeRule> = {
+  pdf: { kinds: ['pdf'], maxBytes: MAX_UPLOAD_BYTES, maxPages: MAX_PDF_PAGES },
+  script: { kinds: ['pdf'], maxBytes: MAX_SCAN_BYTES, maxPages: MAX_PDF_PAGES },
+  // Word 97–2003 files cannot have the student's details masked, so they are refused.
+  feedback: { kinds: ['pdf', 'docx'], maxBytes: MAX_UPLOAD_BYTES, maxPages: MAX_PDF_PAGES }
+};
+
+export const KIND_LABELS: Record<FileKind, string> = {
+  pdf: 'PDF',
+  docx: 'Word (.docx)',
+  doc: 'Word 97–2003 (.doc)',
+  unknown: 'Unrecognised file'
+};
+
+const MIME_TYPES: Record<Exclude<FileKind, 'unknown'>, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  doc: 'application/msword'
+};
+
+const startsWith = (bytes: Uint8Array, signature: number[]) => signature.every((b, i) => bytes[i] === b);
+
+/**
+ * Identifies a file by its leading bytes rather than its extension or the
+ * browser-reported type, which follow the filename and can be wrong.
+ */
+export const sniffFileKind = async (file: Blob): Promise<FileKind> => {
+  const bytes = new Uint8Array(await file.slice(0, 8).arrayBuffer());
+  if (startsWith(bytes, [0x25, 0x50, 0x44, 0x46, 0x2d])) return 'pdf'; // %PDF-
+  if (startsWith(bytes, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return 'doc'; // OLE compound file
+  if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04])) return 'docx'; // ZIP container
+  return 'unknown';
+};
+
+export const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+/** Pre-flight checks run before a file is accepted for evaluation. */
+export const checkFile = async (file: File, rule: IntakeRule): Promise<FileCheck> => {
+  const kind = await sniffFileKind(file);
+  const typed = kind === 'unknown' || file.type === MIME_TYPES[kind] ? file : new File([file], file.name, { type: MIME_TYPES[kind], lastModified: file.lastModified });
+  const check: FileCheck = { kind, file: typed };
+  const expected = rule.kinds.map(k => KIND_LABELS[k]).join(' or ');
+
+  if (!rule.kinds.includes(kind)) {
+    const hint = kind === 'doc' ? ' Save it as .docx or PDF so the student\'s details can be masked before upload.' : '';
+    return { ...check, error: `${file.name} is not a ${expected} file${kind === 'unknown' ? '' : ` (it looks like ${KIND_LABELS[kind]})`}.${hint}` };
+  }
+  if (file.size > rule.maxBytes) {
+    return { ...check, error: `${file.name} is ${formatBytes(file.size)}; the limit is ${formatBytes(rule.maxBytes)}. Rescan at a lower resolution or split the document.` };
+  }
+  if (kind === 'pdf') {
+    try {
+      check.pageCount = await countPdfPages(file);
+    } catch {
+      return { ...check, error: `${file.name} could not be opened as a PDF. It may be damaged or password-protected.` };
+    }
+    if (check.pageCount > rule.maxPages) {
+      return { ...check, error: `${file.name} has ${check.pageCount} pages; the limit is ${rule.maxPages}.` };
+    }
+  }
+  return check;
+};
@@ -0,0 +1,69 @@
+import { AIObservation, EvaluationReport, EvidenceReference, GroundingPolicy } from '../types';
+
+/** What a citation can be checked against, where the server has it. */
+export interface GroundingSources {
+  /** Page numbers of the script as sent, in the original numbering. */
+  scriptPages?: number[];
+  /** The marking scheme's text layer; scanned schemes have none. */
+  schemeText?: string;
+}
+
+// Case, punctuation and line breaks differ between the PDF text and the model's quote.
+const comparable = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * A reference counts only if it points somewhere checkable: a page the script
+ * has, or a marking-scheme point quoted from the scheme. Without sources, only
+ * the shape of the reference can be checked.
+ */
+export const isValidReference = (ref: EvidenceReference, sources: GroundingSources = {}) => {
+  if (ref.source === 'studentScript') {
+    return Number.isInteger(ref.page) && ref.page! >= 1 && (!sources.scriptPages?.length || sources.scriptPages.includes(ref.page!));
+  }
+  const quote = comparable(ref.quote);
+  return !!quote && (!sources.schemeText?.trim() || comparable(sources.schemeText).includes(quote));
+};
+
+export const isGrounded = (evidence: EvidenceReference[] | undefined) => !!evidence?.some(ref => isValidReference(ref));
+
+export const formatReference = (ref: EvidenceReference) =>
+  ref.source === 'studentScript'
+    ? `Script p.${ref.page}${ref.quote ? `: “${ref.quote}”` : ''}`
+    : `Scheme${ref.page ? ` p.${ref.page}` : ''}: “${ref.quote}”`;
+
+export const formatEvidence = (evidence: EvidenceReference[] | undefined) =>
+  (evidence || []).filter(ref => isValidReference(ref)).map(formatReference).join('; ');
+
+/**
+ * Drops references that do not check out against the sources, then flags or
+ * removes AI additions and observations left without any citation.
+ */
+export const applyGroundingPolicy = (report: EvaluationReport, policy: GroundingPolicy, sources: GroundingSources = {}): EvaluationReport => {
+  let flagged = 0;
+  let dropped = 0;
+  const isValid = (ref: EvidenceReference) => isValidReference(ref, sources);
+
+  const questionWiseFeedback = report.questionWiseFeedback.map(q => {
+    const aiEvidence = (q.aiEvidence || []).filter(isValid);
+    if (!q.aiFeedbackAddition || aiEvidence.length) return { ...q, aiEvidence, aiUngrounded: undefined };
+    if (policy === 'drop') {
+      dropped++;
+      return { ...q, aiFeedbackAddition: '', aiEvidence, aiUngrounded: undefined };
+    }
+    flagged++;
+    return { ...q, aiEvidence, aiUngrounded: true };
+  });
+
+  const finalizedFeedback = report.finalizedFeedback.flatMap((o): AIObservation[] => {
+    const evidence = (o.evidence || []).filter(isValid);
+    if (evidence.length) return [{ ...o, evidence, ungrounded: undefined }];
+    if (policy === 'drop') {
+      dropped++;
+      return [];
+    }
+    flagged++;
+    return [{ ...o, evidence, ungrounded: true }];
+  });
+
+  return { ...report, questionWiseFeedback, finalizedFeedback, grounding: { policy, flagged, dropped } };
+};
@@ -0,0 +1,55 @@
+import { EvaluationReport, MarkConfidence, ModerationItem, SecondMarkerOptions } from '../types';
+import { parseMark } from './scoring';
+
+export const DEFAULT_MODERATION_TOLERANCE = 1;
+
+export const CONFIDENCE_LABELS: Record<MarkConfidence, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High'
+};
+
+const EPSILON = 0.001;
+const round = (n: number) => Math.round(n * 100) / 100;
+
+// A question the student left out counts as zero, so a suggestion of marks for it is still compared.
+const markValue = (mark: string | number) => {
+  const parsed = parseMark(mark);
+  return parsed.notAttempted ? 0 : parsed.value;
+};
+
+/**
+ * Moves the model's per-question marks into a separate moderation table and
+ * flags those further than `tolerance` from the human mark, which is left
+ * untouched. Without second-marker options any suggestions are discarded.
+ */
+export const applyModeration = (report: EvaluationReport, options?: SecondMarkerOptions): EvaluationReport => {
+  const items: ModerationItem[] = [];
+  const questionWiseFeedback = report.questionWiseFeedback.map(({ secondMarker, ...q }) => {
+    if (options && secondMarker) {
+      const awarded = markValue(q.marksAwarded);
+      const suggested = markValue(secondMarker.suggestedMark);
+      const difference = awarded === null || suggested === null ? undefined : round(suggested - awarded);
+      items.push({
+        questionNo: q.questionNo,
+        marksAwarded: q.marksAwarded,
+        ...secondMarker,
+        difference,
+        // Unreadable marks cannot be compared, so they go to a moderator too.
+        flagged: difference === undefined || Math.abs(difference) > options.tolerance + EPSILON
+      });
+    }
+    return q;
+  });
+
+  const { moderation, ...rest } = report;
+  if (!options) return { ...rest, questionWiseFeedback };
+  return {
+    ...rest,
+    questionWiseFeedback,
+    moderation: { tolerance: options.tolerance, flagged: items.filter(i => i.flagged).length, items }
+  };
+};
+
+export const formatDifference = (difference: number | undefined) =>
+  difference === undefined ? '—' : difference > 0 ? `+${difference}` : String(difference);
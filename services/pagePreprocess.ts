@@ -0,0 +1,220 @@
+import { DocumentInput, DocumentPage } from '../types';
+import { openPdf } from './pdfPreview';
+import { PageRedactor } from './redaction';
+
+/** Long edge of a sent page; about 190 DPI on A4, enough for handwriting. */
+export const MAX_PAGE_EDGE = 1600;
+const MIN_PAGE_EDGE = 1000;
+const ANALYSIS_EDGE = 500;
+const MAX_SKEW_DEGREES = 5;
+const SKEW_STEP_DEGREES = 0.5;
+/** Pages with less ink than this share of their area are treated as blank. */
+const BLANK_INK_RATIO = 0.002;
+/** How much better the sideways profile must score before a page is turned. */
+const ORIENTATION_MARGIN = 1.3;
+const JPEG_QUALITIES = [0.75, 0.6, 0.45];
+
+// Base64 characters for all script pages together; the evaluator feedback
+// (up to MAX_UPLOAD_BYTES) travels in the same request.
+export const SCRIPT_PAYLOAD_BUDGET = 3 * 1024 * 1024;
+// A redacted PDF feedback sheet goes as page images too, in place of the file.
+export const FEEDBACK_PAYLOAD_BUDGET = 2 * 1024 * 1024;
+
+export interface Grayscale {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+export interface PageAnalysis {
+  blank: boolean;
+  /** Clockwise rotation that levels the text lines. */
+  rotationDegrees: number;
+}
+
+export interface PreprocessOptions {
+  /** Runs on each rendered page before anything else sees it. */
+  redact?: PageRedactor;
+  /** Base64 characters for all pages together. */
+  payloadBudget?: number;
+}
+
+export interface PreprocessedScript {
+  document: DocumentInput;
+  droppedBlankPages: number[];
+  originalBytes: number;
+  processedBytes: number;
+}
+
+export const toGrayscale = ({ width, height, data }: { width: number; height: number; data: Uint8ClampedArray }): Grayscale => {
+  const gray = new Uint8Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+  }
+  return { width, height, data: gray };
+};
+
+// Ink is anything well below the paper tone, taken as the 90th percentile so
+// grey or yellowed scans are judged against their own background.
+const inkPoints = ({ width, height, data }: Grayscale) => {
+  const histogram = new Uint32Array(256);
+  data.forEach(v => histogram[v]++);
+  let paper = 255;
+  for (let v = 0, seen = 0; v < 256; v++) {
+    seen += histogram[v];
+    if (seen >= data.length * 0.9) {
+      paper = v;
+      break;
+    }
+  }
+  const threshold = paper * 0.7;
+
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[y * width + x] < threshold) {
+        xs.push(x);
+        ys.push(y);
+      }
+    }
+  }
+  return { xs, ys };
+};
+
+// Text lines at angle θ collapse onto few rows of the projection at θ, so the
+// sum of squared row counts peaks there.
+const projectionScore = (xs: number[], ys: number[], angle: number, size: number) => {
+  const sin = Math.sin(angle);
+  const cos = Math.cos(angle);
+  const rows = new Uint32Array(size * 2 + 1);
+  for (let i = 0; i < xs.length; i++) rows[Math.round(ys[i] * cos - xs[i] * sin) + size]++;
+  let score = 0;
+  rows.forEach(n => (score += n * n));
+  return score;
+};
+
+/**
+ * Finds blank pages and the rotation that levels the writing. Sideways pages
+ * are detected; upside-down ones are not, as their line profile is the same.
+ */
+export const analysePage = (gray: Grayscale): PageAnalysis => {
+  const { xs, ys } = inkPoints(gray);
+  if (xs.length < gray.width * gray.height * BLANK_INK_RATIO) return { blank: true, rotationDegrees: 0 };
+
+  const size = Math.ceil(Math.hypot(gray.width, gray.height));
+  const levelled = (base: number) => {
+    let best = { degrees: base, score: 0 };
+    for (let skew = -MAX_SKEW_DEGREES; skew <= MAX_SKEW_DEGREES; skew += SKEW_STEP_DEGREES) {
+      const score = projectionScore(xs, ys, ((base + skew) * Math.PI) / 180, size);
+      if (score > best.score) best = { degrees: base + skew, score };
+    }
+    return best;
+  };
+  const upright = levelled(0);
+  const sideways = levelled(90);
+  const best = sideways.score > upright.score * ORIENTATION_MARGIN ? sideways : upright;
+  return { blank: false, rotationDegrees: best.degrees ? -best.degrees : 0 };
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  return canvas;
+};
+
+const scaled = (source: HTMLCanvasElement, maxEdge: number) => {
+  const scale = Math.min(1, maxEdge / Math.max(source.width, source.height));
+  const canvas = createCanvas(source.width * scale, source.height * scale);
+  canvas.getContext('2d')!.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+const rotated = (source: HTMLCanvasElement, degrees: number) => {
+  if (Math.abs(degrees) < SKEW_STEP_DEGREES / 2) return source;
+  const angle = (degrees * Math.PI) / 180;
+  const sin = Math.abs(Math.sin(angle));
+  const cos = Math.abs(Math.cos(angle));
+  const canvas = createCanvas(source.width * cos + source.height * sin, source.width * sin + source.height * cos);
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate(angle);
+  ctx.drawImage(source, -source.width / 2, -source.height / 2);
+  return canvas;
+};
+
+// Steps the JPEG quality down, then the resolution, until the page fits.
+// Returns null when it does not fit even at the smallest size.
+const encode = (source: HTMLCanvasElement, budget: number): string | null => {
+  let canvas = source;
+  for (;;) {
+    for (const quality of JPEG_QUALITIES) {
+      const data = canvas.toDataURL('image/jpeg', quality).split(',')[1];
+      if (data.length <= budget) return data;
+    }
+    const edge = Math.max(canvas.width, canvas.height);
+    if (edge <= MIN_PAGE_EDGE) return null;
+    canvas = scaled(canvas, Math.max(MIN_PAGE_EDGE, edge * 0.8));
+  }
+};
+
+/**
+ * Rasterises a scanned script into levelled, downscaled JPEG pages, dropping
+ * blank ones. Returns null when the file cannot be rasterised; the caller
+ * decides whether it may be sent unchanged.
+ */
+export const preprocessScript = async (
+  file: File,
+  { redact, payloadBudget = SCRIPT_PAYLOAD_BUDGET }: PreprocessOptions = {}
+): Promise<PreprocessedScript | null> => {
+  let pdf: Awaited<ReturnType<typeof openPdf>>;
+  try {
+    pdf = await openPdf(file);
+  } catch {
+    return null;
+  }
+
+  try {
+    let remaining = payloadBudget;
+    const pages: DocumentPage[] = [];
+    const droppedBlankPages: number[] = [];
+
+    for (let n = 1; n <= pdf.numPages; n++) {
+      const page = await pdf.getPage(n);
+      const base = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: MAX_PAGE_EDGE / Math.max(base.width, base.height) });
+      const canvas = createCanvas(viewport.width, viewport.height);
+      await page.render({ canvasContext: canvas.getContext('2d')!, viewport }).promise;
+      await redact?.(page, viewport, canvas);
+      page.cleanup();
+
+      const sample = scaled(canvas, ANALYSIS_EDGE);
+      const analysis = analysePage(toGrayscale(sample.getContext('2d')!.getImageData(0, 0, sample.width, sample.height)));
+      if (analysis.blank) {
+        droppedBlankPages.push(n);
+        continue;
+      }
+      // Each page gets an even share of what is left, so room a small page
+      // does not use goes to the pages after it.
+      const data = encode(rotated(canvas, analysis.rotationDegrees), Math.floor(remaining / (pdf.numPages - n + 1)));
+      if (data === null) {
+        throw new Error(`${file.name} is too large to send even at the lowest image quality (page ${n} does not fit). Split it into smaller files.`);
+      }
+      remaining -= data.length;
+      pages.push({ page: n, mimeType: 'image/jpeg', data });
+    }
+
+    if (!pages.length) throw new Error(`Every page of ${file.name} looks blank. Check that the right file was chosen.`);
+    return {
+      document: { name: file.name, mimeType: file.type || 'application/pdf', pages },
+      droppedBlankPages,
+      originalBytes: file.size,
+      processedBytes: pages.reduce((sum, p) => sum + Math.ceil((p.data.length * 3) / 4), 0)
+    };
+  } finally {
+    pdf.destroy();
+  }
+};
@@ -0,0 +1,43 @@
+import { QuestionFeedback } from '../types';
+
+const ROWS_KEY = '"questionWiseFeedback"';
+
+/**
+ * The question rows that are already complete in a report still being
+ * streamed. Rows are the model's raw output: nothing has been aligned,
+ * grounded or scored yet, so they are for showing progress only.
+ */
+export const completedRows = (text: string): Partial<QuestionFeedback>[] => {
+  const key = text.indexOf(ROWS_KEY);
+  const open = key < 0 ? -1 : text.indexOf('[', key + ROWS_KEY.length);
+  if (open < 0) return [];
+
+  const rows: Partial<QuestionFeedback>[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  let escaped = false;
+  for (let i = open + 1; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === '{' || ch === '[') {
+      if (depth++ === 0) start = i;
+    } else if (ch === '}' || ch === ']') {
+      // A closing bracket at depth zero ends the rows array itself.
+      if (depth === 0) break;
+      if (--depth === 0) {
+        try {
+          rows.push(JSON.parse(text.slice(start, i + 1)));
+        } catch {
+          // Not a row object; leave it for the full parse to report.
+        }
+      }
+    }
+  }
+  return rows;
+};
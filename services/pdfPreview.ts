@@ -0,0 +1,58 @@
+import * as pdfjs from 'pdfjs-dist';
+
+// Keep in step with the pdfjs-dist version in the index.html import map.
+const PDFJS_VERSION = '4.10.38';
+pdfjs.GlobalWorkerOptions.workerSrc = `https://esm.sh/pdfjs-dist@${PDFJS_VERSION}/build/pdf.worker.min.mjs`;
+
+export const THUMBNAIL_WIDTH = 120;
+export const MAX_THUMBNAILS = 12;
+
+export const openPdf = async (file: Blob) => pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+
+export const countPdfPages = async (file: Blob): Promise<number> => {
+  const pdf = await openPdf(file);
+  try {
+    return pdf.numPages;
+  } finally {
+    pdf.destroy();
+  }
+};
+
+/** The PDF's text layer, page after page; empty for a scan. */
+export const extractPdfText = async (file: Blob): Promise<string> => {
+  const pdf = await openPdf(file);
+  try {
+    const pages: string[] = [];
+    for (let n = 1; n <= pdf.numPages; n++) {
+      const page = await pdf.getPage(n);
+      const content = await page.getTextContent();
+      pages.push(content.items.map(item => ('str' in item ? item.str : '')).join(' '));
+      page.cleanup();
+    }
+    return pages.join('\n');
+  } finally {
+    pdf.destroy();
+  }
+};
+
+/** Renders the first pages of a PDF as small JPEG data URLs for preview. */
+export const renderPdfThumbnails = async (file: Blob, limit = MAX_THUMBNAILS, width = THUMBNAIL_WIDTH): Promise<string[]> => {
+  const pdf = await openPdf(file);
+  try {
+    const thumbnails: string[] = [];
+    for (let n = 1; n <= Math.min(pdf.numPages, limit); n++) {
+      const page = await pdf.getPage(n);
+      const base = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: width / base.width });
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      await page.render({ canvasContext: canvas.getContext('2d')!, viewport }).promise;
+      thumbnails.push(canvas.toDataURL('image/jpeg', 0.7));
+      page.cleanup();
+    }
+    return thumbnails;
+  } finally {
+    pdf.destroy();
+  }
+};
@@ -0,0 +1,91 @@
+import { ExamFormat, PromptProfile, PromptProfileRef } from '../types';
+
+export const EXAM_FORMAT_LABELS: Record<ExamFormat, string> = {
+  theory: 'Theory paper',
+  viva: 'Viva voce',
+  ospe: 'OSPE / practical'
+};
+
+const ANATOMY_THEORY: PromptProfile = {
+  id: 'anatomy-theory',
+  version: 1,
+  name: 'Anatomy – Theory',
+  subject: 'Medical Anatomy',
+  examFormat: 'theory',
+  tone: 'formal academic medical-education language',
+  additionLength: 'one line',
+  synthesisSentences: { min: 3, max: 5 },
+  observationCount: 4,
+  includeKeyPoints: true
+};
+
+/**
+ * Every published profile version, oldest first. Add a new entry with the
+ * next version number instead of editing one: reports name the version they
+ * were produced with, and re-running them must give the same prompt.
+ */
+export const PROMPT_PROFILES: PromptProfile[] = [
+  ANATOMY_THEORY,
+  {
+    id: 'physiology-theory',
+    version: 1,
+    name: 'Physiology – Theory',
+    subject: 'Medical Physiology',
+    examFormat: 'theory',
+    tone: 'formal academic medical-education language',
+    additionLength: 'one or two lines',
+    synthesisSentences: { min: 3, max: 5 },
+    observationCount: 4,
+    includeKeyPoints: true
+  },
+  {
+    id: 'histology-practical',
+    version: 1,
+    name: 'Histology – OSPE',
+    subject: 'Histology',
+    examFormat: 'ospe',
+    tone: 'concise, practical teaching language',
+    additionLength: 'one line',
+    synthesisSentences: { min: 2, max: 3 },
+    observationCount: 3,
+    includeKeyPoints: true
+  },
+  {
+    id: 'anatomy-viva',
+    version: 1,
+    name: 'Anatomy – Viva',
+    subject: 'Medical Anatomy',
+    examFormat: 'viva',
+    tone: 'supportive, conversational teaching language',
+    additionLength: 'one line',
+    synthesisSentences: { min: 2, max: 4 },
+    observationCount: 3,
+    includeKeyPoints: false
+  }
+];
+
+export const DEFAULT_PROFILE_ID = ANATOMY_THEORY.id;
+
+/** The newest version of each profile, for choosing at intake. */
+export const latestProfiles = (): PromptProfile[] => {
+  const latest = new Map<string, PromptProfile>();
+  PROMPT_PROFILES.forEach(p => {
+    if ((latest.get(p.id)?.version ?? 0) < p.version) latest.set(p.id, p);
+  });
+  return [...latest.values()];
+};
+
+/** The exact profile version asked for, or its latest version; null if there is no such profile. */
+export const resolveProfile = (ref?: PromptProfileRef): PromptProfile | null => {
+  const id = ref?.id || DEFAULT_PROFILE_ID;
+  if (ref?.version === undefined) return latestProfiles().find(p => p.id === id) || null;
+  return PROMPT_PROFILES.find(p => p.id === id && p.version === ref.version) || null;
+};
+
+export const profileRef = (profile: PromptProfile): Required<PromptProfileRef> => ({
+  id: profile.id,
+  version: profile.version,
+  name: profile.name
+});
+
+export const profileLabel = (ref: PromptProfileRef) => `${ref.name || ref.id} v${ref.version ?? '?'}`;
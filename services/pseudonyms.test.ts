@@ -0,0 +1,61 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AuthUser, EvaluationReport } from '../types';
+import { examTitle, isPseudonym, lookupPseudonym, pseudonymFor, referenceFor, revealReport, revealText } from './pseudonyms';
+
+const admin: AuthUser = { id: 'admin', name: 'Admin', role: 'admin' };
+const evaluator: AuthUser = { id: 'evaluator', name: 'Evaluator', role: 'evaluator' };
+
+beforeEach(() => {
+  const items = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key)
+  });
+});
+
+describe('pseudonymFor', () => {
+  it('issues an unambiguous pseudonym and reuses it for the same roll number', () => {
+    const pseudonym = pseudonymFor({ rollNumber: '21mbbs045' });
+
+    expect(isPseudonym(pseudonym)).toBe(true);
+    expect(pseudonym).not.toMatch(/ANON-.*[01IO]/);
+    expect(pseudonymFor({ rollNumber: ' 21MBBS045 ', name: 'Priya Sharma' })).toBe(pseudonym);
+    expect(lookupPseudonym(pseudonym)).toEqual({ rollNumber: '21MBBS045', name: 'Priya Sharma' });
+  });
+
+  it('gives different students different pseudonyms', () => {
+    expect(pseudonymFor({ rollNumber: '21MBBS045' })).not.toBe(pseudonymFor({ rollNumber: '21MBBS046' }));
+  });
+});
+
+describe('isPseudonym', () => {
+  it('accepts a pseudonym', () => expect(isPseudonym('ANON-7KQ2MX')).toBe(true));
+  it.each(['21MBBS045', 'ANON-7KQ2M', 'ANON-7KQ2M0', 'Priya ANON-7KQ2MX'])('rejects %j', value => expect(isPseudonym(value)).toBe(false));
+});
+
+describe('exam references', () => {
+  it('puts the pseudonym after the exam, replacing any already there', () => {
+    expect(referenceFor('Anatomy Sessional I', 'ANON-7KQ2MX')).toBe('Anatomy Sessional I — ANON-7KQ2MX');
+    expect(referenceFor('Anatomy Sessional I — ANON-ZZZZ22', 'ANON-7KQ2MX')).toBe('Anatomy Sessional I — ANON-7KQ2MX');
+    expect(examTitle('Anatomy Sessional I — ANON-7KQ2MX')).toBe('Anatomy Sessional I');
+  });
+});
+
+describe('revealing identities', () => {
+  it('shows admins the student behind a pseudonym this browser knows, and no one else', () => {
+    const pseudonym = pseudonymFor({ rollNumber: '21MBBS045', name: 'Priya Sharma' });
+    const text = `${pseudonym} and ANON-ZZZZ22`;
+
+    expect(revealText(text, admin)).toBe('Priya Sharma (21MBBS045) and ANON-ZZZZ22');
+    expect(revealText(text, evaluator)).toBe(text);
+  });
+
+  it('puts the roll number alone in the student id of a revealed report', () => {
+    const pseudonym = pseudonymFor({ rollNumber: '21MBBS045', name: 'Priya Sharma' });
+    const report = { studentId: pseudonym, examReference: referenceFor('Anatomy Sessional I', pseudonym) } as EvaluationReport;
+
+    expect(revealReport(report, admin)).toMatchObject({ studentId: '21MBBS045', examReference: 'Anatomy Sessional I — Priya Sharma (21MBBS045)' });
+    expect(revealReport(report, evaluator)).toBe(report);
+  });
+});
@@ -0,0 +1,99 @@
+import { AuthUser, EvaluationReport, StudentIdentity } from '../types';
+import { can } from './roles';
+import { loadSession } from './session';
+
+const STORAGE_KEY = 'anatomyguard.pseudonyms';
+const PSEUDONYM_PREFIX = 'ANON-';
+// No 0/O or 1/I, so a pseudonym read aloud or retyped stays unambiguous.
+const ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const PSEUDONYM_LENGTH = 6;
+
+export const PSEUDONYM_PATTERN = new RegExp(`\\b${PSEUDONYM_PREFIX}[${ALPHABET}]{${PSEUDONYM_LENGTH}}\\b`, 'g');
+
+export const isPseudonym = (value: string) => new RegExp(`^${PSEUDONYM_PATTERN.source}$`).test(value);
+
+/**
+ * Pseudonym to real student, kept in this browser only. Nothing sent to the
+ * functions, the model or the shared report history carries the mapping.
+ */
+export const loadPseudonyms = (): Record<string, StudentIdentity> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const persist = (registry: Record<string, StudentIdentity>) => localStorage.setItem(STORAGE_KEY, JSON.stringify(registry));
+
+const sameStudent = (a: StudentIdentity, b: StudentIdentity) => a.rollNumber.trim().toUpperCase() === b.rollNumber.trim().toUpperCase();
+
+const randomPseudonym = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(PSEUDONYM_LENGTH));
+  return PSEUDONYM_PREFIX + [...bytes].map(b => ALPHABET[b % ALPHABET.length]).join('');
+};
+
+/** The student's pseudonym, issued on first use and reused for every later script. */
+export const pseudonymFor = (student: StudentIdentity): string => {
+  const registry = loadPseudonyms();
+  const existing = Object.entries(registry).find(([, known]) => sameStudent(known, student));
+  if (existing) {
+    const [pseudonym, known] = existing;
+    if (student.name?.trim() && student.name.trim() !== known.name) persist({ ...registry, [pseudonym]: { ...known, name: student.name.trim() } });
+    return pseudonym;
+  }
+  let pseudonym = randomPseudonym();
+  while (registry[pseudonym]) pseudonym = randomPseudonym();
+  persist({ ...registry, [pseudonym]: { rollNumber: student.rollNumber.trim().toUpperCase(), ...(student.name?.trim() ? { name: student.name.trim() } : {}) } });
+  return pseudonym;
+};
+
+export const lookupPseudonym = (pseudonym: string): StudentIdentity | undefined => loadPseudonyms()[pseudonym];
+
+const REFERENCE_PSEUDONYM = new RegExp(`\\s*—\\s*${PSEUDONYM_PATTERN.source}`, 'g');
+
+/** The exam a report's reference names, without the student. */
+export const examTitle = (reference: string) => reference.replace(REFERENCE_PSEUDONYM, '').trim();
+
+/** A report's exam reference: the exam, then the student's pseudonym. */
+export const referenceFor = (examReference: string, pseudonym: string) => `${examTitle(examReference)} — ${pseudonym}`;
+
+export const identityLabel = ({ rollNumber, name }: StudentIdentity) => (name ? `${name} (${rollNumber})` : rollNumber);
+
+export const canSeeIdentities = (user: AuthUser | null | undefined = loadSession()?.user) => can(user, 'identify');
+
+/**
+ * Text as the viewer may see it: pseudonyms known to this browser become the
+ * student's name and roll number for users allowed to see identities, and
+ * stay as they are for everyone else.
+ */
+export const revealText = (text: string, user?: AuthUser | null): string => {
+  if (!text || !canSeeIdentities(user)) return text;
+  let registry: Record<string, StudentIdentity> | undefined;
+  return text.replace(PSEUDONYM_PATTERN, pseudonym => {
+    const known = (registry ??= loadPseudonyms())[pseudonym];
+    return known ? identityLabel(known) : pseudonym;
+  });
+};
+
+const mapStrings = (value: unknown, map: (text: string) => string): unknown => {
+  if (typeof value === 'string') return map(value);
+  if (Array.isArray(value)) return value.map(item => mapStrings(item, map));
+  if (value && typeof value === 'object') return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, map)]));
+  return value;
+};
+
+/** The report with every piece of text in it passed through `map`. */
+export const mapReportText = (report: EvaluationReport, map: (text: string) => string) => mapStrings(report, map) as EvaluationReport;
+
+/**
+ * A copy of the report for display or export only; never save it back. The
+ * student id becomes the roll number alone, as exports put it in a Roll No
+ * column; in text the student's name goes with it.
+ */
+export const revealReport = (report: EvaluationReport, user?: AuthUser | null): EvaluationReport => {
+  if (!canSeeIdentities(user)) return report;
+  const revealed = mapReportText(report, text => revealText(text, user));
+  const student = report.studentId ? loadPseudonyms()[report.studentId] : undefined;
+  return student ? { ...revealed, studentId: student.rollNumber } : revealed;
+};
@@ -0,0 +1,101 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { EvaluationReport } from '../types';
+import { Redaction, isIdentityLine, redactDocx, redactReport, redactText } from './redaction';
+
+const redaction: Redaction = { student: { rollNumber: '21MBBS045', name: 'Priya Sharma' }, pseudonym: 'ANON-7KQ2MX' };
+
+const paragraph = (...runs: string[]) => `<w:p>${runs.map(text => `<w:r><w:t>${text}</w:t></w:r>`).join('')}</w:p>`;
+
+const docx = async (files: Record<string, string>) => {
+  const zip = new JSZip();
+  Object.entries(files).forEach(([path, content]) => zip.file(path, content, { date: new Date('2024-01-01T00:00:00Z') }));
+  return new File([await zip.generateAsync({ type: 'arraybuffer' })], 'feedback.docx');
+};
+
+const readDocx = async (file: File) => {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const read = (path: string) => zip.file(path)?.async('string');
+  return { paths: Object.keys(zip.files), read };
+};
+
+describe('redactText', () => {
+  it('replaces the roll number and name wherever they appear, in any case and spacing', () => {
+    expect(redactText('21mbbs045 (PRIYA  sharma) labelled the ulnar nerve', redaction)).toBe('ANON-7KQ2MX (ANON-7KQ2MX) labelled the ulnar nerve');
+  });
+
+  it('leaves identifiers too short to match safely', () => {
+    expect(redactText('Al drew the axilla', { ...redaction, student: { rollNumber: '7', name: 'Al' } })).toBe('Al drew the axilla');
+  });
+});
+
+describe('isIdentityLine', () => {
+  it.each(['Name: Priya', "Student's name - Priya", 'Roll No. 21MBBS045', 'Signature:'])('treats %j as the student\'s details', line => {
+    expect(isIdentityLine(line)).toBe(true);
+  });
+
+  it.each(['Name the nerves of the brachial plexus', 'Evaluator name: Dr. Rao', 'Examiner signature:'])('leaves %j alone', line => {
+    expect(isIdentityLine(line)).toBe(false);
+  });
+});
+
+describe('redactReport', () => {
+  it('replaces echoed identifiers and another browser\'s pseudonym with this one', () => {
+    const report = {
+      studentId: 'ANON-ZZZZ22',
+      examReference: 'Anatomy Sessional I — ANON-ZZZZ22',
+      elaboratedGeneralisedFeedback: 'Priya Sharma should revise the axilla.',
+      questionWiseFeedback: [{ questionNo: '1', humanFeedback: 'See ANON-ZZZZ22 answer', aiFeedbackAddition: '' }]
+    } as unknown as EvaluationReport;
+
+    const redacted = redactReport(report, redaction);
+    expect(redacted.studentId).toBe('ANON-7KQ2MX');
+    expect(redacted.examReference).toBe('Anatomy Sessional I — ANON-7KQ2MX');
+    expect(redacted.elaboratedGeneralisedFeedback).toBe('ANON-7KQ2MX should revise the axilla.');
+    expect(redacted.questionWiseFeedback[0].humanFeedback).toBe('See ANON-7KQ2MX answer');
+  });
+});
+
+describe('redactDocx', () => {
+  const original = () => docx({
+    'word/document.xml': `<w:document><w:body>${[
+      paragraph('Name: Priya ', 'Sharma\tRoll No: 21MBBS045  Marks: 45'),
+      paragraph('Name the nerves of the brachial plexus.'),
+      paragraph('Evaluator name: Dr. Rao'),
+      '<w:p><w:r><w:drawing><wp:inline>photo</wp:inline></w:drawing></w:r></w:p>'
+    ].join('')}</w:body></w:document>`,
+    'word/comments.xml': '<w:comments><w:comment w:id="0" w:author="Priya S" w:initials="PS">' + paragraph('Priya Sharma wrote this') + '</w:comment></w:comments>',
+    'word/_rels/document.xml.rels': '<Relationships><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/image1.png"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>',
+    'word/media/image1.png': 'png',
+    'docProps/core.xml': '<cp:coreProperties><dc:title>Sessional feedback</dc:title><dc:creator>P. S.</dc:creator><cp:lastModifiedBy>Ward clerk</cp:lastModifiedBy></cp:coreProperties>'
+  });
+
+  it('masks only the labelled values and keeps the rest of the line', async () => {
+    const { read } = await readDocx(await redactDocx(await original(), redaction));
+    const document = await read('word/document.xml');
+
+    expect(document).toContain('Name: ANON-7KQ2MX\tRoll No: ANON-7KQ2MX  Marks: 45');
+    expect(document).not.toMatch(/Priya|Sharma|21MBBS045/);
+    expect(document).toContain('Name the nerves of the brachial plexus.');
+    expect(document).toContain('Evaluator name: Dr. Rao');
+  });
+
+  it('removes pictures and their files, and blanks every author', async () => {
+    const { paths, read } = await readDocx(await redactDocx(await original(), redaction));
+
+    expect(paths).not.toContain('word/media/image1.png');
+    expect(await read('word/document.xml')).not.toContain('w:drawing');
+    expect(await read('word/_rels/document.xml.rels')).not.toContain('/image"');
+    expect(await read('word/_rels/document.xml.rels')).toContain('styles.xml');
+    expect(await read('word/comments.xml')).toContain('w:author="" w:initials=""');
+    expect(await read('word/comments.xml')).toContain('ANON-7KQ2MX wrote this');
+    expect(await read('docProps/core.xml')).toBe('<cp:coreProperties><dc:title>Sessional feedback</dc:title><dc:creator></dc:creator><cp:lastModifiedBy></cp:lastModifiedBy></cp:coreProperties>');
+  });
+
+  it('gives the same bytes for the same file', async () => {
+    const file = await original();
+    const [first, second] = await Promise.all([redactDocx(file, redaction), redactDocx(file, redaction)]);
+
+    expect(Buffer.from(await first.arrayBuffer()).equals(Buffer.from(await second.arrayBuffer()))).toBe(true);
+  });
+});
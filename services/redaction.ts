@@ -0,0 +1,209 @@
+import JSZip from 'jszip';
+import type { PDFPageProxy, PageViewport } from 'pdfjs-dist';
+import { EvaluationReport, StudentIdentity } from '../types';
+import { PSEUDONYM_PATTERN, mapReportText } from './pseudonyms';
+
+export interface Redaction {
+  student: StudentIdentity;
+  pseudonym: string;
+}
+
+/** Masks identity details on a rendered page in place, before it is analysed and encoded. */
+export type PageRedactor = (page: PDFPageProxy, viewport: PageViewport, canvas: HTMLCanvasElement) => Promise<void>;
+
+/** Part of a page, as fractions of its width and height from the top left. */
+export interface IdentityZone {
+  /** Omitted for a zone masked on every page. */
+  page?: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type RedactedDocument = 'script' | 'feedback';
+
+// Handwritten name, roll number and signature boxes cannot be read in the
+// browser, so the part of the page where they are written is masked whole.
+// Answer booklets give the cover's top band to them; feedback sheets a
+// narrower header. Continuation sheets repeat the roll number in a header
+// strip on every page.
+export const IDENTITY_ZONES: Record<RedactedDocument, IdentityZone[]> = {
+  script: [{ page: 1, x: 0, y: 0, width: 1, height: 0.2 }, { x: 0, y: 0, width: 1, height: 0.06 }],
+  feedback: [{ page: 1, x: 0, y: 0, width: 1, height: 0.12 }, { x: 0, y: 0, width: 1, height: 0.06 }]
+};
+
+// A line starting with one of these labels, and a separator so that "Name the
+// nerves" in a comment does not count, holds the student's details. The
+// evaluator's own name and signature lines are left for the model to read.
+const IDENTITY_LABEL = /^\s*(student'?s?\s+name|name\s+of\s+(the\s+)?(student|candidate)|candidate'?s?\s+name|name|roll\s*(no|number)|reg(istration)?\.?\s*(no|number)|enrol?l?ment\s*(no|number)|candidate\s*(no|number)|(student'?s?\s+)?signature)\s*[:.\-–]/i;
+const EVALUATOR_LABEL = /\b(evaluator|examiner|teacher|faculty|marked\s+by|assessor)\b/i;
+
+const MASK_PADDING_PX = 3;
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const identifierPatterns = ({ student }: Redaction): RegExp[] =>
+  [student.rollNumber, student.name]
+    .map(value => value?.trim())
+    .filter((value): value is string => !!value && value.length >= 3)
+    .map(value => new RegExp(`\\b${value.split(/\s+/).map(escapeRegExp).join('\\s+')}\\b`, 'gi'));
+
+/** The student's roll number and name replaced with their pseudonym wherever they appear. */
+export const redactText = (text: string, redaction: Redaction): string =>
+  identifierPatterns(redaction).reduce((result, pattern) => result.replace(pattern, redaction.pseudonym), text);
+
+/**
+ * Replaces anything the model echoed of the student's real identity with
+ * their pseudonym, in case a detail slipped past the document masking. A
+ * cached report may come from another browser, which knows the student by a
+ * different pseudonym; that one is replaced too.
+ */
+export const redactReport = (report: EvaluationReport, redaction: Redaction): EvaluationReport => ({
+  ...mapReportText(report, text => redactText(text, redaction).replace(PSEUDONYM_PATTERN, redaction.pseudonym)),
+  studentId: redaction.pseudonym
+});
+
+export const isIdentityLine = (text: string) => IDENTITY_LABEL.test(text) && !EVALUATOR_LABEL.test(text);
+
+type TextRun = { str: string; transform: number[]; width: number; height: number };
+type Box = { x: number; y: number; width: number; height: number };
+
+const runBox = (run: TextRun, viewport: PageViewport): Box => {
+  const [, , , , x, y] = run.transform;
+  const height = run.height || Math.hypot(run.transform[2], run.transform[3]);
+  // From just below the baseline, for descenders, to the top of the glyphs.
+  const [x1, y1, x2, y2] = viewport.convertToViewportRectangle([x, y - height * 0.3, x + run.width, y + height]);
+  return { x: Math.min(x1, x2), y: Math.min(y1, y2), width: Math.abs(x2 - x1), height: Math.abs(y2 - y1) };
+};
+
+// Runs on one baseline, left to right.
+const textLines = (runs: TextRun[]): TextRun[][] => {
+  const lines: TextRun[][] = [];
+  [...runs].sort((a, b) => b.transform[5] - a.transform[5] || a.transform[4] - b.transform[4]).forEach(run => {
+    const line = lines.find(l => Math.abs(l[0].transform[5] - run.transform[5]) <= (l[0].height || 1) / 2);
+    if (line) line.push(run);
+    else lines.push([run]);
+  });
+  return lines.map(line => line.sort((a, b) => a.transform[4] - b.transform[4]));
+};
+
+/**
+ * Whites out the student's details on each page: printed text carrying their
+ * roll number or name, whole lines labelled as student details, and the
+ * document's identity zones. White leaves no ink for blank-page and skew
+ * detection to pick up.
+ */
+export const pageRedactor = (redaction: Redaction, kind: RedactedDocument): PageRedactor => async (page, viewport, canvas) => {
+  const boxes: Box[] = IDENTITY_ZONES[kind]
+    .filter(zone => zone.page === undefined || zone.page === page.pageNumber)
+    .map(zone => ({ x: zone.x * canvas.width, y: zone.y * canvas.height, width: zone.width * canvas.width, height: zone.height * canvas.height }));
+
+  const content = await page.getTextContent();
+  const runs = (content.items as Partial<TextRun>[]).filter((item): item is TextRun => typeof item.str === 'string' && !!item.str.trim() && !!item.transform);
+  const patterns = identifierPatterns(redaction);
+  textLines(runs).forEach(line => {
+    if (isIdentityLine(line.map(run => run.str).join(' '))) {
+      line.forEach(run => boxes.push(runBox(run, viewport)));
+      return;
+    }
+    line.filter(run => patterns.some(p => new RegExp(p.source, 'i').test(run.str))).forEach(run => boxes.push(runBox(run, viewport)));
+  });
+
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#ffffff';
+  boxes.forEach(b => ctx.fillRect(b.x - MASK_PADDING_PX, b.y - MASK_PADDING_PX, b.width + MASK_PADDING_PX * 2, b.height + MASK_PADDING_PX * 2));
+};
+
+const WORD_PARTS = /^word\/(document|header\d*|footer\d*|footnotes|endnotes|comments)\.xml$/;
+const WORD_RELS = /^word\/_rels\/[^/]+\.rels$/;
+const WORD_MEDIA = /^word\/media\//;
+const PARAGRAPH = /<w:p\b[^>]*>[\s\S]*?<\/w:p>/g;
+const TEXT_RUN = /(<w:t\b[^>]*>)([^<]*)(<\/w:t>)/g;
+// Pictures, shapes and embedded objects; a photo or signature scan in one
+// cannot be checked here, so they all go. Alternate content is removed
+// innermost first, since it nests.
+const ALTERNATE_CONTENT = /<mc:AlternateContent\b[^>]*>(?:(?!<mc:AlternateContent\b)[\s\S])*?<\/mc:AlternateContent>/g;
+const GRAPHICS = /<w:(drawing|pict|object)\b[^>]*>[\s\S]*?<\/w:\1>/g;
+const IMAGE_RELATIONSHIP = /<Relationship\b[^>]*\bType="[^"]*\/(image|oleObject)"[^>]*\/>/g;
+// Who wrote each comment and tracked change. Initials cannot be matched to
+// the student, so both are blanked.
+const AUTHOR_ATTRIBUTE = /\bw:(author|initials)="[^"]*"/g;
+// The document's author and last editor. Either may be the student, whose
+// name is not always entered at intake to be matched, so both are blanked.
+const DOCUMENT_PEOPLE = /<(dc:creator|cp:lastModifiedBy)\b([^>]*)>[^<]*<\/\1>/g;
+// Where a labelled value ends: a tab, a wide gap, or the next student-detail label.
+const VALUE_END = new RegExp(`\\t|\\s{2,}|\\s(?=${IDENTITY_LABEL.source.replace(/^\^\\s\*/, '')})`, 'i');
+
+const escapeXml = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+const unescapeXml = (s: string) => s.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+
+const removeGraphics = (xml: string) => {
+  let result = xml;
+  for (let previous = ''; previous !== result; ) {
+    previous = result;
+    result = result.replace(ALTERNATE_CONTENT, '');
+  }
+  return result.replace(GRAPHICS, '');
+};
+
+// A labelled line keeps its labels and anything after their values, such as
+// marks on the same line; only the values become the pseudonym.
+const redactLabelledLine = (text: string, redaction: Redaction): string => {
+  const label = text.match(IDENTITY_LABEL);
+  if (!label) return redactText(text, redaction);
+  const start = label.index! + label[0].length;
+  const rest = text.slice(start);
+  const valueStart = rest.length - rest.trimStart().length;
+  const end = rest.slice(valueStart).search(VALUE_END);
+  const valueEnd = end < 0 ? rest.length : valueStart + end;
+  const value = valueEnd > valueStart ? `${rest.slice(0, valueStart) || ' '}${redaction.pseudonym}` : rest.slice(0, valueStart);
+  return `${text.slice(0, start)}${value}${redactLabelledLine(rest.slice(valueEnd), redaction)}`;
+};
+
+// Word splits a paragraph's text across runs wherever formatting or editing
+// history changes, so matching is done on the whole paragraph. A changed
+// paragraph keeps its first run's formatting and loses the rest.
+const redactParagraph = (paragraph: string, redaction: Redaction) => {
+  const runs = [...paragraph.matchAll(TEXT_RUN)];
+  if (!runs.length) return paragraph;
+  const text = runs.map(run => unescapeXml(run[2])).join('');
+  const redacted = isIdentityLine(text) ? redactLabelledLine(text, redaction) : redactText(text, redaction);
+  if (redacted === text) return paragraph;
+
+  let first = true;
+  return paragraph.replace(TEXT_RUN, (_, open: string, __: string, close: string) => {
+    if (!first) return `${open}${close}`;
+    first = false;
+    const preserved = /xml:space=/.test(open) ? open : open.replace(/^<w:t\b/, '<w:t xml:space="preserve"');
+    return `${preserved}${escapeXml(redacted)}${close}`;
+  });
+};
+
+/**
+ * A copy of a .docx with the student's details replaced by their pseudonym,
+ * and its pictures, document author, and comment and revision authors removed. Rewritten parts
+ * keep their original dates, so the same file always gives the same bytes
+ * and the server's hash of it matches from one upload to the next.
+ */
+export const redactDocx = async (file: File, redaction: Redaction, name = file.name): Promise<File> => {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const rewrite = async (path: string, edit: (xml: string) => string) =>
+    zip.file(path, edit(await zip.file(path)!.async('string')), { date: zip.files[path].date });
+
+  for (const path of Object.keys(zip.files)) {
+    if (WORD_MEDIA.test(path)) {
+      zip.remove(path);
+    } else if (WORD_RELS.test(path)) {
+      await rewrite(path, xml => xml.replace(IMAGE_RELATIONSHIP, ''));
+    } else if (WORD_PARTS.test(path)) {
+      await rewrite(path, xml =>
+        removeGraphics(xml).replace(AUTHOR_ATTRIBUTE, 'w:$1=""').replace(PARAGRAPH, paragraph => redactParagraph(paragraph, redaction))
+      );
+    }
+  }
+  if (zip.file('docProps/core.xml')) {
+    await rewrite('docProps/core.xml', xml => redactText(xml.replace(DOCUMENT_PEOPLE, '<$1$2></$1>'), redaction));
+  }
+  return new File([await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' })], name, { type: file.type });
+};
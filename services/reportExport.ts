@@ -0,0 +1,406 @@
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import {
+  AlignmentType, BorderStyle, Document, Footer, Header, HeadingLevel, Packer, PageNumber,
+  Paragraph, ShadingType, Table, TableCell, TableRow, TextRun, WidthType
+} from 'docx';
+import JSZip from 'jszip';
+import { BatchItem, EvaluationReport, ReportViewMode } from '../types';
+import { additionDecision, getReview } from './review';
+import { projectReport } from './reportView';
+import { formatEvidence } from './grounding';
+import { CONFIDENCE_LABELS, formatDifference } from './moderation';
+import { profileLabel } from './promptProfiles';
+
+export interface ExportBranding {
+  institutionName: string;
+  department: string;
+  addressLine: string;
+}
+
+const BRANDING_KEY = 'anatomyguard.exportBranding';
+
+export const DEFAULT_BRANDING: ExportBranding = {
+  institutionName: 'Department of Anatomy',
+  department: 'Medical Education Unit',
+  addressLine: ''
+};
+
+export const loadBranding = (): ExportBranding => {
+  try {
+    return { ...DEFAULT_BRANDING, ...JSON.parse(localStorage.getItem(BRANDING_KEY) || '{}') };
+  } catch {
+    return DEFAULT_BRANDING;
+  }
+};
+
+export const saveBranding = (branding: ExportBranding) => localStorage.setItem(BRANDING_KEY, JSON.stringify(branding));
+
+const INDIGO: [number, number, number] = [30, 27, 75];
+const SLATE: [number, number, number] = [100, 116, 139];
+
+/** Student copies are released only once the report is signed off. */
+export const studentCopyReleased = (report: EvaluationReport) => getReview(report).state === 'approved';
+
+const assertReleasable = (report: EvaluationReport, mode: ReportViewMode) => {
+  if (mode === 'student' && !studentCopyReleased(report)) {
+    throw new Error('The student copy can be exported once the report is approved and signed off.');
+  }
+};
+
+const fileSafe = (s: string) => s.replace(/[^A-Za-z0-9._-]+/g, '_').replace(/^_+|_+$/g, '') || 'report';
+
+export const reportFileName = (report: EvaluationReport, suffix: string, ext: string) =>
+  `${fileSafe(report.examReference)}_${suffix}.${ext}`;
+
+type Question = EvaluationReport['questionWiseFeedback'][number];
+
+const facultyAddition = (q: Question) => {
+  if (!q.aiFeedbackAddition) return '';
+  const cited = formatEvidence(q.aiEvidence);
+  return `${q.aiFeedbackAddition} [${additionDecision(q)}]${cited ? `\nSources: ${cited}` : q.aiUngrounded ? '\nNo citation' : ''}`;
+};
+
+const observationText = (o: EvaluationReport['finalizedFeedback'][number]) => {
+  const cited = formatEvidence(o.evidence);
+  return cited ? `${o.observation} (${cited})` : o.observation;
+};
+
+// Columns per audience; the student copy has already been stripped by projectReport.
+const QUESTION_COLUMNS: Record<ReportViewMode, { label: string; width: number; value: (q: Question) => string }[]> = {
+  student: [
+    { label: 'Q', width: 8, value: q => q.questionNo },
+    { label: 'Marks', width: 12, value: q => `${q.marksAwarded} / ${q.maxMarks}` },
+    { label: 'Evaluator Feedback', width: 40, value: q => q.humanFeedback },
+    { label: 'Additional Guidance', width: 40, value: q => q.aiFeedbackAddition }
+  ],
+  faculty: [
+    { label: 'Q', width: 6, value: q => q.questionNo },
+    { label: 'Marks', width: 8, value: q => `${q.marksAwarded} / ${q.maxMarks}` },
+    { label: 'Key Points', width: 20, value: q => q.keyAnswerPoints },
+    { label: 'Student Answer (OCR)', width: 22, value: q => q.studentAnswerSummary },
+    { label: 'Evaluator Feedback', width: 22, value: q => q.humanFeedback },
+    { label: 'AI Addition', width: 22, value: facultyAddition }
+  ]
+};
+
+const auditRows = (report: EvaluationReport): string[][] => {
+  const sv = report.scoreVerification;
+  return [
+    ['Recomputed question sum', String(sv.calculatedTotal)],
+    ['Reported total', String(sv.reportedTotal)],
+    ['Maximum marks', String(sv.maxTotal ?? '')],
+    ['Status', sv.status],
+    ...(report.promptProfile ? [['Prompt profile', profileLabel(report.promptProfile)]] : []),
+    ...(report.generatedBy ? [['Evaluation run by', `${report.generatedBy.name} (${report.generatedBy.role})`]] : []),
+    ...(sv.discrepancies || []).map(d => [`${d.severity.toUpperCase()} · ${d.type}`, d.message])
+  ];
+};
+
+const MODERATION_LABELS = ['Q', 'Awarded', 'Suggested', 'Difference', 'Confidence', 'Rationale'];
+const MODERATION_WIDTHS = [6, 10, 10, 12, 12, 50];
+
+const moderationRows = (report: EvaluationReport): string[][] =>
+  (report.moderation?.items || []).map(i => [
+    i.questionNo,
+    String(i.marksAwarded),
+    String(i.suggestedMark),
+    `${formatDifference(i.difference)}${i.flagged ? ' (review)' : ''}`,
+    CONFIDENCE_LABELS[i.confidence],
+    i.rationale
+  ]);
+
+const moderationTitle = (report: EvaluationReport) =>
+  `Second-Marker Moderation (tolerance ±${report.moderation!.tolerance}, ${report.moderation!.flagged} flagged)`;
+
+// --- PDF ---
+
+// jsPDF's built-in Helvetica has no glyphs for written marks such as "2½" or
+// "⅔", so the PDF embeds DejaVu Sans. Fetched once, on the first export.
+const PDF_FONT_FAMILY = 'DejaVuSans';
+const PDF_FONT_URLS = {
+  normal: 'https://cdn.jsdelivr.net/npm/dejavu-fonts-ttf@2.37.3/ttf/DejaVuSans.ttf',
+  bold: 'https://cdn.jsdelivr.net/npm/dejavu-fonts-ttf@2.37.3/ttf/DejaVuSans-Bold.ttf'
+};
+
+type PdfFont = Record<keyof typeof PDF_FONT_URLS, string>;
+
+const fetchBase64 = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`${url} returned ${response.status}`);
+  const blob = await response.blob();
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+let pdfFont: Promise<PdfFont | null> | null = null;
+
+// Resolves to null when the font cannot be fetched; the next export tries again.
+const loadPdfFont = () =>
+  (pdfFont ??= Promise.all([fetchBase64(PDF_FONT_URLS.normal), fetchBase64(PDF_FONT_URLS.bold)])
+    .then(([normal, bold]) => ({ normal, bold }))
+    .catch(e => {
+      console.warn('Could not load the PDF font; using Helvetica with plain-text fractions:', e);
+      pdfFont = null;
+      return null;
+    }));
+
+const ASCII_FRACTIONS: Record<string, string> = {
+  '½': '1/2', '¼': '1/4', '¾': '3/4', '⅓': '1/3', '⅔': '2/3', '⅕': '1/5', '⅖': '2/5', '⅗': '3/5', '⅘': '4/5'
+};
+
+/** "2½" becomes "2 1/2", for the Helvetica fallback. */
+const asciiFractions = (text: string) =>
+  text.replace(/(\d?)([½¼¾⅓⅔⅕⅖⅗⅘])/g, (_, whole: string, fraction: string) => `${whole ? `${whole} ` : ''}${ASCII_FRACTIONS[fraction]}`);
+
+// jspdf-autotable records where its last table ended on the document, untyped.
+interface AutoTableDoc {
+  lastAutoTable?: { finalY: number };
+}
+
+export const exportReportPdf = async (
+  source: EvaluationReport,
+  mode: ReportViewMode = 'student',
+  branding: ExportBranding = loadBranding()
+): Promise<Blob> => {
+  assertReleasable(source, mode);
+  const report = projectReport(source, mode);
+  const columns = QUESTION_COLUMNS[mode];
+  const doc = new jsPDF({ unit: 'pt', format: 'a4' });
+  const font = await loadPdfFont();
+  const family = font ? PDF_FONT_FAMILY : 'helvetica';
+  if (font) {
+    doc.addFileToVFS(`${PDF_FONT_FAMILY}.ttf`, font.normal);
+    doc.addFont(`${PDF_FONT_FAMILY}.ttf`, PDF_FONT_FAMILY, 'normal');
+    doc.addFileToVFS(`${PDF_FONT_FAMILY}-Bold.ttf`, font.bold);
+    doc.addFont(`${PDF_FONT_FAMILY}-Bold.ttf`, PDF_FONT_FAMILY, 'bold');
+  }
+  const text = (s: string) => (font ? s : asciiFractions(s));
+  const rows = (body: string[][]) => body.map(row => row.map(text));
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 48;
+  const letterheadHeight = 86;
+
+  const drawLetterhead = () => {
+    doc.setFillColor(...INDIGO);
+    doc.rect(0, 0, pageWidth, 6, 'F');
+    doc.setTextColor(...INDIGO);
+    doc.setFont(family, 'bold');
+    doc.setFontSize(15);
+    doc.text(text(branding.institutionName), margin, 36);
+    doc.setFont(family, 'normal');
+    doc.setFontSize(9);
+    doc.setTextColor(...SLATE);
+    doc.text(text([branding.department, branding.addressLine].filter(Boolean).join('  ·  ')), margin, 52);
+    doc.setDrawColor(226, 232, 240);
+    doc.line(margin, 64, pageWidth - margin, 64);
+  };
+
+  drawLetterhead();
+  let y = letterheadHeight;
+
+  doc.setTextColor(15, 23, 42);
+  doc.setFont(family, 'bold');
+  doc.setFontSize(18);
+  const title = doc.splitTextToSize(text(report.examReference), pageWidth - margin * 2 - 120);
+  doc.text(title, margin, y + 10);
+  // Baseline of the title's last line; a long exam reference wraps below the total.
+  const titleBottom = y + 10 + (title.length - 1) * 18 * doc.getLineHeightFactor();
+  doc.setFontSize(28);
+  const total = `${report.scoreVerification.reportedTotal}${report.scoreVerification.maxTotal ? ` / ${report.scoreVerification.maxTotal}` : ''}`;
+  doc.text(text(total), pageWidth - margin, y + 14, { align: 'right' });
+  doc.setFont(family, 'normal');
+  doc.setFontSize(8);
+  doc.setTextColor(...SLATE);
+  doc.text('TOTAL MARKS', pageWidth - margin, y + 28, { align: 'right' });
+  y = Math.max(titleBottom, y + 28) + 24;
+
+  doc.setFont(family, 'bold');
+  doc.setFontSize(10);
+  doc.setTextColor(...INDIGO);
+  doc.text('OVERALL FEEDBACK', margin, y);
+  y += 14;
+  doc.setFont(family, 'normal');
+  doc.setFontSize(10);
+  doc.setTextColor(51, 65, 85);
+  const synthesis = doc.splitTextToSize(text(report.elaboratedGeneralisedFeedback), pageWidth - margin * 2);
+  doc.text(synthesis, margin, y);
+  y += synthesis.length * 13 + 18;
+
+  const tableStyles = {
+    margin: { top: letterheadHeight, left: margin, right: margin, bottom: 48 },
+    showHead: 'everyPage' as const,
+    rowPageBreak: 'avoid' as const,
+    styles: { font: family, fontSize: mode === 'student' ? 9 : 7.5, cellPadding: 6, valign: 'top' as const, overflow: 'linebreak' as const },
+    headStyles: { fillColor: INDIGO, textColor: 255, fontStyle: 'bold' as const },
+    alternateRowStyles: { fillColor: [248, 250, 252] as [number, number, number] },
+    didDrawPage: () => drawLetterhead()
+  };
+  const usableWidth = pageWidth - margin * 2;
+
+  autoTable(doc, {
+    ...tableStyles,
+    startY: y,
+    head: [columns.map(c => c.label)],
+    body: rows(report.questionWiseFeedback.map(q => columns.map(c => c.value(q)))),
+    columnStyles: Object.fromEntries(columns.map((c, i) => [i, { cellWidth: (usableWidth * c.width) / 100, fontStyle: i === 0 ? 'bold' : 'normal' }]))
+  });
+
+  if (mode === 'faculty') {
+    const after = () => ((doc as AutoTableDoc).lastAutoTable?.finalY ?? y) + 24;
+    autoTable(doc, { ...tableStyles, startY: after(), head: [['Score Integrity Audit', '']], body: rows(auditRows(report)) });
+    if (report.moderation) {
+      autoTable(doc, {
+        ...tableStyles,
+        startY: after(),
+        head: [[{ content: text(moderationTitle(report)), colSpan: MODERATION_LABELS.length }], MODERATION_LABELS],
+        body: rows(moderationRows(report)),
+        columnStyles: Object.fromEntries(MODERATION_WIDTHS.map((w, i) => [i, { cellWidth: (usableWidth * w) / 100 }]))
+      });
+    }
+    if (report.finalizedFeedback.length) {
+      autoTable(doc, { ...tableStyles, startY: after(), head: [['Observation', '']], body: rows(report.finalizedFeedback.map(o => [o.section, observationText(o)])) });
+    }
+  }
+
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setTextColor(...SLATE);
+    doc.text(`Page ${page} of ${pages}`, pageWidth - margin, pageHeight - 24, { align: 'right' });
+    doc.text(text(report.examReference), margin, pageHeight - 24);
+  }
+
+  return doc.output('blob');
+};
+
+// --- DOCX ---
+
+const cell = (text: string | number, opts: { header?: boolean; width?: number } = {}) =>
+  new TableCell({
+    width: opts.width ? { size: opts.width, type: WidthType.PERCENTAGE } : undefined,
+    shading: opts.header ? { type: ShadingType.CLEAR, color: 'auto', fill: '1E1B4B' } : undefined,
+    margins: { top: 80, bottom: 80, left: 100, right: 100 },
+    children: [new Paragraph({ children: [new TextRun({ text: String(text ?? ''), bold: opts.header, color: opts.header ? 'FFFFFF' : undefined, size: 18 })] })]
+  });
+
+const headerRow = (labels: string[], widths: number[]) =>
+  new TableRow({ tableHeader: true, cantSplit: true, children: labels.map((l, i) => cell(l, { header: true, width: widths[i] })) });
+
+const table = (labels: string[], widths: number[], rows: (string | number)[][]) =>
+  new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [headerRow(labels, widths), ...rows.map(r => new TableRow({ cantSplit: true, children: r.map((v, i) => cell(v, { width: widths[i] })) }))]
+  });
+
+const heading = (text: string) => new Paragraph({ text, heading: HeadingLevel.HEADING_2, spacing: { before: 320, after: 120 } });
+
+export const exportReportDocx = async (
+  source: EvaluationReport,
+  mode: ReportViewMode = 'faculty',
+  branding: ExportBranding = loadBranding()
+): Promise<Blob> => {
+  assertReleasable(source, mode);
+  const report = projectReport(source, mode);
+  const columns = QUESTION_COLUMNS[mode];
+  const review = getReview(source);
+
+  const facultySections = mode === 'faculty' ? [
+    heading('Score Integrity Audit'),
+    table(['Metric', 'Value'], [40, 60], auditRows(report)),
+
+    ...(report.moderation ? [
+      heading(moderationTitle(report)),
+      table(MODERATION_LABELS, MODERATION_WIDTHS, moderationRows(report))
+    ] : []),
+
+    heading('Anatomical Observations'),
+    ...report.finalizedFeedback.map(o => new Paragraph({ bullet: { level: 0 }, children: [new TextRun({ text: `${o.section}: `, bold: true }), new TextRun(observationText(o))] })),
+
+    heading('AI Compliance Checklist'),
+    table(['Task', 'Status', 'Evidence'], [35, 15, 50], report.actionSummary.map(a => [a.task, a.status, a.evidence]))
+  ] : [];
+
+  const doc = new Document({
+    creator: branding.institutionName,
+    title: report.examReference,
+    sections: [{
+      headers: {
+        default: new Header({
+          children: [
+            new Paragraph({ children: [new TextRun({ text: branding.institutionName, bold: true, size: 28, color: '1E1B4B' })] }),
+            new Paragraph({
+              border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: 'E2E8F0', space: 4 } },
+              children: [new TextRun({ text: [branding.department, branding.addressLine].filter(Boolean).join('  ·  '), size: 16, color: '64748B' })]
+            })
+          ]
+        })
+      },
+      footers: {
+        default: new Footer({
+          children: [new Paragraph({
+            alignment: AlignmentType.RIGHT,
+            children: [new TextRun({ children: [`${report.examReference}  ·  Page `, PageNumber.CURRENT, ' of ', PageNumber.TOTAL_PAGES], size: 16, color: '64748B' })]
+          })]
+        })
+      },
+      children: [
+        new Paragraph({ text: report.examReference, heading: HeadingLevel.HEADING_1 }),
+        new Paragraph({
+          children: [new TextRun({
+            text: mode === 'faculty'
+              ? `${report.evaluationType} · Review state: ${review.state}${review.approvedBy ? ` (signed off by ${review.approvedBy}, ${review.approvedAt})` : ''}`
+              : `Total: ${report.scoreVerification.reportedTotal}${report.scoreVerification.maxTotal ? ` / ${report.scoreVerification.maxTotal}` : ''}`,
+            size: 18,
+            color: '64748B'
+          })]
+        }),
+
+        heading(mode === 'faculty' ? 'Elaborated Academic Synthesis' : 'Overall Feedback'),
+        new Paragraph({ text: report.elaboratedGeneralisedFeedback }),
+
+        heading('Question-wise Feedback'),
+        table(
+          columns.map(c => c.label),
+          columns.map(c => c.width),
+          report.questionWiseFeedback.map(q => columns.map(c => c.value(q)))
+        ),
+
+        ...facultySections
+      ]
+    }]
+  });
+
+  return Packer.toBlob(doc);
+};
+
+// --- DOWNLOADS ---
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/** One zip for the class: a faculty DOCX per completed script, and a student PDF once it is signed off. */
+export const exportBatchZip = async (items: BatchItem[], branding: ExportBranding = loadBranding()): Promise<Blob> => {
+  const zip = new JSZip();
+  for (const item of items) {
+    if (!item.report) continue;
+    const folder = zip.folder(fileSafe(item.rollNumber))!;
+    if (studentCopyReleased(item.report)) {
+      folder.file(reportFileName(item.report, `${item.rollNumber}_student`, 'pdf'), await exportReportPdf(item.report, 'student', branding));
+    }
+    folder.file(reportFileName(item.report, `${item.rollNumber}_faculty`, 'docx'), await exportReportDocx(item.report, 'faculty', branding));
+  }
+  return zip.generateAsync({ type: 'blob' });
+};
@@ -0,0 +1,183 @@
+import { EvaluationReport, HistoryFilters, StoredReport } from '../types';
+import { getReview } from './review';
+import { revealText } from './pseudonyms';
+import { authHeaders } from './session';
+
+const DB_NAME = 'anatomyguard';
+const DB_VERSION = 1;
+const STORE = 'reports';
+const SYNC_KEY = 'anatomyguard.historySync';
+const DELETED_KEY = 'anatomyguard.deletedReports';
+const REMOTE_URL = '/.netlify/functions/reports';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () =>
+  (dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'id' });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  }));
+
+const withStore = async <T>(mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = op(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new DOMException('The history transaction was aborted.', 'AbortError'));
+  });
+};
+
+export const isHistorySyncEnabled = () => localStorage.getItem(SYNC_KEY) === 'on';
+
+export const setHistorySyncEnabled = (enabled: boolean) => {
+  if (enabled) localStorage.setItem(SYNC_KEY, 'on');
+  else localStorage.removeItem(SYNC_KEY);
+};
+
+// Reports deleted here whose server copy may still exist. They stay hidden
+// when the server history is merged in, until the server confirms the delete.
+const loadDeleted = (): string[] => {
+  try {
+    return JSON.parse(localStorage.getItem(DELETED_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const setDeleted = (id: string, deleted: boolean) => {
+  const ids = loadDeleted().filter(d => d !== id);
+  if (deleted) ids.push(id);
+  if (ids.length) localStorage.setItem(DELETED_KEY, JSON.stringify(ids));
+  else localStorage.removeItem(DELETED_KEY);
+};
+
+// Told about each save or delete the server did not take; set by the app so
+// the user sees it. The browser copy is kept either way.
+let syncFailed = (message: string) => console.warn(message);
+
+export const onSyncFailure = (listener: (message: string) => void) => {
+  syncFailed = listener;
+};
+
+// The browser store stays authoritative; with sync on, saves and deletes go
+// to the server too, which logs the changes in each save to the audit trail.
+const mirror = async (init: RequestInit, query = '') => {
+  if (!isHistorySyncEnabled()) return false;
+  try {
+    const r = await fetch(`${REMOTE_URL}${query}`, { ...init, headers: { ...init.headers, ...authHeaders() } });
+    if (!r.ok) throw new Error((await r.json().catch(() => null))?.error || `${r.status} ${r.statusText}`);
+    return true;
+  } catch (e: any) {
+    syncFailed(`The server did not take this change to the report history: ${e.message || e}`);
+    return false;
+  }
+};
+
+const mirrorDelete = (id: string) =>
+  mirror({ method: 'DELETE' }, `?id=${encodeURIComponent(id)}`).then(done => done && setDeleted(id, false));
+
+/** Gives a freshly generated report the identity history needs. */
+export const stampReport = (report: EvaluationReport, studentId?: string): EvaluationReport => ({
+  ...report,
+  id: report.id || crypto.randomUUID(),
+  evaluatedAt: report.evaluatedAt || new Date().toISOString(),
+  studentId: report.studentId || studentId
+});
+
+const getEntry = (id: string) => withStore<StoredReport | undefined>('readonly', store => store.get(id));
+
+// Each save is compared with the one before it on the server, so they are sent one at a time in the order made.
+let saving: Promise<unknown> = Promise.resolve();
+
+/** Settles once every save made so far has reached the server, or failed to. */
+export const whenSaved = () => saving;
+
+const putEntry = async (entry: StoredReport) => {
+  await withStore('readwrite', store => store.put(entry));
+  setDeleted(entry.id, false);
+  saving = saving.then(() => mirror({ method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(entry) }));
+  return entry;
+};
+
+/**
+ * The saved copy of a report if this browser has one. A cached evaluation
+ * comes back to the same user under the same id each time, and the saved
+ * copy holds the review edits made to it since.
+ */
+export const savedVersionOf = async (report: EvaluationReport): Promise<EvaluationReport> =>
+  (report.id && (await getEntry(report.id))?.report) || report;
+
+/** Saves or updates the history entry for a report; archived state is kept. */
+export const saveReport = async (report: EvaluationReport): Promise<StoredReport> => {
+  const stamped = stampReport(report);
+  const existing = await getEntry(stamped.id!);
+  return putEntry({
+    id: stamped.id!,
+    examReference: stamped.examReference,
+    studentId: stamped.studentId,
+    reviewState: getReview(stamped).state,
+    evaluatedAt: stamped.evaluatedAt!,
+    updatedAt: new Date().toISOString(),
+    archived: existing?.archived ?? false,
+    report: stamped
+  });
+};
+
+const byNewest = (a: StoredReport, b: StoredReport) => b.evaluatedAt.localeCompare(a.evaluatedAt);
+
+/** Every saved report, newest first, merged with the server copy when sync is on. */
+export const listReports = async (): Promise<StoredReport[]> => {
+  const local = await withStore<StoredReport[]>('readonly', store => store.getAll());
+  if (!isHistorySyncEnabled()) return local.sort(byNewest);
+
+  try {
+    const response = await fetch(REMOTE_URL, { headers: authHeaders() });
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+    const merged = new Map(local.map(e => [e.id, e]));
+    const deleted = new Set(loadDeleted());
+    for (const entry of (await response.json()) as StoredReport[]) {
+      // Still on the server after a delete that did not get through; try again.
+      if (deleted.has(entry.id)) {
+        mirrorDelete(entry.id);
+        continue;
+      }
+      const mine = merged.get(entry.id);
+      if (!mine || entry.updatedAt > mine.updatedAt) merged.set(entry.id, entry);
+    }
+    return [...merged.values()].sort(byNewest);
+  } catch (e) {
+    console.warn('Could not load server report history:', e);
+    return local.sort(byNewest);
+  }
+};
+
+export const setArchived = async (id: string, archived: boolean) => {
+  const entry = await getEntry(id);
+  if (!entry) throw new Error('This report is no longer in the history.');
+  return putEntry({ ...entry, archived, updatedAt: new Date().toISOString() });
+};
+
+export const deleteReport = async (id: string) => {
+  await withStore('readwrite', store => store.delete(id));
+  // Kept even with sync off: a copy mirrored earlier must not come back when it is turned on.
+  setDeleted(id, true);
+  mirrorDelete(id);
+};
+
+export const filterHistory = (entries: StoredReport[], { query, reviewState, from, to, includeArchived }: HistoryFilters) => {
+  const needle = query?.trim().toLowerCase();
+  return entries.filter(e =>
+    (includeArchived || !e.archived) &&
+    (!reviewState || e.reviewState === reviewState) &&
+    (!from || e.evaluatedAt.slice(0, 10) >= from) &&
+    (!to || e.evaluatedAt.slice(0, 10) <= to) &&
+    (!needle || revealText(`${e.examReference} ${e.studentId || ''}`).toLowerCase().includes(needle))
+  );
+};
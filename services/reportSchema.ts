@@ -0,0 +1,205 @@
+import { EvaluationReport, ReportValidationError } from '../types';
+
+export type FieldKind = 'string' | 'number' | 'mark' | 'array' | 'object';
+
+/**
+ * One field of the report. Fields with a `default` are requested from the
+ * model but filled in when it leaves them out; `optional` fields are neither
+ * required nor defaulted; `derived` fields are computed server-side and never
+ * requested from the model.
+ */
+export interface FieldSpec {
+  kind: FieldKind;
+  default?: unknown;
+  optional?: boolean;
+  derived?: boolean;
+  minItems?: number;
+  /** Allowed values for a string field. */
+  enum?: string[];
+  /** For a list: items that fail validation are left out instead of failing the report. */
+  dropInvalid?: boolean;
+  items?: FieldSpec;
+  properties?: Record<string, FieldSpec>;
+}
+
+const text = (fallback?: string): FieldSpec => (fallback === undefined ? { kind: 'string' } : { kind: 'string', default: fallback });
+const list = (items: FieldSpec, extra: Partial<FieldSpec> = {}): FieldSpec => ({ kind: 'array', items, ...extra });
+const object = (properties: Record<string, FieldSpec>, extra: Partial<FieldSpec> = {}): FieldSpec => ({ kind: 'object', properties, ...extra });
+
+const evidence = list(
+  object({
+    source: { kind: 'string', enum: ['studentScript', 'markingScheme'] },
+    page: { kind: 'number', optional: true },
+    quote: text('')
+  }),
+  // One unusable citation should cost that citation, not the whole report.
+  { default: [], dropInvalid: true }
+);
+
+/** The shape of `EvaluationReport`, shared by the evaluate function and the client. */
+export const REPORT_SCHEMA: FieldSpec = object({
+  examReference: text(),
+  evaluatorName: text(''),
+  evaluationType: text(''),
+  aiModelRole: text(''),
+  elaboratedGeneralisedFeedback: text(''),
+  questionWiseFeedback: list(
+    object({
+      questionNo: text(),
+      maxMarks: { kind: 'mark', default: '' },
+      marksAwarded: { kind: 'mark' },
+      keyAnswerPoints: text(''),
+      studentAnswerSummary: text(''),
+      humanFeedback: text(''),
+      aiFeedbackAddition: text(''),
+      aiEvidence: evidence,
+      secondMarker: object(
+        {
+          suggestedMark: { kind: 'mark' },
+          rationale: text(''),
+          confidence: { kind: 'string', enum: ['low', 'medium', 'high'], default: 'low' }
+        },
+        { optional: true }
+      )
+    }),
+    { minItems: 1 }
+  ),
+  optionalSections: list(
+    object({
+      label: text(''),
+      questionNos: list(text()),
+      attemptAny: { kind: 'number' }
+    }),
+    { optional: true }
+  ),
+  scoreVerification: object({
+    reportedTotal: { kind: 'mark' },
+    calculatedTotal: { kind: 'number', optional: true, derived: true },
+    maxTotal: { kind: 'number', optional: true, derived: true },
+    status: { kind: 'string', optional: true, derived: true }
+  }),
+  finalizedFeedback: list(object({ section: text(''), observation: text(''), evidence }), { default: [] }),
+  actionSummary: list(object({ task: text(''), status: text(''), evidence: text('') }), { default: [] }),
+  moderation: object(
+    {
+      tolerance: { kind: 'number' },
+      flagged: { kind: 'number' },
+      items: list(
+        object({
+          questionNo: text(),
+          marksAwarded: { kind: 'mark' },
+          suggestedMark: { kind: 'mark' },
+          difference: { kind: 'number', optional: true },
+          rationale: text(''),
+          confidence: { kind: 'string', enum: ['low', 'medium', 'high'], default: 'low' }
+        })
+      )
+    },
+    { optional: true, derived: true }
+  ),
+  promptProfile: object(
+    {
+      id: text(),
+      version: { kind: 'number' },
+      name: text()
+    },
+    { optional: true, derived: true }
+  ),
+  generatedBy: object(
+    {
+      id: text(),
+      name: text(),
+      role: { kind: 'string', enum: ['evaluator', 'moderator', 'admin'] }
+    },
+    { optional: true, derived: true }
+  )
+});
+
+export type ValidationResult =
+  | { ok: true; report: EvaluationReport }
+  | { ok: false; errors: ReportValidationError[] };
+
+const isNumeric = (s: string) => /^-?\d*\.?\d+$/.test(s);
+const describe = (value: unknown) => (Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value);
+const join = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+const normalize = (spec: FieldSpec, value: unknown, path: string, errors: ReportValidationError[]): unknown => {
+  const fail = (message: string) => {
+    errors.push({ path: path || '$', message });
+    return undefined;
+  };
+
+  if (value === undefined || value === null) {
+    if (spec.default !== undefined) return Array.isArray(spec.default) ? [...spec.default] : spec.default;
+    return spec.optional ? undefined : fail('is required');
+  }
+
+  switch (spec.kind) {
+    case 'string': {
+      const s = typeof value === 'string' ? value.trim() : typeof value === 'number' && Number.isFinite(value) ? String(value) : undefined;
+      if (s === undefined) return fail(`expected text, got ${describe(value)}`);
+      return spec.enum && !spec.enum.includes(s) ? fail(`must be one of ${spec.enum.join(', ')}, got "${s}"`) : s;
+    }
+
+    case 'number': {
+      const n = typeof value === 'string' && isNumeric(value.trim()) ? Number(value.trim()) : value;
+      return typeof n === 'number' && Number.isFinite(n) ? n : fail(`expected a number, got ${JSON.stringify(value)}`);
+    }
+
+    case 'mark':
+      // Plain numbers are coerced; written forms such as "2½" or "NA" are kept for parseMark.
+      if (typeof value === 'number') return Number.isFinite(value) ? value : fail('expected a finite mark');
+      if (typeof value !== 'string') return fail(`expected a mark, got ${describe(value)}`);
+      if (!value.trim() && spec.default === undefined) return fail('is empty');
+      return isNumeric(value.trim()) ? Number(value.trim()) : value.trim();
+
+    case 'array': {
+      if (!Array.isArray(value)) return fail(`expected a list, got ${describe(value)}`);
+      if (spec.minItems && value.length < spec.minItems) return fail(`must contain at least ${spec.minItems} item(s)`);
+      if (spec.dropInvalid) {
+        return value.flatMap((item, i) => {
+          const itemErrors: ReportValidationError[] = [];
+          const normalized = normalize(spec.items!, item, `${path}[${i}]`, itemErrors);
+          return itemErrors.length ? [] : [normalized];
+        });
+      }
+      return value.map((item, i) => normalize(spec.items!, item, `${path}[${i}]`, errors));
+    }
+
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) return fail(`expected an object, got ${describe(value)}`);
+      // Unknown keys (review state, template id, discrepancies) pass through untouched.
+      const result: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+      for (const [key, field] of Object.entries(spec.properties!)) {
+        const normalized = normalize(field, (value as Record<string, unknown>)[key], join(path, key), errors);
+        if (normalized === undefined) delete result[key];
+        else result[key] = normalized;
+      }
+      return result;
+    }
+  }
+};
+
+/**
+ * Checks a parsed response against `REPORT_SCHEMA`, coercing marks and
+ * filling defaults. Every problem is collected rather than stopping at the
+ * first, so the full list can be fed back to the model.
+ */
+export const validateReport = (value: unknown): ValidationResult => {
+  const errors: ReportValidationError[] = [];
+  const report = normalize(REPORT_SCHEMA, value, '', errors);
+  return errors.length ? { ok: false, errors } : { ok: true, report: report as EvaluationReport };
+};
+
+/** As `validateReport`, for the raw text of a model response. */
+export const parseReport = (raw: string | undefined | null): ValidationResult => {
+  if (!raw || !raw.trim()) return { ok: false, errors: [{ path: '$', message: 'response was empty' }] };
+  try {
+    return validateReport(JSON.parse(raw.trim()));
+  } catch (e: any) {
+    return { ok: false, errors: [{ path: '$', message: `not valid JSON (${e.message})` }] };
+  }
+};
+
+export const formatValidationErrors = (errors: ReportValidationError[]) =>
+  errors.map(e => `${e.path}: ${e.message}`).join('\n');
@@ -0,0 +1,40 @@
+import { EvaluationReport, QuestionFeedback, ReportViewMode } from '../types';
+import { additionDecision } from './review';
+
+export const VIEW_MODE_LABELS: Record<ReportViewMode, string> = {
+  student: 'Student Copy',
+  faculty: 'Faculty Copy'
+};
+
+/** Students only ever see AI additions a faculty member has accepted. */
+export const isAdditionVisible = (q: QuestionFeedback, mode: ReportViewMode) =>
+  !!q.aiFeedbackAddition && (mode === 'faculty' || additionDecision(q) === 'accepted');
+
+/**
+ * The report as the given audience should see it. The student copy keeps
+ * marks, human feedback, accepted AI additions and the synthesis; audit
+ * material (model role, OCR extracts, key points, discrepancies, checklist)
+ * is stripped rather than hidden so nothing leaks into exports.
+ */
+export const projectReport = (report: EvaluationReport, mode: ReportViewMode): EvaluationReport => {
+  if (mode === 'faculty') return report;
+  const { calculatedTotal, reportedTotal, maxTotal, status } = report.scoreVerification;
+  return {
+    examReference: report.examReference,
+    evaluationType: report.evaluationType,
+    aiModelRole: '',
+    elaboratedGeneralisedFeedback: report.elaboratedGeneralisedFeedback,
+    questionWiseFeedback: report.questionWiseFeedback.map(q => ({
+      questionNo: q.questionNo,
+      maxMarks: q.maxMarks,
+      marksAwarded: q.marksAwarded,
+      keyAnswerPoints: '',
+      studentAnswerSummary: '',
+      humanFeedback: q.humanFeedback,
+      aiFeedbackAddition: isAdditionVisible(q, mode) ? q.aiFeedbackAddition : ''
+    })),
+    scoreVerification: { calculatedTotal, reportedTotal, maxTotal, status },
+    finalizedFeedback: [],
+    actionSummary: []
+  };
+};
@@ -0,0 +1,95 @@
+import { EvaluationReport, FieldOrigin, QuestionFeedback, ReportReview, SuggestionDecision } from '../types';
+
+export type EditableQuestionField = 'aiFeedbackAddition' | 'studentAnswerSummary';
+
+const EDITABLE_QUESTION_FIELDS: EditableQuestionField[] = ['aiFeedbackAddition', 'studentAnswerSummary'];
+
+export const SYNTHESIS_FIELD = 'elaboratedGeneralisedFeedback';
+export const questionField = (index: number, field: EditableQuestionField) => `questionWiseFeedback.${index}.${field}`;
+
+/** Every field of the report a reviewer may rewrite, as editField names them. */
+export const editableFields = (report: EvaluationReport) => [
+  SYNTHESIS_FIELD,
+  ...report.questionWiseFeedback.flatMap((_, index) => EDITABLE_QUESTION_FIELDS.map(field => questionField(index, field)))
+];
+
+const now = () => new Date().toISOString();
+
+export const getReview = (report: EvaluationReport): ReportReview =>
+  report.review || { state: 'draft', fieldOrigins: {}, edits: [] };
+
+export const fieldOrigin = (report: EvaluationReport, field: string): FieldOrigin =>
+  report.review?.fieldOrigins[field] || 'ai';
+
+export const additionDecision = (q: QuestionFeedback): SuggestionDecision => q.aiAdditionDecision || 'pending';
+
+const assertEditable = (review: ReportReview) => {
+  if (review.state === 'approved') throw new Error('This report has been signed off. Reopen it before making changes.');
+};
+
+export const readField = (report: EvaluationReport, field: string): string | undefined => {
+  if (field === SYNTHESIS_FIELD) return report.elaboratedGeneralisedFeedback;
+  const [, index, key] = field.split('.');
+  return report.questionWiseFeedback[Number(index)]?.[key as EditableQuestionField];
+};
+
+/**
+ * Replaces an AI-originated field with the reviewer's text. Any edit sends a
+ * reviewed report back to draft so it is checked again before sign-off.
+ */
+export const editField = (report: EvaluationReport, field: string, value: string, editedBy?: string): EvaluationReport => {
+  const review = getReview(report);
+  assertEditable(review);
+  const previousValue = readField(report, field);
+  if (previousValue === value) return report;
+
+  const next: EvaluationReport = { ...report, questionWiseFeedback: [...report.questionWiseFeedback] };
+  if (field === SYNTHESIS_FIELD) {
+    next.elaboratedGeneralisedFeedback = value;
+  } else {
+    const [, index, key] = field.split('.');
+    next.questionWiseFeedback[Number(index)] = { ...next.questionWiseFeedback[Number(index)], [key]: value };
+  }
+
+  next.review = {
+    ...review,
+    state: 'draft',
+    fieldOrigins: { ...review.fieldOrigins, [field]: 'human' },
+    edits: [...review.edits, { field, previousValue, newValue: value, editedAt: now(), editedBy }]
+  };
+  return next;
+};
+
+export const decideAddition = (report: EvaluationReport, index: number, decision: SuggestionDecision): EvaluationReport => {
+  const review = getReview(report);
+  assertEditable(review);
+  return {
+    ...report,
+    questionWiseFeedback: report.questionWiseFeedback.map((q, i) => (i === index ? { ...q, aiAdditionDecision: decision } : q)),
+    review: { ...review, state: 'draft' }
+  };
+};
+
+export const pendingDecisions = (report: EvaluationReport) =>
+  report.questionWiseFeedback.filter(q => q.aiFeedbackAddition && additionDecision(q) === 'pending').length;
+
+export const markReviewed = (report: EvaluationReport, reviewer: string): EvaluationReport => {
+  const review = getReview(report);
+  assertEditable(review);
+  const pending = pendingDecisions(report);
+  if (pending) throw new Error(`Accept or reject the remaining ${pending} AI suggestion(s) first.`);
+  if (!reviewer.trim()) throw new Error('Enter the reviewing faculty member\'s name.');
+  return { ...report, review: { ...review, state: 'reviewed', reviewedBy: reviewer.trim(), reviewedAt: now() } };
+};
+
+export const approveReport = (report: EvaluationReport, approver: string): EvaluationReport => {
+  const review = getReview(report);
+  if (review.state !== 'reviewed') throw new Error('Only a reviewed report can be signed off.');
+  if (!approver.trim()) throw new Error('Enter the name of the faculty member signing off.');
+  return { ...report, review: { ...review, state: 'approved', approvedBy: approver.trim(), approvedAt: now() } };
+};
+
+export const reopenReport = (report: EvaluationReport): EvaluationReport => {
+  const review = getReview(report);
+  return { ...report, review: { ...review, state: 'draft', approvedBy: undefined, approvedAt: undefined } };
+};
@@ -0,0 +1,25 @@
+import { AuthUser, UserRole } from '../types';
+
+export type Permission = 'evaluate' | 'moderate' | 'administer' | 'identify';
+
+/**
+ * What each role may do. Moderators run second-marker moderation and sign
+ * off reports; only admins remove reports from the shared server history or
+ * see which student is behind a pseudonym.
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  evaluator: ['evaluate'],
+  moderator: ['evaluate', 'moderate'],
+  admin: ['evaluate', 'moderate', 'administer', 'identify']
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  evaluator: 'Evaluator',
+  moderator: 'Moderator',
+  admin: 'Admin'
+};
+
+export const USER_ROLES = Object.keys(ROLE_PERMISSIONS) as UserRole[];
+
+export const can = (user: AuthUser | null | undefined, permission: Permission) =>
+  !!user && (ROLE_PERMISSIONS[user.role] || []).includes(permission);
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { QuestionFeedback } from '../types';
+import { parseMark, verifyScores } from './scoring';
+
+const question = (questionNo: string, marksAwarded: string | number, maxMarks: string | number = 5) =>
+  ({ questionNo, marksAwarded, maxMarks }) as QuestionFeedback;
+
+const types = (verification: ReturnType<typeof verifyScores>) => verification.discrepancies.map(d => d.type);
+
+describe('parseMark', () => {
+  it.each([
+    ['½', 0.5],
+    ['2½', 2.5],
+    ['2 1/2', 2.5],
+    ['1+1.5', 2.5],
+    ['2,5', 2.5],
+    ['5 marks', 5],
+    [3, 3]
+  ])('reads %j as %d', (input, value) => {
+    expect(parseMark(input)).toEqual({ value, notAttempted: false });
+  });
+
+  it.each(['NA', 'N/A', '—', '-', 'not attempted'])('reads %j as not attempted', input => {
+    expect(parseMark(input)).toEqual({ value: null, notAttempted: true });
+  });
+
+  it('reads a mark written out of a maximum', () => {
+    expect(parseMark('3/5')).toEqual({ value: 3, outOf: 5, notAttempted: false });
+    expect(parseMark('3½ out of 5')).toEqual({ value: 3.5, outOf: 5, notAttempted: false });
+  });
+
+  it('reads a bare "1/2" as 1 mark out of 2, not half a mark', () => {
+    expect(parseMark('1/2')).toEqual({ value: 1, outOf: 2, notAttempted: false });
+  });
+
+  it('leaves text that is not a mark unread', () => {
+    expect(parseMark('good')).toEqual({ value: null, notAttempted: false });
+    expect(parseMark('1+x')).toEqual({ value: null, notAttempted: false });
+  });
+});
+
+describe('verifyScores', () => {
+  it('totals the marks as written and agrees with a matching reported total', () => {
+    const verification = verifyScores([question('1', '2½'), question('2', '1+1'), question('3', 'NA')], '4½');
+
+    expect(verification).toMatchObject({ status: 'Correct', calculatedTotal: 4.5, reportedTotal: 4.5, maxTotal: 15 });
+    expect(verification.discrepancies).toEqual([]);
+  });
+
+  it('flags an over-award and a total that does not add up', () => {
+    const verification = verifyScores([question('1', 6), question('2', 3)], 10);
+
+    expect(verification).toMatchObject({ status: 'Incorrect', calculatedTotal: 9, reportedTotal: 10 });
+    expect(types(verification)).toEqual(['EXCEEDS_MAX', 'TOTAL_MISMATCH']);
+  });
+
+  it('warns when a mark is written out of a different maximum than the question carries', () => {
+    const verification = verifyScores([question('1', '3/4')], 3);
+
+    expect(verification.status).toBe('Correct');
+    expect(types(verification)).toEqual(['MAX_MARKS_CONFLICT']);
+  });
+
+  it('takes the maximum from a mark written out of one when the question has none', () => {
+    expect(verifyScores([question('1', '3/4', '')], 3).maxTotal).toBe(4);
+  });
+
+  it('fails a mark it cannot read', () => {
+    const verification = verifyScores([question('1', 'good')], 0);
+
+    expect(verification.status).toBe('Incorrect');
+    expect(types(verification)).toEqual(['UNPARSEABLE_MARK']);
+  });
+
+  it('counts only the best N attempts in an attempt-any section', () => {
+    const optionalSections = [{ label: 'Section B', questionNos: ['Q2', 'Q3', 'Q4'], attemptAny: 2 }];
+    const verification = verifyScores(
+      [question('1', 4), question('2', 2), question('3', 5), question('4', 3)],
+      12,
+      { optionalSections }
+    );
+
+    expect(verification).toMatchObject({ status: 'Correct', calculatedTotal: 12, maxTotal: 15 });
+    expect(types(verification)).toEqual(['OPTIONAL_OVER_ATTEMPT']);
+    expect(verification.discrepancies[0].message).toContain('(3, 4)');
+  });
+
+  it('checks the total maximum against the exam template', () => {
+    const verification = verifyScores([question('1', 4), question('2', 4)], 8, { expectedMaxTotal: 20 });
+
+    expect(verification.status).toBe('Incorrect');
+    expect(types(verification)).toEqual(['TEMPLATE_TOTAL_MISMATCH']);
+  });
+});
@@ -0,0 +1,236 @@
+import { OptionalSection, QuestionFeedback, ScoreDiscrepancy, ScoreVerification } from '../types';
+
+export interface ParsedMark {
+  value: number | null;
+  outOf?: number;
+  notAttempted: boolean;
+}
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  '½': 0.5, '¼': 0.25, '¾': 0.75, '⅓': 1 / 3, '⅔': 2 / 3, '⅕': 0.2, '⅖': 0.4, '⅗': 0.6, '⅘': 0.8
+};
+
+const NOT_ATTEMPTED = /^(n\/?a|not attempted|not answered|unattempted|absent|-+|—|–)$/;
+const TOLERANCE = 0.001;
+
+const round = (n: number) => Math.round(n * 100) / 100;
+export const questionLabel = (questionNo: string) => (/^q/i.test(questionNo) ? questionNo : `Q${questionNo}`);
+
+const parseNumber = (text: string): number | null => {
+  let s = text.trim();
+  if (!s) return null;
+
+  let fraction = 0;
+  const last = s.slice(-1);
+  if (last in UNICODE_FRACTIONS) {
+    fraction = UNICODE_FRACTIONS[last];
+    s = s.slice(0, -1).trim();
+    if (!s) return fraction;
+  }
+
+  // "2 1/2" style mixed numbers
+  const mixed = s.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed && Number(mixed[3]) !== 0) {
+    return Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]) + fraction;
+  }
+
+  if (!/^\d*\.?\d+$|^\d+\.$/.test(s)) return null;
+  return Number(s) + fraction;
+};
+
+/**
+ * Parses a mark as written by an evaluator or extracted by the model:
+ * "2.5", "2½", "½", "3/5", "1+1.5", "5 marks", "NA".
+ *
+ * A bare "a/b" is always a mark out of a maximum, so "1/2" reads as 1 mark
+ * out of 2, not half a mark; a maximum that disagrees with the question's is
+ * flagged by verifyScores. Half a mark is written "½", "0.5" or "2 1/2".
+ */
+export const parseMark = (input: string | number | null | undefined): ParsedMark => {
+  if (typeof input === 'number') {
+    return { value: Number.isFinite(input) ? input : null, notAttempted: false };
+  }
+  if (input === null || input === undefined) return { value: null, notAttempted: false };
+
+  const s = String(input)
+    .toLowerCase()
+    .replace(/\b(marks?|pts?|points?)\b\.?/g, '')
+    .replace(/,/g, '.')
+    .trim();
+
+  if (NOT_ATTEMPTED.test(s)) return { value: null, notAttempted: true };
+
+  const outOfMatch = s.match(/^(.+?)\s*(?:\/|out of|of)\s*(\d+(?:\.\d+)?)$/);
+  if (outOfMatch && !/^\d+\s+\d+$/.test(outOfMatch[1].trim())) {
+    const inner = parseMark(outOfMatch[1]);
+    return { ...inner, outOf: Number(outOfMatch[2]) };
+  }
+
+  if (s.includes('+')) {
+    const terms = s.split('+').map(parseNumber);
+    if (terms.some(t => t === null)) return { value: null, notAttempted: false };
+    return { value: round((terms as number[]).reduce((a, b) => a + b, 0)), notAttempted: false };
+  }
+
+  const value = parseNumber(s);
+  return { value: value === null ? null : round(value), notAttempted: false };
+};
+
+export const normalizeQuestionNo = (questionNo: string) =>
+  String(questionNo).toLowerCase().replace(/^(q(uestion)?\.?|no\.?)\s*/, '').replace(/[^a-z0-9]/g, '');
+
+interface ScoredQuestion {
+  questionNo: string;
+  awarded: number;
+  max: number | null;
+  attempted: boolean;
+}
+
+export interface VerifyScoresOptions {
+  optionalSections?: OptionalSection[];
+  /** Total marks the exam is known to carry, e.g. from an exam template. */
+  expectedMaxTotal?: number;
+  /** Findings from earlier stages that should count towards the status. */
+  discrepancies?: ScoreDiscrepancy[];
+}
+
+/**
+ * Recomputes the total from the question-wise marks instead of trusting the
+ * model's arithmetic. Optional sections count only the best N attempts.
+ */
+export const verifyScores = (
+  questions: QuestionFeedback[],
+  reportedTotalInput: string | number | null | undefined,
+  { optionalSections = [], expectedMaxTotal, discrepancies: prior = [] }: VerifyScoresOptions = {}
+): ScoreVerification => {
+  const discrepancies: ScoreDiscrepancy[] = [...prior];
+
+  const scored: ScoredQuestion[] = questions.map(q => {
+    const awarded = parseMark(q.marksAwarded);
+    const max = parseMark(q.maxMarks);
+    const maxValue = max.value ?? awarded.outOf ?? null;
+
+    if (awarded.value === null && !awarded.notAttempted) {
+      discrepancies.push({
+        type: 'UNPARSEABLE_MARK',
+        severity: 'error',
+        questionNo: q.questionNo,
+        message: `${questionLabel(q.questionNo)}: awarded mark "${q.marksAwarded}" could not be read as a number.`
+      });
+    }
+    if (maxValue === null) {
+      discrepancies.push({
+        type: 'UNPARSEABLE_MARK',
+        severity: 'warning',
+        questionNo: q.questionNo,
+        message: `${questionLabel(q.questionNo)}: maximum marks "${q.maxMarks}" could not be read; over-award check skipped.`
+      });
+    }
+    if (awarded.outOf !== undefined && max.value !== null && Math.abs(awarded.outOf - max.value) > TOLERANCE) {
+      discrepancies.push({
+        type: 'MAX_MARKS_CONFLICT',
+        severity: 'warning',
+        questionNo: q.questionNo,
+        message: `${questionLabel(q.questionNo)}: mark written out of ${awarded.outOf} but the question carries ${max.value}.`,
+        expected: max.value,
+        actual: awarded.outOf
+      });
+    }
+    if (awarded.value !== null && maxValue !== null && awarded.value - maxValue > TOLERANCE) {
+      discrepancies.push({
+        type: 'EXCEEDS_MAX',
+        severity: 'error',
+        questionNo: q.questionNo,
+        message: `${questionLabel(q.questionNo)}: ${awarded.value} awarded exceeds the maximum of ${maxValue}.`,
+        expected: maxValue,
+        actual: awarded.value
+      });
+    }
+
+    return {
+      questionNo: q.questionNo,
+      awarded: awarded.value ?? 0,
+      max: maxValue,
+      attempted: awarded.value !== null
+    };
+  });
+
+  const byNo = new Map(scored.map(s => [normalizeQuestionNo(s.questionNo), s]));
+  const grouped = new Set<ScoredQuestion>();
+  let calculatedTotal = 0;
+  let maxTotal = 0;
+
+  for (const section of optionalSections) {
+    const members = section.questionNos
+      .map(no => byNo.get(normalizeQuestionNo(no)))
+      .filter((s): s is ScoredQuestion => !!s && !grouped.has(s));
+    if (!members.length) continue;
+    members.forEach(m => grouped.add(m));
+
+    const attempted = members.filter(m => m.attempted).sort((a, b) => b.awarded - a.awarded);
+    const counted = attempted.slice(0, section.attemptAny);
+    calculatedTotal += counted.reduce((sum, m) => sum + m.awarded, 0);
+    maxTotal += members
+      .map(m => m.max ?? 0)
+      .sort((a, b) => b - a)
+      .slice(0, section.attemptAny)
+      .reduce((a, b) => a + b, 0);
+
+    if (attempted.length > section.attemptAny) {
+      discrepancies.push({
+        type: 'OPTIONAL_OVER_ATTEMPT',
+        severity: 'warning',
+        message: `${section.label}: ${attempted.length} questions attempted where any ${section.attemptAny} are required; the best ${section.attemptAny} (${counted.map(c => c.questionNo).join(', ')}) were counted.`,
+        expected: section.attemptAny,
+        actual: attempted.length
+      });
+    }
+  }
+
+  for (const s of scored) {
+    if (grouped.has(s)) continue;
+    calculatedTotal += s.awarded;
+    maxTotal += s.max ?? 0;
+  }
+
+  calculatedTotal = round(calculatedTotal);
+  maxTotal = round(maxTotal);
+
+  if (expectedMaxTotal !== undefined && Math.abs(expectedMaxTotal - maxTotal) > TOLERANCE) {
+    discrepancies.push({
+      type: 'TEMPLATE_TOTAL_MISMATCH',
+      severity: 'error',
+      message: `The questions in this report carry ${maxTotal} marks but the exam template totals ${expectedMaxTotal}.`,
+      expected: expectedMaxTotal,
+      actual: maxTotal
+    });
+  }
+
+  const reported = parseMark(reportedTotalInput);
+  const reportedTotal = reported.value ?? 0;
+  if (reported.value === null) {
+    discrepancies.push({
+      type: 'UNPARSEABLE_MARK',
+      severity: 'error',
+      message: `Reported total "${reportedTotalInput ?? ''}" could not be read from the evaluator feedback.`
+    });
+  } else if (Math.abs(calculatedTotal - reportedTotal) > TOLERANCE) {
+    discrepancies.push({
+      type: 'TOTAL_MISMATCH',
+      severity: 'error',
+      message: `Question-wise marks sum to ${calculatedTotal} but the evaluator reported ${reportedTotal} (difference ${round(reportedTotal - calculatedTotal)}).`,
+      expected: calculatedTotal,
+      actual: reportedTotal
+    });
+  }
+
+  const errors = discrepancies.filter(d => d.severity === 'error');
+  return {
+    calculatedTotal,
+    reportedTotal,
+    maxTotal,
+    status: errors.length ? 'Incorrect' : 'Correct',
+    discrepancyExplanation: discrepancies.length ? discrepancies.map(d => d.message).join(' ') : undefined,
+    discrepancies
+  };
+};
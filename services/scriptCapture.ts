@@ -0,0 +1,91 @@
+import { jsPDF } from 'jspdf';
+
+export interface CapturedPage {
+  id: string;
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+/** A region of a page as fractions of its width and height. */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Rear camera at the highest resolution the device offers, up to about 5 MP.
+export const CAPTURE_CONSTRAINTS: MediaStreamConstraints = {
+  audio: false,
+  video: { facingMode: { ideal: 'environment' }, width: { ideal: 2560 }, height: { ideal: 1920 } }
+};
+
+const JPEG_QUALITY = 0.85;
+const MIN_CROP = 0.05;
+
+export const cameraErrorMessage = (e: any): string => {
+  if (e?.name === 'NotAllowedError') return 'Camera access was blocked. Allow the camera for this site and try again.';
+  if (e?.name === 'NotFoundError' || e?.name === 'OverconstrainedError') return 'No usable camera was found on this device.';
+  if (!navigator.mediaDevices?.getUserMedia) return 'This browser cannot use the camera here. Open the app over HTTPS in a current browser.';
+  return e?.message || 'The camera could not be started.';
+};
+
+const toPage = (canvas: HTMLCanvasElement): CapturedPage => ({
+  id: crypto.randomUUID(),
+  dataUrl: canvas.toDataURL('image/jpeg', JPEG_QUALITY),
+  width: canvas.width,
+  height: canvas.height
+});
+
+export const captureFrame = (video: HTMLVideoElement): CapturedPage => {
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  canvas.getContext('2d')!.drawImage(video, 0, 0);
+  return toPage(canvas);
+};
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('The captured page could not be read.'));
+    img.src = src;
+  });
+
+export const cropPage = async (page: CapturedPage, rect: CropRect): Promise<CapturedPage> => {
+  if (rect.width < MIN_CROP || rect.height < MIN_CROP) return page;
+  const img = await loadImage(page.dataUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(rect.width * page.width);
+  canvas.height = Math.round(rect.height * page.height);
+  canvas.getContext('2d')!.drawImage(img, rect.x * page.width, rect.y * page.height, canvas.width, canvas.height, 0, 0, canvas.width, canvas.height);
+  return { ...toPage(canvas), id: page.id };
+};
+
+export const movePage = (pages: CapturedPage[], from: number, to: number): CapturedPage[] => {
+  if (to < 0 || to >= pages.length) return pages;
+  const next = [...pages];
+  next.splice(to, 0, next.splice(from, 1)[0]);
+  return next;
+};
+
+/**
+ * Puts the photographed pages into one PDF, one A4 page each, so a capture
+ * goes through the same checks and preprocessing as a scanned script.
+ */
+export const assembleScriptPdf = (pages: CapturedPage[], fileName: string): File => {
+  const orientation = (p: CapturedPage) => (p.width > p.height ? 'landscape' : 'portrait');
+  const doc = new jsPDF({ unit: 'pt', format: 'a4', orientation: orientation(pages[0]) });
+  pages.forEach((page, i) => {
+    if (i) doc.addPage('a4', orientation(page));
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const scale = Math.min(pageWidth / page.width, pageHeight / page.height);
+    const w = page.width * scale;
+    const h = page.height * scale;
+    doc.addImage(page.dataUrl, 'JPEG', (pageWidth - w) / 2, (pageHeight - h) / 2, w, h);
+  });
+  return new File([doc.output('blob')], fileName, { type: 'application/pdf' });
+};
@@ -0,0 +1,47 @@
+import { AuthSession, UserRole } from '../types';
+
+const SESSION_KEY = 'anatomyguard.session';
+const AUTH_URL = '/.netlify/functions/auth';
+
+/** Fired when the server rejects the stored token, so the app can return to sign-in. */
+export const SESSION_EXPIRED_EVENT = 'anatomyguard:session-expired';
+
+export const loadSession = (): AuthSession | null => {
+  try {
+    const session: AuthSession | null = JSON.parse(localStorage.getItem(SESSION_KEY) || 'null');
+    return session && Date.parse(session.expiresAt) > Date.now() ? session : null;
+  } catch {
+    return null;
+  }
+};
+
+export const clearSession = () => localStorage.removeItem(SESSION_KEY);
+
+export const expireSession = () => {
+  clearSession();
+  window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT));
+};
+
+export const authHeaders = (): Record<string, string> => {
+  const session = loadSession();
+  return session ? { Authorization: `Bearer ${session.token}` } : {};
+};
+
+/** Which login provider the server uses; "local" lets the user pick a role. */
+export const fetchAuthProvider = async (): Promise<string> => {
+  const response = await fetch(AUTH_URL);
+  if (!response.ok) throw new Error(`Sign-in is unavailable (${response.status}).`);
+  return (await response.json()).provider;
+};
+
+export const signIn = async (username: string, password: string, role?: UserRole): Promise<AuthSession> => {
+  const response = await fetch(AUTH_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password, role })
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(body.error || `Sign-in failed (${response.status}).`);
+  localStorage.setItem(SESSION_KEY, JSON.stringify(body));
+  return body;
+};
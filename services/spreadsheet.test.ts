@@ -0,0 +1,65 @@
+import { describe, expect, it, vi } from 'vitest';
+import { EvaluationReport } from '../types';
+import { DEFAULT_COLUMNS, exportMarksSpreadsheet, parseCsv, rowsToMarks } from './spreadsheet';
+
+// SheetJS comes from the CDN in the browser; the CSV path does not touch it.
+vi.mock('xlsx', () => ({}));
+
+const report = {
+  studentId: 'ANON-7KQ2MX',
+  evaluatorName: 'Dr. Rao, Anatomy',
+  examReference: 'Anatomy Sessional I — ANON-7KQ2MX',
+  questionWiseFeedback: [
+    { questionNo: 'Q1', maxMarks: '5', marksAwarded: '2½', humanFeedback: '=SUM(A1:A9) shows no working', aiFeedbackAddition: '' },
+    { questionNo: 'Q2', maxMarks: '5', marksAwarded: '-', humanFeedback: "'Brachial plexus' misspelt", aiFeedbackAddition: '' },
+    { questionNo: 'Q3', maxMarks: '5', marksAwarded: '4', humanFeedback: '@mention\tand a "quote", then\na new line', aiFeedbackAddition: '' }
+  ],
+  elaboratedGeneralisedFeedback: '+ Revise the rotator cuff',
+  scoreVerification: { reportedTotal: 6.5, calculatedTotal: 6.5, maxTotal: 15, status: 'Correct', discrepancies: [] }
+} as unknown as EvaluationReport;
+
+const exportCsv = (reports: EvaluationReport[]) => exportMarksSpreadsheet(reports, 'csv', DEFAULT_COLUMNS).text();
+
+describe('CSV marks export', () => {
+  it('reads back the marks and comments it wrote', async () => {
+    const [imported] = rowsToMarks(parseCsv(await exportCsv([report])), DEFAULT_COLUMNS);
+
+    expect(imported).toEqual({
+      studentId: 'ANON-7KQ2MX',
+      feedback: {
+        evaluatorName: 'Dr. Rao, Anatomy',
+        questions: [
+          { questionNo: '1', maxMarks: 5, marksAwarded: '2½', comment: '=SUM(A1:A9) shows no working' },
+          { questionNo: '2', maxMarks: 5, marksAwarded: '-', comment: "'Brachial plexus' misspelt" },
+          { questionNo: '3', maxMarks: 5, marksAwarded: '4', comment: '@mention\tand a "quote", then\na new line' }
+        ],
+        overallFeedback: '+ Revise the rotator cuff',
+        reportedTotal: '6.5'
+      }
+    });
+  });
+
+  it('quotes text a spreadsheet could run as a formula, and text already starting with a quote', async () => {
+    const csv = await exportCsv([report]);
+
+    expect(csv).toContain(",'=SUM(A1:A9) shows no working,");
+    expect(csv).toContain(",'-,");
+    expect(csv).toContain(",''Brachial plexus' misspelt,");
+    expect(csv).toContain(",'+ Revise the rotator cuff,");
+    expect(csv).toContain(',"Dr. Rao, Anatomy",');
+  });
+
+  it('keeps a quote the cell started with when the file was not written here', () => {
+    expect(parseCsv("Roll No,Note\nR1,'tis fine\nR2,'=1+1")).toEqual([['Roll No', 'Note'], ['R1', "'tis fine"], ['R2', '=1+1']]);
+  });
+
+  it('guards text starting with a tab or carriage return', async () => {
+    const csv = await exportCsv([{ ...report, elaboratedGeneralisedFeedback: '\t=cmd', evaluatorName: '\r=cmd' }]);
+    const [, row] = parseCsv(csv);
+
+    expect(csv).toContain("'\t=cmd");
+    expect(csv).toContain("\"'\r=cmd\"");
+    expect(row).toContain('\t=cmd');
+    expect(row).toContain('\r=cmd');
+  });
+});
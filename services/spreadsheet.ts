@@ -0,0 +1,287 @@
+import * as XLSX from 'xlsx';
+import { EvaluationReport, ReportViewMode, StructuredFeedback, StructuredQuestionMark } from '../types';
+import { projectReport } from './reportView';
+import { normalizeQuestionNo, parseMark } from './scoring';
+
+/**
+ * Header names for a marks spreadsheet. Question columns repeat once per
+ * question, with {q} standing for the question number, e.g. "Q{q} Mark".
+ */
+export interface SpreadsheetColumns {
+  studentId: string;
+  evaluatorName: string;
+  questionMark: string;
+  questionMax: string;
+  questionFeedback: string;
+  questionAddition: string;
+  overallFeedback: string;
+  total: string;
+  calculatedTotal: string;
+  maxTotal: string;
+  status: string;
+}
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+export interface ImportedMarks {
+  studentId: string;
+  feedback: StructuredFeedback;
+}
+
+const COLUMNS_KEY = 'anatomyguard.spreadsheetColumns';
+const QUESTION_PLACEHOLDER = '{q}';
+const QUESTION_KEYS = ['questionMark', 'questionMax', 'questionFeedback', 'questionAddition'] as const;
+
+export const DEFAULT_COLUMNS: SpreadsheetColumns = {
+  studentId: 'Roll No',
+  evaluatorName: 'Evaluator',
+  questionMark: 'Q{q} Mark',
+  questionMax: 'Q{q} Max',
+  questionFeedback: 'Q{q} Feedback',
+  questionAddition: 'Q{q} AI Addition',
+  overallFeedback: 'Overall Feedback',
+  total: 'Total',
+  calculatedTotal: 'Recomputed Total',
+  maxTotal: 'Max Total',
+  status: 'Verification'
+};
+
+export const COLUMN_LABELS: Record<keyof SpreadsheetColumns, string> = {
+  studentId: 'Roll number',
+  evaluatorName: 'Evaluator',
+  questionMark: 'Question mark',
+  questionMax: 'Question max marks',
+  questionFeedback: 'Question feedback',
+  questionAddition: 'Question AI addition',
+  overallFeedback: 'Overall feedback',
+  total: 'Total awarded',
+  calculatedTotal: 'Recomputed total',
+  maxTotal: 'Max total',
+  status: 'Verification status'
+};
+
+export const loadColumns = (): SpreadsheetColumns => {
+  try {
+    return { ...DEFAULT_COLUMNS, ...JSON.parse(localStorage.getItem(COLUMNS_KEY) || '{}') };
+  } catch {
+    return DEFAULT_COLUMNS;
+  }
+};
+
+export const saveColumns = (columns: SpreadsheetColumns) => localStorage.setItem(COLUMNS_KEY, JSON.stringify(columns));
+
+/** Problems that would stop a mapping from reading back what it wrote. */
+export const validateColumns = (columns: SpreadsheetColumns): string[] => {
+  const errors: string[] = [];
+  QUESTION_KEYS.forEach(key => {
+    if (!columns[key].includes(QUESTION_PLACEHOLDER)) errors.push(`${COLUMN_LABELS[key]}: include ${QUESTION_PLACEHOLDER} where the question number goes.`);
+  });
+  (Object.keys(columns) as (keyof SpreadsheetColumns)[]).forEach(key => {
+    if (!columns[key].trim()) errors.push(`${COLUMN_LABELS[key]}: enter a column name.`);
+  });
+  const names = Object.values(columns).map(n => n.trim().toLowerCase());
+  if (new Set(names).size !== names.length) errors.push('Every column needs a different name.');
+  return errors;
+};
+
+// "Q1(a)" and "1(a)" share the header "Q1(a) Mark" rather than "QQ1(a) Mark".
+const questionKey = (questionNo: string) => String(questionNo).trim().replace(/^q(uestion)?\.?\s*/i, '');
+const questionHeader = (pattern: string, questionNo: string) => pattern.split(QUESTION_PLACEHOLDER).join(questionKey(questionNo));
+
+type Cell = string | number;
+
+const asCell = (value: string | number | undefined): Cell => {
+  if (typeof value === 'number') return value;
+  const text = value ?? '';
+  return /^\d+(\.\d+)?$/.test(text.trim()) ? Number(text) : text;
+};
+
+/**
+ * One row per student and one column group per question, in the order the
+ * questions first appear across the reports.
+ */
+export const reportsToRows = (reports: EvaluationReport[], columns: SpreadsheetColumns = loadColumns(), mode: ReportViewMode = 'faculty'): Cell[][] => {
+  const questions = new Map<string, string>();
+  reports.forEach(r => r.questionWiseFeedback.forEach(q => {
+    const key = normalizeQuestionNo(q.questionNo);
+    if (!questions.has(key)) questions.set(key, q.questionNo);
+  }));
+
+  const header = [
+    columns.studentId,
+    columns.evaluatorName,
+    ...[...questions.values()].flatMap(no => QUESTION_KEYS.map(key => questionHeader(columns[key], no))),
+    columns.overallFeedback,
+    columns.total,
+    columns.calculatedTotal,
+    columns.maxTotal,
+    columns.status
+  ];
+
+  const rows = reports.map(original => {
+    const report = projectReport(original, mode);
+    const byQuestion = new Map(report.questionWiseFeedback.map(q => [normalizeQuestionNo(q.questionNo), q]));
+    const sv = report.scoreVerification;
+    return [
+      original.studentId || '',
+      original.evaluatorName || '',
+      ...[...questions.keys()].flatMap(key => {
+        const q = byQuestion.get(key);
+        return q ? [asCell(q.marksAwarded), asCell(q.maxMarks), q.humanFeedback, q.aiFeedbackAddition] : ['', '', '', ''];
+      }),
+      report.elaboratedGeneralisedFeedback,
+      sv.reportedTotal,
+      sv.calculatedTotal,
+      sv.maxTotal ?? '',
+      sv.status
+    ];
+  });
+
+  return [header, ...rows];
+};
+
+// Text starting with one of these can run as a formula when the CSV is opened
+// in a spreadsheet, so a leading quote keeps it text. Text that already starts
+// with a quote gets one too, so reading the file back takes off only the
+// quotes added here. Numbers go as they are.
+const GUARDED_START = /^[=+\-@\t\r']/;
+
+const csvCell = (cell: Cell) => {
+  const text = typeof cell === 'string' && GUARDED_START.test(cell) ? `'${cell}` : String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// The byte-order mark makes Excel open the file as UTF-8.
+const toCsv = (rows: Cell[][]) => '\uFEFF' + rows.map(row => row.map(csvCell).join(',')).join('\r\n');
+
+const toXlsx = (rows: Cell[][]) => {
+  const book = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(book, XLSX.utils.aoa_to_sheet(rows), 'Marks');
+  return XLSX.write(book, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer;
+};
+
+export const exportMarksSpreadsheet = (reports: EvaluationReport[], format: SpreadsheetFormat, columns: SpreadsheetColumns = loadColumns(), mode: ReportViewMode = 'faculty'): Blob => {
+  const rows = reportsToRows(reports, columns, mode);
+  return format === 'csv'
+    ? new Blob([toCsv(rows)], { type: 'text/csv;charset=utf-8' })
+    : new Blob([toXlsx(rows)], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
+
+// Undoes the quote csvCell puts before guarded text; any other leading quote was in the cell.
+const unguardCell = (cell: string) => (cell.startsWith("'") && GUARDED_START.test(cell.slice(1)) ? cell.slice(1) : cell);
+
+/** RFC 4180 parsing: quoted cells may hold commas, quotes and line breaks. */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') i++;
+      rows.push([...row, cell]);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || row.length) rows.push([...row, cell]);
+  return rows.filter(r => r.some(c => c.trim())).map(r => r.map(unguardCell));
+};
+
+// CSV is parsed here rather than by SheetJS, which reads marks like "3/5" as dates.
+export const readSpreadsheet = async (file: File): Promise<string[][]> => {
+  if (/\.csv$/i.test(file.name) || file.type === 'text/csv') return parseCsv(await file.text());
+  const book = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+  const sheet = book.Sheets[book.SheetNames[0]];
+  if (!sheet) throw new Error(`${file.name} has no worksheets.`);
+  const rows = XLSX.utils.sheet_to_json<Cell[]>(sheet, { header: 1, raw: false, defval: '' });
+  return rows.map(r => r.map(c => String(c))).filter(r => r.some(c => c.trim()));
+};
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const headerPattern = (pattern: string) =>
+  new RegExp(`^${pattern.trim().split(QUESTION_PLACEHOLDER).map(escapeRegExp).join('(.+?)')}$`, 'i');
+const sameHeader = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Reads a marks sheet written with the same column mapping back into one
+ * marking form per student. AI additions, recomputed totals and the
+ * verification status are outputs of an evaluation and are not read.
+ */
+export const rowsToMarks = (rows: string[][], columns: SpreadsheetColumns = loadColumns()): ImportedMarks[] => {
+  const [header = [], ...body] = rows;
+  const fixed = (key: keyof SpreadsheetColumns) => header.findIndex(h => sameHeader(h, columns[key]));
+
+  const idColumn = fixed('studentId');
+  if (idColumn < 0) throw new Error(`No "${columns.studentId}" column was found. Check the spreadsheet column names.`);
+
+  const questionCells = new Map<string, { questionNo: string; mark?: number; max?: number; feedback?: number }>();
+  const patterns = { mark: headerPattern(columns.questionMark), max: headerPattern(columns.questionMax), feedback: headerPattern(columns.questionFeedback) };
+  const fixedNames = (Object.keys(columns) as (keyof SpreadsheetColumns)[]).filter(k => !(QUESTION_KEYS as readonly string[]).includes(k)).map(k => columns[k]);
+  header.forEach((h, index) => {
+    if (fixedNames.some(name => sameHeader(h, name))) return;
+    for (const [field, pattern] of Object.entries(patterns) as [keyof typeof patterns, RegExp][]) {
+      const match = h.trim().match(pattern);
+      if (!match) continue;
+      const key = normalizeQuestionNo(match[1]);
+      questionCells.set(key, { questionNo: match[1].trim(), ...questionCells.get(key), [field]: index });
+      return;
+    }
+  });
+  const questions = [...questionCells.values()].filter(q => q.mark !== undefined);
+  if (!questions.length) throw new Error(`No question mark columns were found. They should be named like "${questionHeader(columns.questionMark, '1')}".`);
+
+  const evaluatorColumn = fixed('evaluatorName');
+  const overallColumn = fixed('overallFeedback');
+  const totalColumn = fixed('total');
+  const seen = new Set<string>();
+
+  return body.flatMap((row, i) => {
+    const studentId = (row[idColumn] || '').trim().toUpperCase();
+    if (!studentId) return [];
+    if (seen.has(studentId)) throw new Error(`Roll number ${studentId} appears more than once (row ${i + 2}).`);
+    seen.add(studentId);
+
+    const cell = (index: number | undefined) => (index === undefined || index < 0 ? '' : (row[index] || '').trim());
+    // A question left wholly blank is one this student's report did not have.
+    const entries = questions
+      .filter(q => cell(q.mark) || cell(q.max) || cell(q.feedback))
+      .map((q): StructuredQuestionMark => {
+        const max = parseMark(cell(q.max)).value;
+        return { questionNo: q.questionNo, ...(max !== null ? { maxMarks: max } : {}), marksAwarded: cell(q.mark), comment: cell(q.feedback) };
+      });
+    return [{
+      studentId,
+      feedback: {
+        evaluatorName: cell(evaluatorColumn) || undefined,
+        questions: entries,
+        overallFeedback: cell(overallColumn),
+        reportedTotal: cell(totalColumn) || undefined
+      }
+    }];
+  });
+};
+
+export const importMarksSpreadsheet = async (file: File, columns: SpreadsheetColumns = loadColumns()) =>
+  rowsToMarks(await readSpreadsheet(file), columns);
+
+export const isSpreadsheet = (file: File) => /\.(csv|xlsx|xls)$/i.test(file.name);
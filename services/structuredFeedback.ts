@@ -0,0 +1,82 @@
+import { EvaluationReport, ExamTemplate, QuestionFeedback, StructuredFeedback } from '../types';
+import { flattenTemplate } from './examTemplate';
+import { normalizeQuestionNo, parseMark, questionLabel } from './scoring';
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+/** An empty marking form with one row per question in the template. */
+export const feedbackFromTemplate = (template: ExamTemplate | null): StructuredFeedback => ({
+  questions: template
+    ? flattenTemplate(template).map(q => ({ questionNo: q.questionNo, maxMarks: q.maxMarks, marksAwarded: '', comment: '' }))
+    : [{ questionNo: '1', marksAwarded: '', comment: '' }],
+  overallFeedback: ''
+});
+
+/** Sum of the entered marks; questions marked NA count as zero. */
+export const structuredTotal = (feedback: StructuredFeedback) =>
+  round(feedback.questions.reduce((sum, q) => sum + (parseMark(q.marksAwarded).value ?? 0), 0));
+
+/** Everything that has to be fixed before the form can be sent. */
+export const validateStructuredFeedback = (feedback: StructuredFeedback): string[] => {
+  const errors: string[] = [];
+  if (!feedback.questions?.length) errors.push('Add at least one question.');
+  const seen = new Set<string>();
+  (feedback.questions || []).forEach((q, i) => {
+    const key = normalizeQuestionNo(q.questionNo || '');
+    if (!key) {
+      errors.push(`Row ${i + 1}: enter a question number.`);
+      return;
+    }
+    if (seen.has(key)) errors.push(`${questionLabel(q.questionNo)} appears more than once.`);
+    seen.add(key);
+    const mark = parseMark(q.marksAwarded);
+    if (!String(q.marksAwarded ?? '').trim()) errors.push(`${questionLabel(q.questionNo)}: enter a mark, or NA if it was not attempted.`);
+    else if (mark.value === null && !mark.notAttempted) errors.push(`${questionLabel(q.questionNo)}: "${q.marksAwarded}" could not be read as a mark.`);
+  });
+  if (feedback.reportedTotal?.trim() && parseMark(feedback.reportedTotal).value === null) {
+    errors.push(`The total "${feedback.reportedTotal}" could not be read as a number.`);
+  }
+  if (!feedback.overallFeedback?.trim()) errors.push('Enter the overall feedback.');
+  return errors;
+};
+
+/** The form as the model sees it, in place of the feedback document. */
+export const describeStructuredFeedback = (feedback: StructuredFeedback): string =>
+  JSON.stringify({
+    evaluatorName: feedback.evaluatorName || '',
+    questions: feedback.questions.map(q => ({ questionNo: q.questionNo, maxMarks: q.maxMarks ?? '', marksAwarded: q.marksAwarded, humanFeedback: q.comment })),
+    overallFeedback: feedback.overallFeedback,
+    reportedTotal: feedback.reportedTotal?.trim() || String(structuredTotal(feedback))
+  }, null, 2);
+
+/**
+ * Overwrites the model's copy of the evaluator's marks and comments with what
+ * was entered, so they are verbatim whatever the model returned. The form's
+ * question list wins; the model's additions are kept where the rows match.
+ */
+export const applyStructuredFeedback = (report: EvaluationReport, feedback: StructuredFeedback): EvaluationReport => {
+  const rows = new Map(report.questionWiseFeedback.map(q => [normalizeQuestionNo(q.questionNo), q]));
+  const questionWiseFeedback = feedback.questions.map((entry): QuestionFeedback => {
+    const row = rows.get(normalizeQuestionNo(entry.questionNo));
+    return {
+      keyAnswerPoints: '',
+      studentAnswerSummary: '',
+      aiFeedbackAddition: '',
+      ...row,
+      questionNo: entry.questionNo,
+      maxMarks: entry.maxMarks ?? row?.maxMarks ?? '',
+      marksAwarded: entry.marksAwarded,
+      humanFeedback: entry.comment
+    };
+  });
+  const reported = feedback.reportedTotal?.trim();
+  return {
+    ...report,
+    evaluatorName: feedback.evaluatorName?.trim() || report.evaluatorName,
+    questionWiseFeedback,
+    scoreVerification: {
+      ...report.scoreVerification,
+      reportedTotal: (reported ? parseMark(reported).value : null) ?? structuredTotal(feedback)
+    }
+  };
+};
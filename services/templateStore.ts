@@ -0,0 +1,27 @@
+import { ExamTemplate } from '../types';
+
+const STORAGE_KEY = 'anatomyguard.examTemplates';
+
+export const loadTemplates = (): ExamTemplate[] => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const persist = (templates: ExamTemplate[]) => localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+
+export const saveTemplate = (template: ExamTemplate): ExamTemplate[] => {
+  const saved = { ...template, updatedAt: new Date().toISOString() };
+  const templates = [...loadTemplates().filter(t => t.id !== template.id), saved];
+  templates.sort((a, b) => a.examReference.localeCompare(b.examReference));
+  persist(templates);
+  return templates;
+};
+
+export const deleteTemplate = (id: string): ExamTemplate[] => {
+  const templates = loadTemplates().filter(t => t.id !== id);
+  persist(templates);
+  return templates;
+};
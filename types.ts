@@ -1,10 +1,146 @@
 export enum ProcessingStatus {
   IDLE = 'IDLE',
+  QUEUED = 'QUEUED',
   ANALYZING = 'ANALYZING',
   COMPLETED = 'COMPLETED',
   ERROR = 'ERROR'
 }
 
+export interface DocumentPage {
+  /** 1-based page number in the original document; dropped blank pages leave gaps. */
+  page: number;
+  mimeType: string;
+  data: string;
+}
+
+export interface DocumentInput {
+  name: string;
+  mimeType: string;
+  data?: string;
+  fileUri?: string;
+  /** Preprocessed page images, sent in place of `data`. */
+  pages?: DocumentPage[];
+  /** The document's text layer, where it has one, so quotes cited from it can be checked. */
+  text?: string;
+}
+
+export interface ExamMaterials {
+  questionPaper: DocumentInput;
+  markingScheme: DocumentInput;
+  expiresAt?: string;
+}
+
+export interface ModelOptions {
+  /** Provider name, e.g. "gemini" or "mock"; defaults to the EVALUATION_PROVIDER setting. */
+  provider?: string;
+  model?: string;
+  thinkingBudget?: number;
+}
+
+export type ExamFormat = 'theory' | 'viva' | 'ospe';
+
+/**
+ * How the model is asked to write its additions for one subject and exam
+ * format. A published version is never edited; changes get a new version.
+ */
+export interface PromptProfile {
+  id: string;
+  version: number;
+  name: string;
+  subject: string;
+  examFormat: ExamFormat;
+  /** Register the additions and synthesis are written in. */
+  tone: string;
+  /** Length of each AI feedback addition, e.g. "one line". */
+  additionLength: string;
+  synthesisSentences: { min: number; max: number };
+  observationCount: number;
+  /** When false, keyAnswerPoints are left out of the report. */
+  includeKeyPoints: boolean;
+}
+
+/** Names a profile version; recorded on each report so the run can be repeated. */
+export interface PromptProfileRef {
+  id: string;
+  /** Omitted means the latest version. */
+  version?: number;
+  name?: string;
+}
+
+export interface SecondMarkerOptions {
+  /** Marks either way a suggestion may differ from the awarded mark before it is flagged. */
+  tolerance: number;
+}
+
+export interface StructuredQuestionMark {
+  questionNo: string;
+  maxMarks?: number;
+  /** As the evaluator entered it, e.g. "3", "2½" or "NA". */
+  marksAwarded: string;
+  comment: string;
+}
+
+/** Marks and comments entered in the app instead of an uploaded feedback document. */
+export interface StructuredFeedback {
+  evaluatorName?: string;
+  questions: StructuredQuestionMark[];
+  overallFeedback: string;
+  /** The total written on the script; the sum of the marks when left out. */
+  reportedTotal?: string;
+}
+
+export interface EvaluationRequest extends ExamMaterials {
+  studentScript: DocumentInput;
+  /** Required unless `structuredFeedback` is given. */
+  humanFeedback?: DocumentInput;
+  structuredFeedback?: StructuredFeedback;
+  template?: ExamTemplate;
+  modelOptions?: ModelOptions;
+  /** Asks the model for an independent mark per question; omitted means no moderation. */
+  secondMarker?: SecondMarkerOptions;
+  /** Defaults to the anatomy theory profile. */
+  promptProfile?: PromptProfileRef;
+  /** Stands in for the student, whose name and roll number are masked before upload. */
+  studentPseudonym?: string;
+  /** Runs the model again even if these inputs were evaluated before; the earlier reports are kept. */
+  reevaluate?: boolean;
+  /** Script pages the browser left out as blank, copied into the report for reviewers. */
+  droppedBlankPages?: number[];
+}
+
+/** A student as known to this browser only; the server sees their pseudonym. */
+export interface StudentIdentity {
+  rollNumber: string;
+  name?: string;
+}
+
+export type UserRole = 'evaluator' | 'moderator' | 'admin';
+
+export interface AuthUser {
+  /** Login name; stable across sessions. */
+  id: string;
+  name: string;
+  role: UserRole;
+}
+
+export interface AuthSession {
+  token: string;
+  user: AuthUser;
+  expiresAt: string;
+}
+
+export type SuggestionDecision = 'pending' | 'accepted' | 'rejected';
+
+export type EvidenceSource = 'studentScript' | 'markingScheme';
+
+export interface EvidenceReference {
+  source: EvidenceSource;
+  /** 1-based page in the cited document. */
+  page?: number;
+  /** Verbatim text from the document, e.g. the marking-scheme point. */
+  quote: string;
+}
+
 export interface QuestionFeedback {
   questionNo: string;
   maxMarks: string | number;
@@ -13,18 +149,103 @@ export interface QuestionFeedback {
   studentAnswerSummary: string;
   humanFeedback: string;
   aiFeedbackAddition: string;
+  aiEvidence?: EvidenceReference[];
+  /** Set when the addition cites nothing and the grounding policy keeps it flagged. */
+  aiUngrounded?: boolean;
+  aiAdditionDecision?: SuggestionDecision;
+  /** The model's own mark, present only until it is moved into the moderation table. */
+  secondMarker?: SecondMarkerSuggestion;
+}
+
+export type MarkConfidence = 'low' | 'medium' | 'high';
+
+export interface SecondMarkerSuggestion {
+  suggestedMark: string | number;
+  /** Why the mark follows from the key answer points. */
+  rationale: string;
+  confidence: MarkConfidence;
+}
+
+export interface ModerationItem extends SecondMarkerSuggestion {
+  questionNo: string;
+  marksAwarded: string | number;
+  /** Suggested minus awarded; absent when either mark cannot be read. */
+  difference?: number;
+  flagged: boolean;
+}
+
+export interface ModerationSummary {
+  tolerance: number;
+  flagged: number;
+  items: ModerationItem[];
+}
+
+export type ScoreDiscrepancyType =
+  | 'UNPARSEABLE_MARK'
+  | 'EXCEEDS_MAX'
+  | 'MAX_MARKS_CONFLICT'
+  | 'OPTIONAL_OVER_ATTEMPT'
+  | 'TOTAL_MISMATCH'
+  | 'TEMPLATE_MISSING_QUESTION'
+  | 'TEMPLATE_UNKNOWN_QUESTION'
+  | 'TEMPLATE_MAX_MISMATCH'
+  | 'TEMPLATE_TOTAL_MISMATCH';
+
+export interface ScoreDiscrepancy {
+  type: ScoreDiscrepancyType;
+  severity: 'error' | 'warning';
+  message: string;
+  questionNo?: string;
+  expected?: number;
+  actual?: number;
+}
+
+export interface OptionalSection {
+  label: string;
+  questionNos: string[];
+  attemptAny: number;
+}
+
+export interface TemplateQuestion {
+  questionNo: string;
+  maxMarks: number;
+  keyAnswerPoints?: string;
+  subParts?: TemplateQuestion[];
+}
+
+export interface ExamTemplate {
+  id: string;
+  examReference: string;
+  questions: TemplateQuestion[];
+  optionalSections?: OptionalSection[];
+  totalMarks: number;
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface ScoreVerification {
   calculatedTotal: number;
   reportedTotal: number;
+  maxTotal?: number;
   status: 'Correct' | 'Incorrect';
   discrepancyExplanation?: string;
+  discrepancies?: ScoreDiscrepancy[];
 }
 
 export interface AIObservation {
   section: string;
   observation: string;
+  evidence?: EvidenceReference[];
+  ungrounded?: boolean;
+}
+
+export type GroundingPolicy = 'flag' | 'drop';
+
+export interface GroundingSummary {
+  policy: GroundingPolicy;
+  /** Additions and observations left in the report without a citation. */
+  flagged: number;
+  dropped: number;
 }
 
 export interface ActionSummary {
@@ -33,13 +254,194 @@ export interface ActionSummary {
   evidence: string;
 }
 
+export type ReviewState = 'draft' | 'reviewed' | 'approved';
+
+export type ReportViewMode = 'student' | 'faculty';
+
+export type FieldOrigin = 'ai' | 'human';
+
+export interface ReportEdit {
+  field: string;
+  previousValue: string;
+  newValue: string;
+  editedAt: string;
+  editedBy?: string;
+}
+
+export interface ReportReview {
+  state: ReviewState;
+  fieldOrigins: Record<string, FieldOrigin>;
+  edits: ReportEdit[];
+  reviewedBy?: string;
+  reviewedAt?: string;
+  approvedBy?: string;
+  approvedAt?: string;
+}
+
+export interface ReportValidationError {
+  /** Dotted path into the report, e.g. "questionWiseFeedback[2].marksAwarded". */
+  path: string;
+  message: string;
+}
+
 export interface EvaluationReport {
+  /** Assigned when the report is generated; keys the saved history entry. */
+  id?: string;
+  /** Pseudonym of the student the report is about; reports from before redaction hold the roll number. */
+  studentId?: string;
+  evaluatedAt?: string;
   examReference: string;
+  /** The human evaluator, as named in the feedback document. */
+  evaluatorName?: string;
+  templateId?: string;
+  /** Hash of the question paper and marking scheme, so analytics can group reports by exam without a template. */
+  examId?: string;
   evaluationType: string;
   aiModelRole: string;
   elaboratedGeneralisedFeedback: string;
   questionWiseFeedback: QuestionFeedback[];
+  optionalSections?: OptionalSection[];
   scoreVerification: ScoreVerification;
   finalizedFeedback: AIObservation[];
   actionSummary: ActionSummary[];
+  grounding?: GroundingSummary;
+  /** Second-marker suggestions, kept apart from the human marks they are compared with. */
+  moderation?: ModerationSummary;
+  /** The signed-in user who ran the evaluation, as verified by the server. */
+  generatedBy?: AuthUser;
+  promptProfile?: Required<PromptProfileRef>;
+  /** Hash of the prompt instructions, so a change to their wording shows even where the profile version did not. */
+  promptSha256?: string;
+  review?: ReportReview;
+  /** Hash of the inputs, prompt profile and model settings; reports sharing it are versions of one evaluation. */
+  evaluationKey?: string;
+  /** 1 for the first evaluation of these inputs, then one more for each re-evaluation. */
+  version?: number;
+  /** Script pages left out of the upload as blank, so a reviewer can check none had answers on them. */
+  droppedBlankPages?: number[];
+}
+
+// The model extracts marks and drafts its additions in one call; enhancing is
+// the server settling those additions (citations, second-marker suggestions)
+// once the marks are scored. Preparing and uploading happen in the browser,
+// before the job exists.
+export type JobStage = 'preparing' | 'uploading' | 'extracting' | 'scoring' | 'enhancing' | 'verifying';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface EvaluationJob {
+  id: string;
+  status: JobStatus;
+  stage?: JobStage;
+  createdAt: string;
+  updatedAt: string;
+  report?: EvaluationReport;
+  error?: string;
+  /** HTTP status the failure maps to, so clients can tell bad input from transient faults. */
+  errorStatus?: number;
+  validationErrors?: ReportValidationError[];
+  requestedBy?: AuthUser;
+  /** Question rows streamed so far, raw from the model; cleared once the job finishes. */
+  partialQuestions?: Partial<QuestionFeedback>[];
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  responseTokens: number;
+  /** Spent on the model's thinking, where the provider reports it. */
+  thinkingTokens?: number;
+  totalTokens: number;
+}
+
+/** What an input document was, without its content. */
+export interface DocumentDigest {
+  name: string;
+  /** Hex SHA-256 of the bytes received; for page images, of each page in order. */
+  sha256?: string;
+  pages?: number;
+  fileUri?: string;
+}
+
+/** How a report was produced, as recorded in the audit log. */
+export interface EvaluationTrace {
+  inputs: Record<string, DocumentDigest>;
+  provider: string;
+  model: string;
+  thinkingBudget?: number;
+  promptProfile: PromptProfileRef;
+  promptSha256: string;
+  templateId?: string;
+  secondMarker?: SecondMarkerOptions;
+  /** Model calls made, including corrective re-prompts. */
+  attempts: number;
+  usage?: TokenUsage;
+  /** Hex SHA-256 of the model response the report was parsed from. */
+  responseSha256: string;
+  startedAt: string;
+  completedAt: string;
+}
+
+export type AuditAction = 'evaluated' | 'reused' | 'edited' | 'decided' | 'reviewed' | 'approved' | 'reopened';
+
+/**
+ * One entry in a report's audit log. Entries are never changed: each carries
+ * the hash of the one before it, so a removed or altered entry breaks the chain.
+ */
+export interface AuditEntry {
+  reportId: string;
+  /** Position in this report's log, from 1. */
+  sequence: number;
+  action: AuditAction;
+  recordedAt: string;
+  user: AuthUser;
+  details: Record<string, unknown>;
+  previousHash: string | null;
+  /** Hex HMAC-SHA256 of the entry's other fields, keyed with AUDIT_SECRET. */
+  hash: string;
+}
+
+export interface AuditExport {
+  reportId?: string;
+  exportedAt: string;
+  exportedBy: AuthUser;
+  /** False if an entry was altered, removed or recorded out of order. */
+  intact: boolean;
+  problems: string[];
+  entries: AuditEntry[];
+}
+
+export interface StoredReport {
+  id: string;
+  examReference: string;
+  studentId?: string;
+  reviewState: ReviewState;
+  evaluatedAt: string;
+  updatedAt: string;
+  archived: boolean;
+  report: EvaluationReport;
+}
+
+export interface HistoryFilters {
+  /** Matched against exam reference and student. */
+  query?: string;
+  reviewState?: ReviewState;
+  from?: string;
+  to?: string;
+  includeArchived?: boolean;
+}
+
+export interface BatchItem {
+  id: string;
+  rollNumber: string;
+  studentScript: File | null;
+  feedback: File | null;
+  /** Marks imported from a spreadsheet row, used instead of a feedback file. */
+  marks?: StructuredFeedback;
+  status: ProcessingStatus;
+  attempts: number;
+  /** Server-side evaluation job, kept so the result can be fetched again. */
+  jobId?: string;
+  stage?: JobStage;
+  error?: string;
+  report?: EvaluationReport;
 }
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+// Kept apart from vite.config.ts so the function tests run without the React plugin.
+export default defineConfig({
+  test: {
+    include: ['netlify/**/*.test.ts', 'services/**/*.test.ts'],
+    environment: 'node'
+  }
+});